@@ -1,23 +1,77 @@
 import { useState, useEffect, useCallback } from 'react'
+import { Routes, Route, Navigate, useNavigate, useParams, useLocation } from 'react-router-dom'
 import { TemplateEditor } from '@/components/TemplateEditor'
 import { TemplateGallery } from '@/components/TemplateGallery'
 import { ImageGenerator } from '@/components/ImageGenerator'
+import { Button } from '@/components/ui/button'
 import { Toaster } from '@/components/ui/sonner'
 import { blink } from '@/blink/client'
+import { fromTemplateRecord } from '@/lib/templates'
 import type { Template } from '@/types/template'
 
-enum View {
-  Gallery,
-  Editor,
-  Generator
+function TemplateNotFound() {
+  const navigate = useNavigate()
+  return (
+    <div className="text-center p-12">
+      <h2 className="text-lg font-medium text-gray-900 mb-2">Template not found</h2>
+      <p className="text-gray-500 mb-4">It may have been deleted or the link is incorrect.</p>
+      <Button onClick={() => navigate('/')}>Back to Gallery</Button>
+    </div>
+  )
+}
+
+interface EditorRouteProps {
+  user: any
+  templates: Template[]
+  onTemplateCreated: (template: Template) => void
+  onTemplateSaved: (template: Template) => void
+}
+
+function EditorRoute({ user, templates, onTemplateCreated, onTemplateSaved }: EditorRouteProps) {
+  const { templateId } = useParams()
+  const navigate = useNavigate()
+  const template = templateId ? templates.find(t => t.id === templateId) : null
+
+  if (templateId && !template) {
+    return <TemplateNotFound />
+  }
+
+  return (
+    <TemplateEditor
+      key={templateId ?? 'new'}
+      user={user}
+      initialTemplate={template}
+      onTemplateCreated={onTemplateCreated}
+      onTemplateSaved={onTemplateSaved}
+      onBackToGallery={() => navigate('/')}
+    />
+  )
+}
+
+function GeneratorRoute({ templates }: { templates: Template[] }) {
+  const { templateId } = useParams()
+  const navigate = useNavigate()
+  const template = templateId ? templates.find(t => t.id === templateId) : null
+
+  if (templateId && !template) {
+    return <TemplateNotFound />
+  }
+
+  return (
+    <ImageGenerator
+      templates={templates}
+      template={template ?? null}
+      onTemplateSelected={(selected) => navigate(`/generate/${selected.id}`)}
+    />
+  )
 }
 
 function App() {
   const [user, setUser] = useState<any>(null)
   const [templates, setTemplates] = useState<Template[]>([])
-  const [currentView, setCurrentView] = useState<View>(View.Gallery)
-  const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const navigate = useNavigate()
+  const location = useLocation()
 
   const fetchTemplates = useCallback(async (userId: string) => {
     try {
@@ -26,10 +80,7 @@ function App() {
         orderBy: { createdAt: 'desc' }
       })
       
-      const parsedTemplates = userTemplates.map((t: any) => ({
-        ...t,
-        textLayers: typeof t.textLayers === 'string' ? JSON.parse(t.textLayers) : t.textLayers
-      }))
+      const parsedTemplates = userTemplates.map(fromTemplateRecord)
       setTemplates(parsedTemplates)
     } catch (error) {
       console.error('Failed to fetch templates:', error)
@@ -51,7 +102,7 @@ function App() {
     return unsubscribe
   }, [fetchTemplates])
 
-  const handleTemplateCreated = (newTemplate: Template) => {
+  const handleTemplateSaved = (newTemplate: Template) => {
     setTemplates(prev => {
       const index = prev.findIndex(t => t.id === newTemplate.id)
       if (index > -1) {
@@ -62,22 +113,11 @@ function App() {
         return [newTemplate, ...prev]
       }
     })
-    setCurrentView(View.Gallery)
   }
 
-  const handleTemplateSelected = (template: Template) => {
-    setSelectedTemplate(template)
-    setCurrentView(View.Editor)
-  }
-
-  const handleNewTemplate = () => {
-    setSelectedTemplate(null)
-    setCurrentView(View.Editor)
-  }
-
-  const handleBackToGallery = () => {
-    setSelectedTemplate(null)
-    setCurrentView(View.Gallery)
+  const handleTemplateCreated = (newTemplate: Template) => {
+    handleTemplateSaved(newTemplate)
+    navigate('/')
   }
 
   const renderContent = () => {
@@ -94,29 +134,29 @@ function App() {
       )
     }
 
-    switch (currentView) {
-      case View.Editor:
-        return (
-          <TemplateEditor
-            user={user}
-            initialTemplate={selectedTemplate}
-            onTemplateCreated={handleTemplateCreated}
-            onBackToGallery={handleBackToGallery}
-          />
-        )
-      case View.Generator:
-        return <ImageGenerator templates={templates} />
-      case View.Gallery:
-      default:
-        return (
-          <TemplateGallery
-            templates={templates}
-            onTemplateSelected={handleTemplateSelected}
-            onTemplatesChanged={() => fetchTemplates(user.id)}
-            onNewTemplate={handleNewTemplate}
-          />
-        )
-    }
+    return (
+      <Routes>
+        <Route
+          path="/"
+          element={
+            <TemplateGallery
+              userId={user.id}
+              templates={templates}
+              onTemplateSelected={(template) => navigate(`/edit/${template.id}`)}
+              onTemplateGenerate={(template) => navigate(`/generate/${template.id}`)}
+              onTemplatesChanged={() => fetchTemplates(user.id)}
+              onNewTemplate={() => navigate('/edit')}
+            />
+          }
+        />
+        <Route
+          path="/edit/:templateId?"
+          element={<EditorRoute user={user} templates={templates} onTemplateCreated={handleTemplateCreated} onTemplateSaved={handleTemplateSaved} />}
+        />
+        <Route path="/generate/:templateId?" element={<GeneratorRoute templates={templates} />} />
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Routes>
+    )
   }
 
   return (
@@ -130,14 +170,14 @@ function App() {
           {user && (
             <div className="flex items-center gap-4">
               <Button 
-                variant={currentView === View.Gallery ? 'secondary' : 'ghost'}
-                onClick={() => setCurrentView(View.Gallery)}
+                variant={location.pathname === '/' ? 'secondary' : 'ghost'}
+                onClick={() => navigate('/')}
               >
                 Gallery
               </Button>
               <Button 
-                variant={currentView === View.Generator ? 'secondary' : 'ghost'}
-                onClick={() => setCurrentView(View.Generator)}
+                variant={location.pathname.startsWith('/generate') ? 'secondary' : 'ghost'}
+                onClick={() => navigate('/generate')}
               >
                 Generator
               </Button>
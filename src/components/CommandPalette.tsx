@@ -0,0 +1,53 @@
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from '@/components/ui/command'
+
+export interface EditorCommand {
+  id: string
+  label: string
+  group: string
+  shortcut?: string
+  icon?: React.ComponentType<{ className?: string }>
+  disabled?: boolean
+  // Extra search terms
+  keywords?: string[]
+  run: () => void
+}
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  commands: EditorCommand[]
+}
+
+// Searchable list of editor actions; groups keep the order of their first command
+export function CommandPalette({ open, onOpenChange, commands }: CommandPaletteProps) {
+  const groups = [...new Set(commands.map(command => command.group))]
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Type a command..." />
+      <CommandList>
+        <CommandEmpty>No matching commands.</CommandEmpty>
+        {groups.map(group => (
+          <CommandGroup key={group} heading={group}>
+            {commands.filter(command => command.group === group).map(({ id, label, shortcut, icon: Icon, disabled, keywords, run }) => (
+              <CommandItem
+                key={id}
+                value={`${group} ${label}`}
+                keywords={keywords}
+                disabled={disabled}
+                onSelect={() => {
+                  onOpenChange(false)
+                  run()
+                }}
+              >
+                {Icon && <Icon className="mr-2 h-4 w-4" />}
+                <span>{label}</span>
+                {shortcut && <CommandShortcut>{shortcut}</CommandShortcut>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  )
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import {
+  EXPORT_FORMATS,
+  exportTemplate,
+  formatFileSize,
+  isFormatSupported,
+  type ExportFormat,
+  type ExportOptions
+} from '@/lib/export'
+import { checkTextOutlines, type TextOutlineCheck } from '@/lib/svg'
+import type { Template } from '@/types/template'
+
+interface ExportSettingsProps {
+  template: Template
+  // Values the size estimate is rendered with; the design view when omitted
+  variables?: Record<string, string>
+  options: ExportOptions
+  onChange: (options: ExportOptions) => void
+  idPrefix?: string
+}
+
+// Waits for typing and slider drags to settle before encoding a sample
+const ESTIMATE_DELAY = 400
+
+// Format, quality and background choices with a live estimate of the file size
+export function ExportSettings({ template, variables, options, onChange, idPrefix = 'export' }: ExportSettingsProps) {
+  const [estimate, setEstimate] = useState<number | null>(null)
+  // Text layers an outlined SVG can't draw as designed
+  const [outlineCheck, setOutlineCheck] = useState<TextOutlineCheck>({ live: [], substituted: [] })
+  // Images the SVG links to because they couldn't be embedded
+  const [linkedImages, setLinkedImages] = useState(0)
+  const { lossy, transparency } = EXPORT_FORMATS[options.format]
+  const update = (updates: Partial<ExportOptions>) => onChange({ ...options, ...updates })
+
+  useEffect(() => {
+    let cancelled = false
+    setEstimate(null)
+    setLinkedImages(0)
+    const timeout = setTimeout(async () => {
+      try {
+        const linked = new Set<string>()
+        const blob = await exportTemplate(template, variables, options, src => linked.add(src))
+        if (!cancelled) {
+          setEstimate(blob.size)
+          setLinkedImages(linked.size)
+        }
+      } catch (error) {
+        console.error('Failed to estimate export size:', error)
+      }
+    }, ESTIMATE_DELAY)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [template, variables, options])
+
+  const outlining = options.format === 'svg' && options.outlineText
+  const unoutlined = outlineCheck.live.length
+  const substituted = outlineCheck.substituted.length
+  useEffect(() => {
+    let cancelled = false
+    setOutlineCheck({ live: [], substituted: [] })
+    if (!outlining) return
+    checkTextOutlines(template, variables)
+      .then(check => {
+        if (!cancelled) setOutlineCheck(check)
+      })
+      .catch(error => console.error('Failed to check text outlines:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [template, variables, outlining])
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor={`${idPrefix}-format`} className="text-xs">Format</Label>
+        <Select value={options.format} onValueChange={(format: ExportFormat) => update({ format })}>
+          <SelectTrigger id={`${idPrefix}-format`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+              <SelectItem key={format} value={format} disabled={!isFormatSupported(format)}>
+                {EXPORT_FORMATS[format].label}
+                {!isFormatSupported(format) && ' (not supported by this browser)'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {lossy && (
+        <>
+          <div>
+            <Label className="text-xs">Quality: {Math.round(options.quality * 100)}%</Label>
+            <Slider
+              value={[options.quality * 100]}
+              onValueChange={([value]) => update({ quality: value / 100 })}
+              min={10}
+              max={100}
+              step={1}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`${idPrefix}-max-size`} className="text-xs">Max file size (KB)</Label>
+            <Input
+              id={`${idPrefix}-max-size`}
+              type="number"
+              min={0}
+              value={options.maxBytes ? Math.round(options.maxBytes / 1024) : ''}
+              onChange={(e) => update({ maxBytes: Math.max(0, Math.floor(Number(e.target.value) || 0)) * 1024 })}
+              placeholder="No limit"
+            />
+            <p className="text-xs text-gray-500 mt-1">Quality is lowered as needed to stay under the limit.</p>
+          </div>
+        </>
+      )}
+
+      {options.format === 'svg' && (
+        <>
+          <div className="flex items-center justify-between">
+            <Label htmlFor={`${idPrefix}-outline`} className="text-xs">Outline text</Label>
+            <Switch
+              id={`${idPrefix}-outline`}
+              checked={options.outlineText}
+              onCheckedChange={(checked) => update({ outlineText: checked })}
+            />
+          </div>
+          <p className="text-xs text-gray-500 -mt-2">
+            {options.outlineText
+              ? 'Text becomes shapes and looks the same everywhere, but is no longer selectable or searchable.'
+              : options.embedImages
+                ? 'Text stays selectable and searchable, with its fonts stored inside the file.'
+                : 'Text stays selectable and searchable, and loads its fonts from Google Fonts, which doesn\'t work when the SVG is shown as an image.'}
+          </p>
+          {unoutlined > 0 && (
+            <p className="text-xs text-amber-600 -mt-2">
+              {unoutlined} text layer{unoutlined === 1 ? '' : 's'} can't be outlined, because a font or character couldn't be loaded, and {unoutlined === 1 ? 'stays' : 'stay'} live text.
+            </p>
+          )}
+          {substituted > 0 && (
+            <p className="text-xs text-amber-600 -mt-2">
+              {substituted} text layer{substituted === 1 ? '' : 's'} {substituted === 1 ? 'uses' : 'use'} a bold or italic style the font doesn't have, and {substituted === 1 ? 'is' : 'are'} outlined in the regular style.
+            </p>
+          )}
+          <div className="flex items-center justify-between">
+            <Label htmlFor={`${idPrefix}-embed`} className="text-xs">Embed images</Label>
+            <Switch
+              id={`${idPrefix}-embed`}
+              checked={options.embedImages}
+              onCheckedChange={(checked) => update({ embedImages: checked })}
+            />
+          </div>
+          <p className="text-xs text-gray-500 -mt-2">
+            {options.embedImages ? 'Images and fonts are stored inside the file.' : 'Images are linked by URL; uploaded images are always embedded.'}
+          </p>
+          {options.embedImages && linkedImages > 0 && (
+            <p className="text-xs text-amber-600 -mt-2">
+              {linkedImages} image{linkedImages === 1 ? '' : 's'} couldn't be downloaded to embed, and {linkedImages === 1 ? 'stays' : 'stay'} linked by URL.
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${idPrefix}-transparent`} className="text-xs">Transparent background</Label>
+        <Switch
+          id={`${idPrefix}-transparent`}
+          checked={options.transparent && transparency && !template.backgroundImage}
+          disabled={!transparency || Boolean(template.backgroundImage)}
+          onCheckedChange={(checked) => update({ transparent: checked })}
+        />
+      </div>
+      {template.backgroundImage ? (
+        <p className="text-xs text-gray-500 -mt-2">The background image fills the whole canvas.</p>
+      ) : !transparency && (
+        <p className="text-xs text-gray-500 -mt-2">{EXPORT_FORMATS[options.format].label} has no transparency; empty areas are white.</p>
+      )}
+
+      <div className="flex justify-between text-xs">
+        <span className="text-gray-600">Estimated size:</span>
+        <span className={options.maxBytes > 0 && estimate !== null && estimate > options.maxBytes ? 'font-medium text-amber-600' : 'font-medium'}>
+          {estimate === null ? 'Calculating...' : `≈ ${formatFileSize(estimate)}`}
+        </span>
+      </div>
+    </div>
+  )
+}
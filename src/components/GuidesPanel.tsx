@@ -0,0 +1,99 @@
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import type { LayoutGrid } from '@/types/template'
+
+interface GuidesPanelProps {
+  guideCount: number
+  layoutGrid: LayoutGrid
+  showRulers: boolean
+  snapEnabled: boolean
+  onShowRulersChange: (show: boolean) => void
+  onSnapEnabledChange: (enabled: boolean) => void
+  onClearGuides: () => void
+  onLayoutGridChange: (updates: Partial<LayoutGrid>) => void
+}
+
+// Rulers, snapping, guides and the column grid
+export function GuidesPanel({
+  guideCount,
+  layoutGrid,
+  showRulers,
+  snapEnabled,
+  onShowRulersChange,
+  onSnapEnabledChange,
+  onClearGuides,
+  onLayoutGridChange
+}: GuidesPanelProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Guides & Grid</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="showRulers">Rulers</Label>
+          <Switch id="showRulers" checked={showRulers} onCheckedChange={onShowRulersChange} />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="snapEnabled">Snap to guides and layers</Label>
+          <Switch id="snapEnabled" checked={snapEnabled} onCheckedChange={onSnapEnabledChange} />
+        </div>
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>
+            {guideCount} guide{guideCount === 1 ? '' : 's'} • drag from a ruler to add
+          </span>
+          <Button variant="ghost" size="sm" onClick={onClearGuides} disabled={guideCount === 0}>
+            Clear
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="layoutGrid">Column grid</Label>
+          <Switch
+            id="layoutGrid"
+            checked={layoutGrid.enabled}
+            onCheckedChange={(checked) => onLayoutGridChange({ enabled: checked })}
+          />
+        </div>
+        {layoutGrid.enabled && (
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label htmlFor="gridColumns" className="text-xs">Columns</Label>
+              <Input
+                id="gridColumns"
+                type="number"
+                min={1}
+                max={24}
+                value={layoutGrid.columns}
+                onChange={(e) => onLayoutGridChange({ columns: Math.min(24, Math.max(1, Number(e.target.value))) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="gridGutter" className="text-xs">Gutter</Label>
+              <Input
+                id="gridGutter"
+                type="number"
+                min={0}
+                value={layoutGrid.gutter}
+                onChange={(e) => onLayoutGridChange({ gutter: Math.max(0, Number(e.target.value)) })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="gridMargin" className="text-xs">Margin</Label>
+              <Input
+                id="gridMargin"
+                type="number"
+                min={0}
+                value={layoutGrid.margin}
+                onChange={(e) => onLayoutGridChange({ margin: Math.max(0, Number(e.target.value)) })}
+              />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
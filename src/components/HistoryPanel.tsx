@@ -0,0 +1,44 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { History } from 'lucide-react'
+import type { HistoryEntry } from '@/hooks/use-history'
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]
+  // Entry the editor currently shows; later ones can be redone
+  current: number
+  onGoTo: (index: number) => void
+}
+
+// Undo history, newest step first; click a step to go back or forward to it
+export function HistoryPanel({ entries, current, onGoTo }: HistoryPanelProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <History className="w-4 h-4" />
+          History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-48 overflow-y-auto space-y-1">
+          {entries.map((entry, index) => (
+            <button
+              key={`${index}-${entry.time}`}
+              type="button"
+              onClick={() => onGoTo(index)}
+              className={`w-full text-left px-2 py-1 rounded text-xs transition-colors ${
+                index === current
+                  ? 'bg-primary/10 text-primary font-medium'
+                  : index > current
+                    ? 'text-gray-400 hover:bg-gray-50'
+                    : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {entry.label}
+            </button>
+          )).reverse()}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
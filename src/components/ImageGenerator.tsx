@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -6,108 +6,215 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Textarea } from '@/components/ui/textarea'
-import { Download, RefreshCw, Package, FileText, Grid } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Download, RefreshCw, Package, FileText, FileDown, Grid, Upload, AlertTriangle, CheckCircle2, X } from 'lucide-react'
+import { TemplateCanvas } from '@/components/TemplateCanvas'
+import { TemplatePicker } from '@/components/TemplatePicker'
+import { ZoomControls } from '@/components/ZoomControls'
+import { Minimap } from '@/components/Minimap'
+import { useCanvasViewport } from '@/hooks/use-canvas-viewport'
+import { ExportSettings } from '@/components/ExportSettings'
+import { PdfSettings } from '@/components/PdfSettings'
+import { ImpositionSettings } from '@/components/ImpositionSettings'
+import { downloadBlob } from '@/lib/render'
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  exportFilename,
+  exportTemplate,
+  formatFileSize,
+  type ExportOptions
+} from '@/lib/export'
+import { parseDelimited, buildBatchTable } from '@/lib/csv'
+import { readSpreadsheetAsCsv, SPREADSHEET_ACCEPT } from '@/lib/spreadsheet'
+import { buildBatchArchive, buildFileArchive, DEFAULT_FILENAME_PATTERN } from '@/lib/archive'
+import { buildBatchPdf, DEFAULT_PDF_OPTIONS, type PdfOptions } from '@/lib/pdf'
+import {
+  buildImpositionPdf,
+  buildImpositionSheets,
+  DEFAULT_IMPOSITION_OPTIONS,
+  type ImpositionOptions
+} from '@/lib/imposition'
+import {
+  applyVariableDefaults,
+  getTemplateVariables,
+  getVariableDefinitions,
+  validateVariables,
+  VARIABLE_TYPE_LABELS,
+  type VariableError
+} from '@/lib/variables'
+import { readFileAsDataUrl } from '@/lib/files'
 import { toast } from 'sonner'
 import type { Template } from '@/types/template'
 
+function formatVariableErrors(errors: VariableError[]): string {
+  return errors.map(error => `${error.name} ${error.message}`).join('; ')
+}
+
 interface ImageGeneratorProps {
-  template: Template
-  user: any
+  templates: Template[]
+  template: Template | null
+  onTemplateSelected: (template: Template) => void
 }
 
-export function ImageGenerator({ template, user }: ImageGeneratorProps) {
+export function ImageGenerator({ templates, template, onTemplateSelected }: ImageGeneratorProps) {
   const [variables, setVariables] = useState<Record<string, string>>({})
   const [isGenerating, setIsGenerating] = useState(false)
   const [batchData, setBatchData] = useState('')
   const [generatedImages, setGeneratedImages] = useState<Array<{ id: string; dataUrl: string; variables: Record<string, string> }>>([])
-  const canvasRef = useRef<HTMLDivElement>(null)
-
-  // Extract variable names from template
-  const variableNames = useMemo(() => 
-    template.textLayers
-      .filter(layer => layer.isVariable && layer.variableName)
-      .map(layer => layer.variableName!)
-      .filter((name, index, arr) => arr.indexOf(name) === index), // Remove duplicates
-    [template.textLayers]
+  const [filenamePattern, setFilenamePattern] = useState(DEFAULT_FILENAME_PATTERN)
+  const [isArchiving, setIsArchiving] = useState(false)
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS)
+  const [batchExportOptions, setBatchExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS)
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>(DEFAULT_PDF_OPTIONS)
+  // Pages drawn so far while a PDF is being built
+  const [pdfProgress, setPdfProgress] = useState<{ done: number; total: number } | null>(null)
+  const [impositionOptions, setImpositionOptions] = useState<ImpositionOptions>(DEFAULT_IMPOSITION_OPTIONS)
+  // Copies placed so far while imposition sheets are being built
+  const [impositionProgress, setImpositionProgress] = useState<{ done: number; total: number } | null>(null)
+
+  // Uploaded images for batch rows, keyed by file name
+  const [batchImages, setBatchImages] = useState<Record<string, string>>({})
+
+  // Extract variables from template
+  const templateVariables = useMemo(
+    () => (template ? getTemplateVariables(template) : []),
+    [template]
+  )
+  const variableNames = useMemo(() => templateVariables.map(v => v.name), [templateVariables])
+  const imageVariableNames = useMemo(
+    () => templateVariables.filter(v => v.kind === 'image').map(v => v.name),
+    [templateVariables]
   )
+  const variableDefinitions = useMemo(() => (template ? getVariableDefinitions(template) : []), [template])
 
-  // Initialize variables state
-  useEffect(() => {
-    const initialVariables: Record<string, string> = {}
-    variableNames.forEach(name => {
-      initialVariables[name] = ''
+  // Values as they are rendered, with defaults filled in
+  const resolvedVariables = useMemo(
+    () => applyVariableDefaults(variableDefinitions, variables),
+    [variableDefinitions, variables]
+  )
+  const variableErrors = useMemo(
+    () => validateVariables(variableDefinitions, resolvedVariables),
+    [variableDefinitions, resolvedVariables]
+  )
+  // Required fields are only flagged once the user tries to generate
+  const [showRequiredErrors, setShowRequiredErrors] = useState(false)
+  const visibleVariableErrors = variableErrors.filter(error => showRequiredErrors || resolvedVariables[error.name]?.trim())
+
+  // The preview keeps {{name}} visible for values that are still empty
+  const previewVariables = useMemo(
+    () => Object.fromEntries(Object.entries(resolvedVariables).filter(([, value]) => value)),
+    [resolvedVariables]
+  )
+
+  const preview = useCanvasViewport(template?.width ?? 1, template?.height ?? 1)
+
+  const batchFileInputRef = useRef<HTMLInputElement>(null)
+  const batchImagesInputRef = useRef<HTMLInputElement>(null)
+
+  // Parse batch data as the user types so problems show up before generating
+  const batchTable = useMemo(
+    () => (batchData.trim() ? buildBatchTable(parseDelimited(batchData), variableNames) : null),
+    [batchData, variableNames]
+  )
+
+  // Image columns may name an uploaded file instead of a URL
+  const resolveBatchImages = useCallback((rowVariables: Record<string, string>) => {
+    const resolved = { ...rowVariables }
+    imageVariableNames.forEach(name => {
+      const uploaded = batchImages[resolved[name]]
+      if (uploaded) resolved[name] = uploaded
     })
-    setVariables(initialVariables)
-  }, [template.id, variableNames])
+    return resolved
+  }, [imageVariableNames, batchImages])
+
+  // Every row checked against the variable schema; rows with errors are skipped when generating
+  const batchRows = useMemo(() => (batchTable?.rows ?? []).map((row, index) => {
+    const values = applyVariableDefaults(variableDefinitions, resolveBatchImages(row))
+    return { row: index + 1, source: row, values, errors: validateVariables(variableDefinitions, values) }
+  }), [batchTable, variableDefinitions, resolveBatchImages])
+  const invalidBatchRows = batchRows.filter(row => row.errors.length > 0)
+  // The batch size estimate is rendered with the first row that will be generated
+  const sampleBatchValues = batchRows.find(row => row.errors.length === 0)?.values ?? resolvedVariables
+
+  // Another template starts over. Re-fetched copies of the same one are new objects, so
+  // they must not clear what the user typed or generated.
+  useEffect(() => {
+    setVariables({})
+    setGeneratedImages([])
+    setShowRequiredErrors(false)
+  }, [template?.id])
+
+  // One field per variable, keeping the values of names that are still there
+  const variableNamesKey = variableNames.join('\u0000')
+  useEffect(() => {
+    const names = variableNamesKey ? variableNamesKey.split('\u0000') : []
+    setVariables(prev => Object.fromEntries(names.map(name => [name, prev[name] ?? ''])))
+  }, [template?.id, variableNamesKey])
 
   const handleVariableChange = (name: string, value: string) => {
     setVariables(prev => ({ ...prev, [name]: value }))
   }
 
-  const generateImageCanvas = async (imageVariables: Record<string, string>) => {
-    const canvas = document.createElement('canvas')
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return null
-
-    canvas.width = template.width
-    canvas.height = template.height
-
-    return new Promise<string>((resolve) => {
-      if (template.backgroundImage) {
-        const img = new Image()
-        img.onload = () => {
-          ctx.drawImage(img, 0, 0, template.width, template.height)
-          
-          // Draw text layers with variables
-          template.textLayers.forEach(layer => {
-            ctx.font = `${layer.fontWeight} ${layer.fontSize}px ${layer.fontFamily}`
-            ctx.fillStyle = layer.color
-            ctx.textAlign = layer.textAlign as CanvasTextAlign
-            
-            let text = layer.text
-            if (layer.isVariable && layer.variableName && imageVariables[layer.variableName]) {
-              text = imageVariables[layer.variableName]
-            } else if (layer.isVariable) {
-              text = `{{${layer.variableName || layer.text}}}`
-            }
-            
-            ctx.fillText(text, layer.x, layer.y + layer.fontSize)
-          })
-
-          resolve(canvas.toDataURL('image/png'))
-        }
-        img.src = template.backgroundImage
-      } else {
-        // No background image
-        template.textLayers.forEach(layer => {
-          ctx.font = `${layer.fontWeight} ${layer.fontSize}px ${layer.fontFamily}`
-          ctx.fillStyle = layer.color
-          ctx.textAlign = layer.textAlign as CanvasTextAlign
-          
-          let text = layer.text
-          if (layer.isVariable && layer.variableName && imageVariables[layer.variableName]) {
-            text = imageVariables[layer.variableName]
-          } else if (layer.isVariable) {
-            text = `{{${layer.variableName || layer.text}}}`
-          }
-          
-          ctx.fillText(text, layer.x, layer.y + layer.fontSize)
-        })
-        
-        resolve(canvas.toDataURL('image/png'))
-      }
-    })
+  const handleVariableImageUpload = async (name: string, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      handleVariableChange(name, await readFileAsDataUrl(file))
+    } catch (error) {
+      console.error('Failed to read image:', error)
+      toast.error('Failed to read image')
+    }
+  }
+
+  const header = (
+    <div className="flex items-center justify-between">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Generate Images</h1>
+        <p className="text-gray-600">Create single images or batch generate multiple variations</p>
+      </div>
+      <TemplatePicker
+        templates={templates}
+        selectedTemplateId={template?.id}
+        onTemplateSelected={onTemplateSelected}
+      />
+    </div>
+  )
+
+  if (!template) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <div className="text-center py-12">
+          <Grid className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {templates.length === 0 ? 'No templates yet' : 'Choose a template'}
+          </h3>
+          <p className="text-gray-500">
+            {templates.length === 0
+              ? 'Create a template in the gallery to start generating images'
+              : 'Pick a template above to fill in its variables'}
+          </p>
+        </div>
+      </div>
+    )
   }
 
   const handleGenerate = async () => {
+    if (variableErrors.length > 0) {
+      setShowRequiredErrors(true)
+      toast.error(`${variableErrors[0].name} ${variableErrors[0].message}`)
+      return
+    }
+
     setIsGenerating(true)
     try {
-      const dataUrl = await generateImageCanvas(variables)
-      if (dataUrl) {
-        const a = document.createElement('a')
-        a.href = dataUrl
-        a.download = `${template.name}-generated.png`
-        a.click()
+      const blob = await exportTemplate(template, resolvedVariables, exportOptions)
+      downloadBlob(blob, exportFilename(`${template.name}-generated`, exportOptions))
+      if (exportOptions.maxBytes > 0 && blob.size > exportOptions.maxBytes) {
+        toast.warning(`Image downloaded, but at ${formatFileSize(blob.size)} it is over the size limit`)
+      } else {
         toast.success('Image generated and downloaded!')
       }
     } catch (error) {
@@ -118,42 +225,84 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
     }
   }
 
-  const handleBatchGenerate = async () => {
-    if (!batchData.trim()) {
+  const handleBatchFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      setBatchData(await readSpreadsheetAsCsv(file))
+      toast.success(`Loaded ${file.name}`)
+    } catch (error) {
+      console.error('Failed to read batch file:', error)
+      toast.error('Failed to read file')
+    }
+  }
+
+  const handleBatchImagesUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ''
+    if (files.length === 0) return
+
+    try {
+      const entries = await Promise.all(files.map(async file => [file.name, await readFileAsDataUrl(file)] as const))
+      setBatchImages(prev => ({ ...prev, ...Object.fromEntries(entries) }))
+      toast.success(`Added ${files.length} image${files.length === 1 ? '' : 's'}`)
+    } catch (error) {
+      console.error('Failed to read images:', error)
+      toast.error('Failed to read images')
+    }
+  }
+
+  // Rows that can be generated, or null after telling the user why there are none
+  const getValidBatchRows = () => {
+    if (!batchTable || batchTable.rows.length === 0) {
       toast.error('Please enter batch data')
-      return
+      return null
+    }
+
+    if (variableNames.length > 0 && Object.keys(batchTable.columns).length === 0) {
+      toast.error('No columns match the template variables')
+      return null
+    }
+
+    const validRows = batchRows.filter(row => row.errors.length === 0)
+    if (validRows.length === 0) {
+      toast.error('Every row has validation errors')
+      return null
     }
+    return validRows
+  }
+
+  const handleBatchGenerate = async () => {
+    const validRows = getValidBatchRows()
+    if (!validRows) return
 
     setIsGenerating(true)
     try {
-      const lines = batchData.trim().split('\n')
-      const headers = lines[0].split(',').map(h => h.trim())
-      const dataRows = lines.slice(1)
-
       const newGeneratedImages: Array<{ id: string; dataUrl: string; variables: Record<string, string> }> = []
+      let oversized = 0
 
-      for (const row of dataRows) {
-        const values = row.split(',').map(v => v.trim())
-        const rowVariables: Record<string, string> = {}
-        
-        headers.forEach((header, index) => {
-          if (variableNames.includes(header)) {
-            rowVariables[header] = values[index] || ''
-          }
+      for (const { source, values } of validRows) {
+        const blob = await exportTemplate(template, values, batchExportOptions)
+        if (batchExportOptions.maxBytes > 0 && blob.size > batchExportOptions.maxBytes) oversized++
+        newGeneratedImages.push({
+          id: `batch-${Date.now()}-${Math.random()}`,
+          dataUrl: await readFileAsDataUrl(blob),
+          variables: source
         })
-
-        const dataUrl = await generateImageCanvas(rowVariables)
-        if (dataUrl) {
-          newGeneratedImages.push({
-            id: `batch-${Date.now()}-${Math.random()}`,
-            dataUrl,
-            variables: rowVariables
-          })
-        }
       }
 
       setGeneratedImages(newGeneratedImages)
-      toast.success(`Generated ${newGeneratedImages.length} images!`)
+      if (oversized > 0 || invalidBatchRows.length > 0) {
+        toast.warning([
+          `Generated ${newGeneratedImages.length} images`,
+          invalidBatchRows.length > 0 && `skipped ${invalidBatchRows.length} invalid row${invalidBatchRows.length === 1 ? '' : 's'}`,
+          oversized > 0 && `${oversized} over the size limit even at the lowest quality`
+        ].filter(Boolean).join(', '))
+      } else {
+        toast.success(`Generated ${newGeneratedImages.length} images!`)
+      }
     } catch (error) {
       console.error('Failed to generate batch images:', error)
       toast.error('Failed to generate batch images')
@@ -162,56 +311,77 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
     }
   }
 
-  const downloadAllImages = () => {
-    generatedImages.forEach((img, index) => {
-      const a = document.createElement('a')
-      a.href = img.dataUrl
-      a.download = `${template.name}-batch-${index + 1}.png`
-      a.click()
-    })
-    toast.success('All images downloaded!')
+  const handleBatchPdf = async () => {
+    const validRows = getValidBatchRows()
+    if (!validRows) return
+
+    setPdfProgress({ done: 0, total: validRows.length })
+    try {
+      const pdf = await buildBatchPdf(
+        template,
+        validRows.map(row => row.values),
+        pdfOptions,
+        (done, total) => setPdfProgress({ done, total })
+      )
+      downloadBlob(pdf, `${pdfOptions.metadata.title || template.name}.pdf`)
+      if (invalidBatchRows.length > 0) {
+        toast.warning(`PDF downloaded, skipped ${invalidBatchRows.length} invalid row${invalidBatchRows.length === 1 ? '' : 's'}`)
+      } else {
+        toast.success('PDF downloaded!')
+      }
+    } catch (error) {
+      console.error('Failed to build PDF:', error)
+      toast.error('Failed to build PDF')
+    } finally {
+      setPdfProgress(null)
+    }
   }
 
-  const renderPreview = (previewVariables = variables) => {
-    return template.textLayers.map((layer) => {
-      let displayText = layer.text
-      
-      if (layer.isVariable && layer.variableName && previewVariables[layer.variableName]) {
-        displayText = previewVariables[layer.variableName]
-      } else if (layer.isVariable) {
-        displayText = `{{${layer.variableName || layer.text}}}`
+  const handleImposition = async () => {
+    const validRows = getValidBatchRows()
+    if (!validRows) return
+
+    const values = validRows.map(row => row.values)
+    const onProgress = (done: number, total: number) => setImpositionProgress({ done, total })
+    setImpositionProgress({ done: 0, total: validRows.length })
+    try {
+      if (impositionOptions.format === 'pdf') {
+        const pdf = await buildImpositionPdf(template, values, impositionOptions, pdfOptions.metadata, onProgress)
+        downloadBlob(pdf, `${template.name}-sheets.pdf`)
+      } else {
+        const sheets = await buildImpositionSheets(template, values, impositionOptions, onProgress)
+        if (sheets.length === 1) {
+          downloadBlob(sheets[0], `${template.name}-sheet.png`)
+        } else {
+          const files = sheets.map((blob, i) => ({ name: `${template.name}-sheet-${i + 1}.png`, blob }))
+          downloadBlob(await buildFileArchive(files), `${template.name}-sheets.zip`)
+        }
       }
+      if (invalidBatchRows.length > 0) {
+        toast.warning(`Sheets downloaded, skipped ${invalidBatchRows.length} invalid row${invalidBatchRows.length === 1 ? '' : 's'}`)
+      } else {
+        toast.success('Sheets downloaded!')
+      }
+    } catch (error) {
+      console.error('Failed to build imposition sheets:', error)
+      toast.error('Failed to build sheets')
+    } finally {
+      setImpositionProgress(null)
+    }
+  }
 
-      const textShadow = layer.textShadow?.enabled 
-        ? `${layer.textShadow.offsetX}px ${layer.textShadow.offsetY}px ${layer.textShadow.blur}px ${layer.textShadow.color}`
-        : 'none'
-
-      return (
-        <div
-          key={layer.id}
-          className="absolute select-none"
-          style={{
-            left: layer.x,
-            top: layer.y,
-            fontSize: layer.fontSize,
-            fontFamily: layer.fontFamily,
-            color: layer.color,
-            fontWeight: layer.fontWeight,
-            textAlign: layer.textAlign,
-            textShadow,
-            opacity: layer.opacity || 1,
-            transform: `rotate(${layer.rotation || 0}deg)`,
-            padding: '4px 8px',
-            borderRadius: '4px',
-            ...(layer.textStroke?.enabled && { 
-              WebkitTextStroke: `${layer.textStroke.width}px ${layer.textStroke.color}` 
-            })
-          }}
-        >
-          {displayText}
-        </div>
-      )
-    })
+  const downloadAllImages = async () => {
+    setIsArchiving(true)
+    try {
+      const archive = await buildBatchArchive(generatedImages, filenamePattern, template.name)
+      downloadBlob(archive, `${template.name}-batch.zip`)
+      toast.success('All images downloaded!')
+    } catch (error) {
+      console.error('Failed to build archive:', error)
+      toast.error('Failed to build ZIP archive')
+    } finally {
+      setIsArchiving(false)
+    }
   }
 
   const sampleBatchData = variableNames.length > 0 
@@ -221,12 +391,7 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="flex items-center justify-between">
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Generate Images</h1>
-          <p className="text-gray-600">Create single images or batch generate multiple variations</p>
-        </div>
-      </div>
+      {header}
 
       <Tabs defaultValue="single" className="w-full">
         <TabsList className="grid w-full grid-cols-2">
@@ -254,20 +419,94 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
                 <CardContent className="space-y-4">
                   {variableNames.length === 0 ? (
                     <p className="text-sm text-gray-500 text-center py-4">
-                      This template has no variables. All text is static.
+                      This template has no variables. All layers are static.
                     </p>
                   ) : (
-                    variableNames.map((name) => (
+                    variableDefinitions.map(({ name, type, required, defaultValue, maxLength, options }) => (
                       <div key={name}>
                         <Label htmlFor={name} className="capitalize">
                           {name.replace(/([A-Z])/g, ' $1').trim()}
+                          {required && <span className="text-red-500 ml-0.5">*</span>}
                         </Label>
-                        <Input
-                          id={name}
-                          value={variables[name] || ''}
-                          onChange={(e) => handleVariableChange(name, e.target.value)}
-                          placeholder={`Enter ${name}...`}
-                        />
+                        {type === 'image' ? (
+                          <div className="flex gap-2">
+                            {variables[name]?.startsWith('data:') ? (
+                              <div className="flex-1 flex items-center justify-between h-9 px-3 rounded-md border text-sm text-gray-600">
+                                Uploaded image
+                                <button
+                                  type="button"
+                                  className="text-gray-400 hover:text-gray-700"
+                                  onClick={() => handleVariableChange(name, '')}
+                                >
+                                  <X className="w-4 h-4" />
+                                </button>
+                              </div>
+                            ) : (
+                              <Input
+                                id={name}
+                                value={variables[name] || ''}
+                                onChange={(e) => handleVariableChange(name, e.target.value)}
+                                placeholder="Image URL..."
+                              />
+                            )}
+                            <Button variant="outline" size="icon" asChild>
+                              <label className="cursor-pointer" title="Upload image">
+                                <Upload className="w-4 h-4" />
+                                <input
+                                  type="file"
+                                  accept="image/*"
+                                  className="hidden"
+                                  onChange={(e) => handleVariableImageUpload(name, e)}
+                                />
+                              </label>
+                            </Button>
+                          </div>
+                        ) : type === 'enum' ? (
+                          <Select
+                            value={variables[name] || 'none'}
+                            onValueChange={(value) => handleVariableChange(name, value === 'none' ? '' : value)}
+                          >
+                            <SelectTrigger id={name}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">{defaultValue ? `Default (${defaultValue})` : 'None'}</SelectItem>
+                              {options.map(option => (
+                                <SelectItem key={option} value={option}>{option}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : type === 'color' ? (
+                          <div className="flex gap-2">
+                            <Input
+                              type="color"
+                              value={/^#[0-9a-f]{6}$/i.test(resolvedVariables[name]) ? resolvedVariables[name] : '#000000'}
+                              onChange={(e) => handleVariableChange(name, e.target.value)}
+                              className="h-9 w-12 p-1"
+                            />
+                            <Input
+                              id={name}
+                              value={variables[name] || ''}
+                              onChange={(e) => handleVariableChange(name, e.target.value)}
+                              placeholder={defaultValue || '#000000'}
+                            />
+                          </div>
+                        ) : (
+                          <Input
+                            id={name}
+                            type={type === 'number' ? 'number' : type === 'date' ? 'date' : 'text'}
+                            step={type === 'number' ? 'any' : undefined}
+                            maxLength={maxLength > 0 ? maxLength : undefined}
+                            value={variables[name] || ''}
+                            onChange={(e) => handleVariableChange(name, e.target.value)}
+                            placeholder={defaultValue ? `Default: ${defaultValue}` : `Enter ${name}...`}
+                          />
+                        )}
+                        {visibleVariableErrors.filter(error => error.name === name).map(error => (
+                          <p key={error.message} className="text-xs text-red-600 mt-1">
+                            {error.message.charAt(0).toUpperCase() + error.message.slice(1)}
+                          </p>
+                        ))}
                       </div>
                     ))
                   )}
@@ -283,6 +522,20 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
                 </CardContent>
               </Card>
 
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Export Settings</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ExportSettings
+                    template={template}
+                    variables={resolvedVariables}
+                    options={exportOptions}
+                    onChange={setExportOptions}
+                  />
+                </CardContent>
+              </Card>
+
               {/* Template Info */}
               <Card>
                 <CardHeader>
@@ -298,8 +551,8 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
                     <span className="font-medium">{template.width} × {template.height}</span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Text Layers:</span>
-                    <span className="font-medium">{template.textLayers.length}</span>
+                    <span className="text-gray-600">Layers:</span>
+                    <span className="font-medium">{template.layers.length}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Variables:</span>
@@ -312,46 +565,41 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
             {/* Preview Panel */}
             <div className="lg:col-span-2">
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
                   <CardTitle className="text-sm">Live Preview</CardTitle>
+                  <ZoomControls
+                    zoom={preview.zoom}
+                    scale={preview.scale}
+                    onZoom={(zoom) => preview.zoomTo(zoom)}
+                    onZoomIn={preview.zoomIn}
+                    onZoomOut={preview.zoomOut}
+                  />
                 </CardHeader>
                 <CardContent>
-                  <div className="bg-gray-50 rounded-lg p-4 flex items-center justify-center">
-                    <div
-                      ref={canvasRef}
-                      className="relative bg-white shadow-lg"
-                      style={{
-                        width: Math.min(template.width, 600),
-                        height: Math.min(template.height, (template.height / template.width) * 600),
-                        maxWidth: '100%'
-                      }}
-                    >
-                      {/* Background Image */}
-                      {template.backgroundImage && (
-                        <img
-                          src={template.backgroundImage}
-                          alt="Background"
-                          className="absolute inset-0 w-full h-full object-cover rounded"
-                          draggable={false}
-                        />
-                      )}
-
-                      {/* Text Layers with Variables */}
-                      <div
-                        className="absolute inset-0"
-                        style={{
-                          transform: `scale(${Math.min(600 / template.width, 1)})`,
-                          transformOrigin: 'top left'
-                        }}
-                      >
-                        {renderPreview()}
+                  <div className="relative h-[600px] bg-gray-50 rounded-lg">
+                    <div ref={preview.viewportRef} className="absolute inset-0 overflow-auto">
+                      <div className="flex min-w-full min-h-full w-max p-4">
+                        <div ref={preview.contentRef} className="m-auto">
+                          <TemplateCanvas
+                            template={template}
+                            variables={previewVariables}
+                            scale={preview.scale}
+                            className="bg-white shadow-lg rounded"
+                          />
+                        </div>
                       </div>
                     </div>
+
+                    {preview.isOverflowing && preview.visibleRegion && (
+                      <div className="absolute bottom-3 right-3">
+                        <Minimap template={template} visibleRegion={preview.visibleRegion} onNavigate={preview.centerOn} />
+                      </div>
+                    )}
                   </div>
                   
                   <div className="mt-4 text-center">
                     <p className="text-sm text-gray-500">
-                      Preview updates automatically as you type
+                      Preview updates automatically as you type. Ctrl + scroll to zoom.
                     </p>
                   </div>
                 </CardContent>
@@ -366,7 +614,20 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
             <div className="space-y-4">
               <Card>
                 <CardHeader>
-                  <CardTitle className="text-sm">Batch Data (CSV Format)</CardTitle>
+                  <CardTitle className="text-sm flex items-center justify-between">
+                    Batch Data (CSV Format)
+                    <Button size="sm" variant="outline" onClick={() => batchFileInputRef.current?.click()}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Upload File
+                    </Button>
+                  </CardTitle>
+                  <input
+                    ref={batchFileInputRef}
+                    type="file"
+                    accept={SPREADSHEET_ACCEPT}
+                    onChange={handleBatchFileUpload}
+                    className="hidden"
+                  />
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
@@ -379,7 +640,8 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
                       className="min-h-[200px] font-mono text-sm"
                     />
                     <p className="text-xs text-gray-500 mt-2">
-                      First row should contain column headers matching your template variables
+                      First row should contain column headers matching your template variables.
+                      Comma, tab and semicolon separated data are detected automatically; upload .csv, .tsv or .xlsx files.
                     </p>
                   </div>
                   
@@ -394,6 +656,182 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
                 </CardContent>
               </Card>
 
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Export Settings</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ExportSettings
+                    template={template}
+                    variables={sampleBatchValues}
+                    options={batchExportOptions}
+                    onChange={setBatchExportOptions}
+                    idPrefix="batch-export"
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">PDF</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <PdfSettings template={template} options={pdfOptions} onChange={setPdfOptions} />
+                  <Button onClick={handleBatchPdf} disabled={isGenerating || pdfProgress !== null} variant="outline" className="w-full">
+                    {pdfProgress ? (
+                      <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <FileDown className="w-4 h-4 mr-2" />
+                    )}
+                    {pdfProgress ? `Building PDF... ${pdfProgress.done}/${pdfProgress.total}` : 'Download PDF'}
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-sm">Sheets</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <ImpositionSettings
+                    template={template}
+                    options={impositionOptions}
+                    onChange={setImpositionOptions}
+                    rowCount={batchTable?.rows.length ?? 0}
+                  />
+                  <Button
+                    onClick={handleImposition}
+                    disabled={isGenerating || impositionProgress !== null}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    {impositionProgress ? (
+                      <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Grid className="w-4 h-4 mr-2" />
+                    )}
+                    {impositionProgress
+                      ? `Building sheets... ${impositionProgress.done}/${impositionProgress.total}`
+                      : `Download ${impositionOptions.format.toUpperCase()} Sheets`}
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {/* Validation Report */}
+              {batchTable && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm flex items-center justify-between">
+                      Validation
+                      <Badge variant="secondary">{batchTable.rows.length} rows</Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm">
+                    {batchTable.missingColumns.length === 0 &&
+                    batchTable.unknownColumns.length === 0 &&
+                    batchTable.rowIssues.length === 0 &&
+                    invalidBatchRows.length === 0 ? (
+                      <div className="flex items-center gap-2 text-green-700">
+                        <CheckCircle2 className="w-4 h-4" />
+                        All rows match the template variables
+                      </div>
+                    ) : (
+                      <>
+                        {batchTable.missingColumns.length > 0 && (
+                          <div>
+                            <span className="font-medium">Missing columns:</span>{' '}
+                            {batchTable.missingColumns.map((name) => (
+                              <Badge key={name} variant="destructive" className="mr-1">{name}</Badge>
+                            ))}
+                          </div>
+                        )}
+                        {batchTable.unknownColumns.length > 0 && (
+                          <div>
+                            <span className="font-medium">Unknown columns (ignored):</span>{' '}
+                            {batchTable.unknownColumns.map((name) => (
+                              <Badge key={name} variant="outline" className="mr-1">{name}</Badge>
+                            ))}
+                          </div>
+                        )}
+                        {invalidBatchRows.length > 0 && (
+                          <div className="space-y-1">
+                            <div className="font-medium text-red-700">
+                              {invalidBatchRows.length} invalid row{invalidBatchRows.length === 1 ? '' : 's'} (skipped when generating)
+                            </div>
+                            <div className="max-h-40 overflow-y-auto space-y-1">
+                              {invalidBatchRows.map(({ row, errors }) => (
+                                <div key={row} className="flex items-start gap-2 text-red-700">
+                                  <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                  <span>Row {row}: {formatVariableErrors(errors)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        {batchTable.rowIssues.length > 0 && (
+                          <div className="max-h-40 overflow-y-auto space-y-1">
+                            {batchTable.rowIssues.map((issue) => (
+                              <div key={issue.row} className="flex items-start gap-2 text-amber-700">
+                                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                <span>
+                                  Row {issue.row}:
+                                  {issue.missing.length > 0 && ` missing ${issue.missing.join(', ')}`}
+                                  {issue.missing.length > 0 && issue.extraValues > 0 && ';'}
+                                  {issue.extraValues > 0 && ` ${issue.extraValues} value(s) without a column`}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Batch Images */}
+              {imageVariableNames.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm flex items-center justify-between">
+                      Images
+                      <Button size="sm" variant="outline" onClick={() => batchImagesInputRef.current?.click()}>
+                        <Upload className="w-4 h-4 mr-2" />
+                        Add Images
+                      </Button>
+                    </CardTitle>
+                    <input
+                      ref={batchImagesInputRef}
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      onChange={handleBatchImagesUpload}
+                      className="hidden"
+                    />
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <p className="text-xs text-gray-500">
+                      Columns {imageVariableNames.join(', ')} take an image URL or the file name of an uploaded image.
+                    </p>
+                    {Object.keys(batchImages).length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {Object.keys(batchImages).map((fileName) => (
+                          <Badge key={fileName} variant="outline" className="gap-1">
+                            {fileName}
+                            <button
+                              type="button"
+                              onClick={() => setBatchImages(({ [fileName]: _removed, ...rest }) => rest)}
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Expected Variables */}
               <Card>
                 <CardHeader>
@@ -404,8 +842,10 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
                     <p className="text-sm text-gray-500">No variables in this template</p>
                   ) : (
                     <div className="flex flex-wrap gap-2">
-                      {variableNames.map((name) => (
-                        <Badge key={name} variant="outline">{name}</Badge>
+                      {variableDefinitions.map(({ name, type, required }) => (
+                        <Badge key={name} variant="outline" title={VARIABLE_TYPE_LABELS[type]}>
+                          {name}{required && <span className="text-red-500 ml-0.5">*</span>}
+                        </Badge>
                       ))}
                     </div>
                   )}
@@ -422,15 +862,30 @@ export function ImageGenerator({ template, user }: ImageGeneratorProps) {
                     <div className="flex items-center gap-2">
                       <Badge variant="secondary">{generatedImages.length}</Badge>
                       {generatedImages.length > 0 && (
-                        <Button size="sm" onClick={downloadAllImages}>
+                        <Button size="sm" onClick={downloadAllImages} disabled={isArchiving}>
                           <Download className="w-4 h-4 mr-2" />
-                          Download All
+                          {isArchiving ? 'Zipping...' : 'Download ZIP'}
                         </Button>
                       )}
                     </div>
                   </CardTitle>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label htmlFor="filenamePattern">File Name Pattern</Label>
+                    <Input
+                      id="filenamePattern"
+                      value={filenamePattern}
+                      onChange={(e) => setFilenamePattern(e.target.value)}
+                      placeholder={DEFAULT_FILENAME_PATTERN}
+                      className="font-mono text-sm"
+                    />
+                    <p className="text-xs text-gray-500 mt-2">
+                      Use {'{{index}}'}, {'{{template}}'} or any variable, e.g. {'{{name}}-{{index}}'}.
+                      The ZIP includes manifest.json and manifest.csv.
+                    </p>
+                  </div>
+
                   {generatedImages.length === 0 ? (
                     <div className="text-center py-8">
                       <Grid className="w-12 h-12 text-gray-400 mx-auto mb-4" />
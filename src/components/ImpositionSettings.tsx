@@ -0,0 +1,203 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import {
+  findImpositionPreset,
+  getImpositionLayout,
+  IMPOSITION_PRESETS,
+  PAPER_SIZES,
+  type ImpositionFormat,
+  type ImpositionOptions,
+  type PaperSize
+} from '@/lib/imposition'
+import { PRINT_DPI_PRESETS } from '@/lib/print'
+import type { Template } from '@/types/template'
+
+interface ImpositionSettingsProps {
+  template: Template
+  options: ImpositionOptions
+  onChange: (options: ImpositionOptions) => void
+  // Batch rows to lay out, for the sheet count
+  rowCount: number
+}
+
+const MAX_PER_SIDE = 20
+
+// Width of the sheet preview in CSS pixels
+const PREVIEW_WIDTH = 160
+
+const LENGTH_FIELDS: Array<{ key: keyof ImpositionOptions; label: string }> = [
+  { key: 'marginTop', label: 'Top margin' },
+  { key: 'marginLeft', label: 'Left margin' },
+  { key: 'gutterX', label: 'Gutter across' },
+  { key: 'gutterY', label: 'Gutter down' },
+  { key: 'labelWidth', label: 'Label width' },
+  { key: 'labelHeight', label: 'Label height' }
+]
+
+function clampCount(value: string): number {
+  return Math.min(MAX_PER_SIDE, Math.max(1, Math.floor(Number(value)) || 1))
+}
+
+// Paper, grid and output choices for printing many batch rows per sheet
+export function ImpositionSettings({ template, options, onChange, rowCount }: ImpositionSettingsProps) {
+  const update = (updates: Partial<ImpositionOptions>) => onChange({ ...options, ...updates })
+  const layout = getImpositionLayout(template, options)
+  const preset = findImpositionPreset(options) ?? 'custom'
+  const previewScale = PREVIEW_WIDTH / layout.width
+  const sheets = layout.error ? 0 : Math.max(1, Math.ceil(rowCount / layout.copies.length))
+
+  const applyPreset = (label: string) => {
+    const match = IMPOSITION_PRESETS.find(item => item.label === label)
+    if (match) update({ ...match.grid, landscape: false })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor="imposition-preset" className="text-xs">Preset</Label>
+        <Select value={preset} onValueChange={applyPreset}>
+          <SelectTrigger id="imposition-preset">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="custom" disabled>Custom</SelectItem>
+            {IMPOSITION_PRESETS.map(item => (
+              <SelectItem key={item.label} value={item.label}>{item.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="imposition-paper" className="text-xs">Paper</Label>
+          <Select value={options.paper} onValueChange={(paper: PaperSize) => update({ paper })}>
+            <SelectTrigger id="imposition-paper">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PAPER_SIZES) as PaperSize[]).map(paper => (
+                <SelectItem key={paper} value={paper}>{PAPER_SIZES[paper].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-end justify-between pb-2">
+          <Label htmlFor="imposition-landscape" className="text-xs">Landscape</Label>
+          <Switch
+            id="imposition-landscape"
+            checked={options.landscape}
+            onCheckedChange={(checked) => update({ landscape: checked })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="imposition-columns" className="text-xs">Across</Label>
+          <Input
+            id="imposition-columns"
+            type="number"
+            min={1}
+            max={MAX_PER_SIDE}
+            value={options.columns}
+            onChange={(e) => update({ columns: clampCount(e.target.value) })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="imposition-rows" className="text-xs">Down</Label>
+          <Input
+            id="imposition-rows"
+            type="number"
+            min={1}
+            max={MAX_PER_SIDE}
+            value={options.rows}
+            onChange={(e) => update({ rows: clampCount(e.target.value) })}
+          />
+        </div>
+        {LENGTH_FIELDS.map(({ key, label }) => (
+          <div key={key}>
+            <Label htmlFor={`imposition-${key}`} className="text-xs">{label} (mm)</Label>
+            <Input
+              id={`imposition-${key}`}
+              type="number"
+              min={0}
+              step={0.5}
+              value={Math.round(Number(options[key]) * 100) / 100}
+              onChange={(e) => update({ [key]: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 -mt-1">A label size of 0 divides the space inside the margins evenly.</p>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="imposition-cut-lines" className="text-xs">Cut lines</Label>
+        <Switch
+          id="imposition-cut-lines"
+          checked={options.cutLines}
+          onCheckedChange={(checked) => update({ cutLines: checked })}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="imposition-format" className="text-xs">Format</Label>
+          <Select value={options.format} onValueChange={(format: ImpositionFormat) => update({ format })}>
+            <SelectTrigger id="imposition-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pdf">PDF</SelectItem>
+              <SelectItem value="png">PNG</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {options.format === 'png' && (
+          <div>
+            <Label htmlFor="imposition-dpi" className="text-xs">Resolution</Label>
+            <Select value={String(options.dpi)} onValueChange={(value) => update({ dpi: Number(value) })}>
+              <SelectTrigger id="imposition-dpi">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRINT_DPI_PRESETS.map(dpi => (
+                  <SelectItem key={dpi} value={String(dpi)}>{dpi} DPI</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div
+        className="relative mx-auto bg-white border shadow-sm"
+        style={{ width: PREVIEW_WIDTH, height: layout.height * previewScale }}
+      >
+        {layout.copies.map((copy, i) => (
+          <div
+            key={i}
+            className="absolute bg-primary/20 border border-primary/40"
+            style={{
+              left: copy.x * previewScale,
+              top: copy.y * previewScale,
+              width: copy.width * previewScale,
+              height: copy.height * previewScale
+            }}
+          />
+        ))}
+      </div>
+      {layout.error ? (
+        <p className="text-xs text-red-600">{layout.error}</p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {layout.copies.length} per sheet, {sheets} sheet{sheets === 1 ? '' : 's'} for {rowCount} row{rowCount === 1 ? '' : 's'}.
+          {' '}Each copy is {Math.round(layout.copies[0].width * 10) / 10} × {Math.round(layout.copies[0].height * 10) / 10} mm
+          {layout.scale !== null && layout.scale < 1 && `, scaled to ${Math.round(layout.scale * 100)}% of its print size`}.
+        </p>
+      )}
+    </div>
+  )
+}
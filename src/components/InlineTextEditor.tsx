@@ -0,0 +1,371 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Bold, Braces, Check, Italic, RemoveFormatting } from 'lucide-react'
+import { LINE_HEIGHT } from '@/lib/text-layout'
+import { applySpanStyle, getLayerSpans, normalizeSpans, spanStyle, spansInRange, type SpanStyle } from '@/lib/rich-text'
+import type { LayerBox } from '@/lib/render'
+import type { TextLayer, TextSpan } from '@/types/template'
+
+interface InlineTextEditorProps {
+  layer: TextLayer
+  box: LayerBox
+  // Display pixels per template pixel
+  scale: number
+  fonts: string[]
+  variableNames: string[]
+  onCommit: (spans: TextSpan[]) => void
+  onCancel: () => void
+}
+
+type TextSelection = [number, number]
+
+const LAYER_FONT = '__layer'
+
+// Writes spans into the editable element; data-span points back into `spans`
+// so styles survive typing
+function renderSpans(root: HTMLElement, spans: TextSpan[]) {
+  root.replaceChildren(...spans.map((span, index) => {
+    const element = document.createElement('span')
+    element.dataset.span = String(index)
+    element.style.color = span.color ?? ''
+    element.style.fontWeight = span.fontWeight ?? ''
+    element.style.fontStyle = span.fontStyle ?? ''
+    element.style.fontFamily = span.fontFamily ? `"${span.fontFamily}", sans-serif` : ''
+    element.textContent = span.text
+    return element
+  }))
+}
+
+// Reads the edited content back into spans; new text takes the style of the span it was typed into
+function readSpans(root: HTMLElement, rendered: TextSpan[]): TextSpan[] {
+  const spans: TextSpan[] = []
+  let style: SpanStyle = {}
+
+  const visit = (node: Node) => {
+    if (node instanceof HTMLElement && node.dataset.span !== undefined) {
+      const source = rendered[Number(node.dataset.span)]
+      if (source) style = spanStyle(source)
+    }
+    if (node.nodeType === Node.TEXT_NODE) {
+      spans.push({ ...style, text: node.textContent ?? '' })
+      return
+    }
+    node.childNodes.forEach(visit)
+  }
+
+  root.childNodes.forEach(visit)
+  return normalizeSpans(spans)
+}
+
+// Selection as offsets into the plain text
+function getSelectionOffsets(root: HTMLElement): TextSelection | null {
+  const selection = window.getSelection()
+  if (!selection?.rangeCount) return null
+  const range = selection.getRangeAt(0)
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null
+
+  const offsetOf = (node: Node, offset: number) => {
+    const before = document.createRange()
+    before.selectNodeContents(root)
+    before.setEnd(node, offset)
+    return before.toString().length
+  }
+  return [offsetOf(range.startContainer, range.startOffset), offsetOf(range.endContainer, range.endOffset)]
+}
+
+function setSelectionOffsets(root: HTMLElement, [start, end]: TextSelection) {
+  const range = document.createRange()
+  range.selectNodeContents(root)
+  range.collapse(false)
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  let position = 0
+  let startSet = false
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0
+    if (!startSet && start <= position + length) {
+      range.setStart(node, start - position)
+      startSet = true
+    }
+    if (end <= position + length) {
+      range.setEnd(node, end - position)
+      break
+    }
+    position += length
+  }
+
+  const selection = window.getSelection()
+  selection?.removeAllRanges()
+  selection?.addRange(range)
+}
+
+function insertPlainText(value: string) {
+  const selection = window.getSelection()
+  if (!selection?.rangeCount) return
+  const range = selection.getRangeAt(0)
+  range.deleteContents()
+  const node = document.createTextNode(value)
+  range.insertNode(node)
+  range.setStartAfter(node)
+  range.collapse(true)
+  selection.removeAllRanges()
+  selection.addRange(range)
+}
+
+// Edits a text layer in place on the canvas. Select part of the text to make it bold,
+// italic, recolor it or change its font; {{variables}} can be typed or inserted anywhere.
+export function InlineTextEditor({ layer, box, scale, fonts, variableNames, onCommit, onCancel }: InlineTextEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const editableRef = useRef<HTMLDivElement>(null)
+  const renderedRef = useRef<TextSpan[]>(getLayerSpans(layer))
+  // Kept while toolbar controls have focus
+  const selectionRef = useRef<TextSelection | null>(null)
+  const [spans, setSpans] = useState<TextSpan[]>(renderedRef.current)
+  const [selection, setSelection] = useState<TextSelection | null>(null)
+  const [variableDraft, setVariableDraft] = useState('')
+  const wraps = layer.textBox?.enabled ?? false
+
+  useLayoutEffect(() => {
+    const root = editableRef.current
+    if (!root) return
+    renderSpans(root, renderedRef.current)
+    root.focus()
+    const length = root.textContent?.length ?? 0
+    setSelectionOffsets(root, [0, length])
+  }, [])
+
+  const readCurrent = useCallback(() => {
+    const root = editableRef.current
+    return root ? readSpans(root, renderedRef.current) : renderedRef.current
+  }, [])
+
+  const commit = useCallback(() => onCommit(readCurrent()), [onCommit, readCurrent])
+
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const root = editableRef.current
+      const offsets = root && getSelectionOffsets(root)
+      if (!offsets) return
+      selectionRef.current = offsets
+      setSelection(offsets)
+    }
+
+    // Clicking anywhere else finishes editing; menus opened from the toolbar live in portals
+    const handlePointerDown = (event: PointerEvent) => {
+      const target = event.target as HTMLElement
+      if (containerRef.current?.contains(target) || target.closest('[data-radix-popper-content-wrapper]')) return
+      commit()
+    }
+
+    document.addEventListener('selectionchange', handleSelectionChange)
+    document.addEventListener('pointerdown', handlePointerDown, true)
+    return () => {
+      document.removeEventListener('selectionchange', handleSelectionChange)
+      document.removeEventListener('pointerdown', handlePointerDown, true)
+    }
+  }, [commit])
+
+  // Replaces the content and puts the selection back where it was
+  const replaceSpans = (next: TextSpan[], nextSelection: TextSelection) => {
+    const root = editableRef.current
+    if (!root) return
+    renderedRef.current = next
+    renderSpans(root, next)
+    setSpans(next)
+    root.focus()
+    setSelectionOffsets(root, nextSelection)
+  }
+
+  const applyStyle = (style: SpanStyle) => {
+    const range = selectionRef.current
+    if (!range || range[0] === range[1]) return
+    replaceSpans(applySpanStyle(readCurrent(), range[0], range[1], style), range)
+  }
+
+  const insertVariable = (name: string) => {
+    const variableName = name.replace(/[{}\\]/g, '').trim()
+    const root = editableRef.current
+    const range = selectionRef.current
+    if (!variableName || !root || !range) return
+
+    root.focus()
+    setSelectionOffsets(root, range)
+    insertPlainText(`{{${variableName}}}`)
+    setSpans(readCurrent())
+    setVariableDraft('')
+  }
+
+  const selected = selection && selection[0] !== selection[1] ? spansInRange(spans, selection[0], selection[1]) : []
+  const hasSelection = selected.length > 0
+  const allBold = hasSelection && selected.every(span => (span.fontWeight ?? layer.fontWeight) === 'bold')
+  const allItalic = hasSelection && selected.every(span => span.fontStyle === 'italic')
+  const selectedColor = selected[0]?.color ?? layer.color
+  const selectedFont = selected.length > 0 && selected.every(span => span.fontFamily === selected[0].fontFamily)
+    ? selected[0].fontFamily ?? LAYER_FONT
+    : undefined
+
+  // Styles equal to the layer's are stored as unset so later layer changes still apply
+  const layerDefault = <T,>(value: T, layerValue: T) => (value === layerValue ? undefined : value)
+
+  const anchorShift = wraps || layer.textAlign === 'left' ? '0' : layer.textAlign === 'center' ? '-50%' : '-100%'
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute z-30"
+      style={{
+        left: layer.x * scale,
+        top: box.y * scale,
+        transform: `translateX(${anchorShift}) rotate(${layer.rotation || 0}deg)`
+      }}
+      onPointerDown={(event) => event.stopPropagation()}
+    >
+      <div className="absolute bottom-full left-0 mb-2 flex items-center gap-1 rounded-md border bg-white p-1 shadow-md whitespace-nowrap">
+        <Button
+          variant={allBold ? 'secondary' : 'ghost'}
+          size="icon"
+          className="h-7 w-7"
+          disabled={!hasSelection}
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={() => applyStyle({ fontWeight: layerDefault(allBold ? 'normal' : 'bold', layer.fontWeight) })}
+          title="Bold"
+        >
+          <Bold className="w-4 h-4" />
+        </Button>
+        <Button
+          variant={allItalic ? 'secondary' : 'ghost'}
+          size="icon"
+          className="h-7 w-7"
+          disabled={!hasSelection}
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={() => applyStyle({ fontStyle: allItalic ? undefined : 'italic' })}
+          title="Italic"
+        >
+          <Italic className="w-4 h-4" />
+        </Button>
+        <Input
+          type="color"
+          value={selectedColor}
+          disabled={!hasSelection}
+          onChange={(event) => applyStyle({ color: layerDefault(event.target.value, layer.color) })}
+          className="h-7 w-9 p-0.5"
+          title="Text color"
+        />
+        <Select
+          value={selectedFont}
+          disabled={!hasSelection}
+          onValueChange={(value) => applyStyle({ fontFamily: value === LAYER_FONT ? undefined : layerDefault(value, layer.fontFamily) })}
+        >
+          <SelectTrigger className="h-7 w-36 text-xs">
+            <SelectValue placeholder="Font" />
+          </SelectTrigger>
+          <SelectContent className="max-h-60">
+            <SelectItem value={LAYER_FONT}>Layer font</SelectItem>
+            {fonts.map(font => (
+              <SelectItem key={font} value={font}>
+                <span style={{ fontFamily: `"${font}", sans-serif` }}>{font}</span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          disabled={!hasSelection}
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={() => applyStyle({ color: undefined, fontWeight: undefined, fontStyle: undefined, fontFamily: undefined })}
+          title="Clear formatting"
+        >
+          <RemoveFormatting className="w-4 h-4" />
+        </Button>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2" onMouseDown={(event) => event.preventDefault()}>
+              <Braces className="w-4 h-4 mr-1" />
+              Variable
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-56 space-y-2 p-3" onOpenAutoFocus={(event) => event.preventDefault()}>
+            <form
+              className="flex gap-2"
+              onSubmit={(event) => {
+                event.preventDefault()
+                insertVariable(variableDraft)
+              }}
+            >
+              <Input
+                value={variableDraft}
+                onChange={(event) => setVariableDraft(event.target.value)}
+                placeholder="e.g., name"
+                className="h-8"
+              />
+              <Button type="submit" size="sm" className="h-8" disabled={!variableDraft.trim()}>Insert</Button>
+            </form>
+            {variableNames.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {variableNames.map(name => (
+                  <Button key={name} variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => insertVariable(name)}>
+                    {name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+
+        <Button size="icon" className="h-7 w-7" onMouseDown={(event) => event.preventDefault()} onClick={commit} title="Done">
+          <Check className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div
+        ref={editableRef}
+        contentEditable
+        suppressContentEditableWarning
+        spellCheck={false}
+        className="outline-none ring-2 ring-primary ring-offset-2 rounded-sm cursor-text"
+        style={{
+          width: wraps ? box.width * scale : undefined,
+          minWidth: '1ch',
+          minHeight: box.height * scale,
+          whiteSpace: wraps ? 'pre-wrap' : 'pre',
+          fontFamily: `"${layer.fontFamily}", sans-serif`,
+          fontSize: layer.fontSize * scale,
+          fontWeight: layer.fontWeight,
+          lineHeight: LINE_HEIGHT,
+          color: layer.color,
+          textAlign: layer.textAlign,
+          opacity: layer.opacity ?? 1
+        }}
+        onInput={() => setSpans(readCurrent())}
+        onKeyDown={(event) => {
+          event.stopPropagation()
+          if (event.key === 'Escape') {
+            event.preventDefault()
+            onCancel()
+          } else if (event.key === 'Enter') {
+            event.preventDefault()
+            // Only wrapped text has line breaks; elsewhere Enter finishes editing
+            if (!wraps || event.ctrlKey || event.metaKey) {
+              commit()
+              return
+            }
+            insertPlainText('\n')
+            setSpans(readCurrent())
+          }
+        }}
+        onPaste={(event) => {
+          event.preventDefault()
+          const text = event.clipboardData.getData('text/plain')
+          insertPlainText(wraps ? text : text.replace(/\s*\n\s*/g, ' '))
+          setSpans(readCurrent())
+        }}
+      />
+    </div>
+  )
+}
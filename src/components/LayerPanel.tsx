@@ -0,0 +1,266 @@
+import { useCallback, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import {
+  ArrowDown, ArrowUp, ChevronsDown, ChevronsUp, Copy, Eye, EyeOff, GripVertical, ImageIcon, Lock, LockOpen,
+  MoreHorizontal, Pencil, Plus, Shapes, Trash2
+} from 'lucide-react'
+import { DndContext, KeyboardSensor, PointerSensor, useDraggable, useDroppable, useSensor, useSensors, type DragEndEvent } from '@dnd-kit/core'
+import { SHAPE_NAMES, SHAPE_PRESETS, type ShapePreset } from '@/lib/shapes'
+import type { Layer, Template } from '@/types/template'
+
+function layerLabel(layer: Layer): string {
+  if (layer.name) return layer.name
+  if (layer.type === 'shape') return SHAPE_NAMES[layer.shape]
+  if (layer.isVariable) {
+    return `{{${layer.variableName || (layer.type === 'text' ? layer.text : 'image')}}}`
+  }
+  return layer.type === 'text' ? layer.text : 'Image'
+}
+
+// History label for a property change, e.g. "Change font size"
+interface LayerRowProps {
+  layer: Layer
+  subtitle: string
+  isSelected: boolean
+  isTop: boolean
+  isBottom: boolean
+  onSelect: (additive: boolean) => void
+  onUpdate: (updates: Partial<Layer>, label: string) => void
+  onArrange: (position: 'forward' | 'backward' | 'front' | 'back') => void
+  onDuplicate: () => void
+  onDelete: () => void
+}
+
+// Row in the layer panel; drag the grip to change the stacking order
+function LayerRow({ layer, subtitle, isSelected, isTop, isBottom, onSelect, onUpdate, onArrange, onDuplicate, onDelete }: LayerRowProps) {
+  const { attributes, listeners, setNodeRef: setDragRef, transform, isDragging } = useDraggable({ id: layer.id })
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id: layer.id })
+  const [draftName, setDraftName] = useState<string | null>(null)
+
+  const commitName = () => {
+    if (draftName === null) return
+    const name = draftName.trim()
+    if (name !== (layer.name ?? '')) onUpdate({ name: name || undefined }, 'Rename layer')
+    setDraftName(null)
+  }
+
+  return (
+    <div
+      ref={(node) => {
+        setDragRef(node)
+        setDropRef(node)
+      }}
+      className={`p-2 rounded border cursor-pointer transition-colors duration-200 ${
+        isSelected
+          ? 'border-primary bg-primary/5 shadow-sm'
+          : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+      } ${isOver && !isDragging ? 'ring-2 ring-primary/40' : ''} ${isDragging ? 'relative z-10 opacity-80 shadow-md' : ''}`}
+      style={transform ? { transform: `translate3d(0, ${transform.y}px, 0)` } : undefined}
+      onClick={(e) => onSelect(e.shiftKey)}
+    >
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          className="p-1 text-gray-400 hover:text-gray-600 cursor-grab touch-none"
+          title="Drag to reorder"
+          onClick={(e) => e.stopPropagation()}
+          {...attributes}
+          {...listeners}
+        >
+          <GripVertical className="w-3 h-3" />
+        </button>
+        <div className={`flex-1 min-w-0 ${layer.hidden ? 'opacity-50' : ''}`}>
+          {draftName !== null ? (
+            <Input
+              autoFocus
+              value={draftName}
+              placeholder={layerLabel({ ...layer, name: undefined })}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={commitName}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitName()
+                if (e.key === 'Escape') setDraftName(null)
+              }}
+              className="h-7 text-sm"
+            />
+          ) : (
+            <div className="text-sm font-medium truncate" onDoubleClick={() => setDraftName(layer.name ?? '')}>
+              {layerLabel(layer)}
+            </div>
+          )}
+          <div className="text-xs text-gray-500 mt-1 truncate">{subtitle}</div>
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0"
+          title={layer.hidden ? 'Show layer' : 'Hide layer'}
+          onClick={(e) => {
+            e.stopPropagation()
+            onUpdate({ hidden: !layer.hidden }, layer.hidden ? 'Show layer' : 'Hide layer')
+          }}
+        >
+          {layer.hidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 w-7 p-0"
+          title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+          onClick={(e) => {
+            e.stopPropagation()
+            onUpdate({ locked: !layer.locked }, layer.locked ? 'Unlock layer' : 'Lock layer')
+          }}
+        >
+          {layer.locked ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3 text-gray-400" />}
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={(e) => e.stopPropagation()}>
+              <MoreHorizontal className="w-3 h-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+            <DropdownMenuItem onSelect={() => setDraftName(layer.name ?? '')}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={onDuplicate}>
+              <Copy className="w-4 h-4 mr-2" />
+              Duplicate
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem disabled={isTop} onSelect={() => onArrange('front')}>
+              <ChevronsUp className="w-4 h-4 mr-2" />
+              Bring to front
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={isTop} onSelect={() => onArrange('forward')}>
+              <ArrowUp className="w-4 h-4 mr-2" />
+              Bring forward
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={isBottom} onSelect={() => onArrange('backward')}>
+              <ArrowDown className="w-4 h-4 mr-2" />
+              Send backward
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={isBottom} onSelect={() => onArrange('back')}>
+              <ChevronsDown className="w-4 h-4 mr-2" />
+              Send to back
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem disabled={layer.locked} onSelect={onDelete} className="text-red-600">
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  )
+}
+
+interface LayerPanelProps {
+  template: Template
+  selectedLayerIds: string[]
+  onSelect: (layerId: string, additive: boolean) => void
+  onUpdate: (layerId: string, updates: Partial<Layer>, label: string) => void
+  onArrange: (layerId: string, position: 'forward' | 'backward' | 'front' | 'back') => void
+  // Moves a layer to a new index in the stacking order
+  onReorder: (layerId: string, toIndex: number) => void
+  onDuplicate: (layerIds: string[]) => void
+  onDelete: (layerIds: string[]) => void
+  onAddText: () => void
+  onAddImage: () => void
+  onAddShape: (preset: ShapePreset) => void
+}
+
+// Layer list, topmost layer first, with buttons to add layers
+export function LayerPanel({
+  template,
+  selectedLayerIds,
+  onSelect,
+  onUpdate,
+  onArrange,
+  onReorder,
+  onDuplicate,
+  onDelete,
+  onAddText,
+  onAddImage,
+  onAddShape
+}: LayerPanelProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const handleDragEnd = useCallback(({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return
+    onReorder(String(active.id), template.layers.findIndex(layer => layer.id === over.id))
+  }, [template, onReorder])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center justify-between">
+          Layers ({template.layers.length})
+          <div className="flex gap-1">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="outline" title="Add shape layer">
+                  <Shapes className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {SHAPE_PRESETS.map((preset) => (
+                  <DropdownMenuItem key={preset.label} onSelect={() => onAddShape(preset)}>
+                    {preset.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button size="sm" variant="outline" onClick={onAddImage} title="Add image layer">
+              <ImageIcon className="w-4 h-4" />
+            </Button>
+            <Button size="sm" onClick={onAddText} title="Add text layer">
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+          {[...template.layers].reverse().map((layer) => {
+            const index = template.layers.indexOf(layer)
+            const group = template.groups.find(g => g.id === layer.groupId)
+            const details = layer.type === 'text'
+              ? `${layer.fontFamily} • ${layer.fontSize}px`
+              : `${layer.type === 'image' ? 'Image' : 'Shape'} • ${Math.round(layer.width)} × ${Math.round(layer.height)}`
+            return (
+              <LayerRow
+                key={layer.id}
+                layer={layer}
+                subtitle={[group?.name, details, layer.visibleWhen?.trim() && `if ${layer.visibleWhen.trim()}`].filter(Boolean).join(' • ')}
+                isSelected={selectedLayerIds.includes(layer.id)}
+                isTop={index === template.layers.length - 1}
+                isBottom={index === 0}
+                onSelect={(additive) => onSelect(layer.id, additive)}
+                onUpdate={(updates, label) => onUpdate(layer.id, updates, label)}
+                onArrange={(position) => onArrange(layer.id, position)}
+                onDuplicate={() => onDuplicate([layer.id])}
+                onDelete={() => onDelete([layer.id])}
+              />
+            )
+          })}
+        </DndContext>
+        {template.layers.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No layers yet. Click + to add text, an image or a shape.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
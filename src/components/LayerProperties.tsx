@@ -0,0 +1,782 @@
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ImageIcon, Pencil, RemoveFormatting } from 'lucide-react'
+import { getConditionError } from '@/lib/conditions'
+import { PREMIUM_FONTS } from '@/lib/fonts'
+import { getUnknownFormatters } from '@/lib/placeholders'
+import { getLayerSpans } from '@/lib/rich-text'
+import { SHAPE_NAMES } from '@/lib/shapes'
+import type { ImageFit, Layer, ShapeKind, TextLayer } from '@/types/template'
+
+interface LayerPropertiesProps {
+  layer: Layer
+  tab: string
+  onTabChange: (tab: string) => void
+  // Repeated changes to the same properties are merged into one history step
+  onUpdate: (updates: Partial<Layer>) => void
+  // Recorded as its own history step
+  onCommit: (updates: Partial<Layer>, label: string) => void
+  onToggleTextBox: (layer: TextLayer, enabled: boolean) => void
+  onEditText: () => void
+  onReplaceImage: () => void
+}
+
+// Content, style and effects of the selected layer
+export function LayerProperties({ layer, tab, onTabChange, onUpdate, onCommit, onToggleTextBox, onEditText, onReplaceImage }: LayerPropertiesProps) {
+  const unknownFormatters = layer.type === 'text' ? getUnknownFormatters(layer.text) : []
+  const conditionError = layer.visibleWhen?.trim() ? getConditionError(layer.visibleWhen) : null
+  const minLayerSize = layer.type === 'shape' && layer.shape === 'line' ? 0 : 1
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Layer Properties</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={tab} onValueChange={onTabChange} className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="content">Content</TabsTrigger>
+            <TabsTrigger value="style">Style</TabsTrigger>
+            <TabsTrigger value="effects">Effects</TabsTrigger>
+          </TabsList>
+          
+          <TabsContent value="content" className="space-y-4">
+            {layer.type === 'text' && (layer.spans?.length && !layer.isVariable ? (
+              <div className="space-y-2">
+                <Label>Text</Label>
+                <div
+                  className="rounded-md border bg-gray-50 px-3 py-2 text-sm break-words"
+                  style={{ fontFamily: `"${layer.fontFamily}", sans-serif`, fontWeight: layer.fontWeight }}
+                >
+                  {getLayerSpans(layer).map((span, i) => (
+                    <span
+                      key={i}
+                      style={{
+                        color: span.color,
+                        fontWeight: span.fontWeight,
+                        fontStyle: span.fontStyle,
+                        fontFamily: span.fontFamily && `"${span.fontFamily}", sans-serif`
+                      }}
+                    >
+                      {span.text}
+                    </span>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="flex-1" onClick={onEditText}>
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit on Canvas
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1"
+                    onClick={() => onCommit({ spans: undefined }, 'Clear formatting')}
+                  >
+                    <RemoveFormatting className="w-4 h-4 mr-2" />
+                    Plain Text
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="text">Text</Label>
+                <Input
+                  id="text"
+                  value={layer.text}
+                  onChange={(e) => onUpdate({ text: e.target.value })}
+                />
+                {!layer.isVariable && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Type {'{{name}}'} to insert a variable, or \{'{{'} for literal braces. Double-click the text on the canvas to style words.
+                  </p>
+                )}
+              </div>
+            ))}
+
+            {layer.type === 'text' && !layer.isVariable && (
+              <div className="rounded-md bg-gray-50 p-2 text-xs text-gray-600 space-y-1">
+                <p>
+                  Format values with a pipe, e.g. <code>{'{{price | currency:EUR}}'}</code> or <code>{'{{date | date:"d MMM yyyy"}}'}</code>.
+                </p>
+                <p>Also available: upper, lower, title, number:2, truncate:40.</p>
+                {unknownFormatters.length > 0 && (
+                  <p className="text-amber-600">Unknown formatter: {unknownFormatters.join(', ')}</p>
+                )}
+              </div>
+            )}
+
+            {layer.type === 'image' && (
+              <div className="space-y-2">
+                <Label>Image</Label>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={onReplaceImage}
+                >
+                  <ImageIcon className="w-4 h-4 mr-2" />
+                  {layer.isVariable ? 'Replace Default Image' : 'Replace Image'}
+                </Button>
+                <p className="text-xs text-gray-500">
+                  {layer.isVariable
+                    ? 'Each generated image can supply its own image URL or file; rows without one use this image.'
+                    : 'The same image is used in every generated image.'}
+                </p>
+              </div>
+            )}
+
+            {layer.type === 'shape' && (
+              <>
+                <div>
+                  <Label htmlFor="shapeKind">Shape</Label>
+                  <Select
+                    value={layer.shape}
+                    onValueChange={(value: ShapeKind) => onUpdate({ shape: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SHAPE_NAMES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {layer.shape === 'polygon' && (
+                  <>
+                    <div>
+                      <Label>Points: {layer.points ?? 6}</Label>
+                      <Slider
+                        value={[layer.points ?? 6]}
+                        onValueChange={([value]) => onUpdate({ points: value })}
+                        min={3}
+                        max={32}
+                        step={1}
+                        className="mt-2"
+                      />
+                    </div>
+                    <div>
+                      <Label>Inner Radius: {Math.round((layer.innerRadius ?? 1) * 100)}%</Label>
+                      <Slider
+                        value={[(layer.innerRadius ?? 1) * 100]}
+                        onValueChange={([value]) => onUpdate({ innerRadius: value / 100 })}
+                        min={10}
+                        max={100}
+                        step={1}
+                        className="mt-2"
+                      />
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+
+            {layer.type !== 'shape' && (
+              <>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={layer.isVariable}
+                    onCheckedChange={(checked) => onUpdate({ isVariable: checked })}
+                  />
+                  <Label>Make Variable</Label>
+                </div>
+
+                {layer.isVariable && (
+                  <div>
+                    <Label htmlFor="variableName">Variable Name</Label>
+                    <Input
+                      id="variableName"
+                      value={layer.variableName || ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => onUpdate({ variableName: e.target.value })}
+                      placeholder={layer.type === 'image' ? 'e.g., logo, avatar, photo' : 'e.g., name, title, date'}
+                    />
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="space-y-2 border-t pt-4">
+              <Label htmlFor="visibleWhen">Show When</Label>
+              <Input
+                id="visibleWhen"
+                value={layer.visibleWhen ?? ''}
+                onChange={(e) => onUpdate({ visibleWhen: e.target.value || undefined })}
+                placeholder="Always"
+                className="font-mono text-sm"
+              />
+              {conditionError ? (
+                <p className="text-xs text-red-600">{conditionError}. The layer is always shown until the rule is fixed.</p>
+              ) : (
+                <div className="rounded-md bg-gray-50 p-2 text-xs text-gray-600 space-y-1">
+                  <p>
+                    Only draw this layer in generated images when the rule holds, e.g. <code>discount</code>,{' '}
+                    <code>not subtitle</code> or <code>{'size == "Large" and price > 100'}</code>.
+                  </p>
+                  <p>The editor always shows every layer.</p>
+                </div>
+              )}
+            </div>
+          </TabsContent>
+          
+          <TabsContent value="style" className="space-y-4">
+            {layer.type === 'text' ? (
+              <>
+                <div>
+                  <Label>
+                    {layer.textBox?.enabled && layer.textBox.shrinkToFit ? 'Max Font Size' : 'Font Size'}: {layer.fontSize}px
+                  </Label>
+                  <Slider
+                    value={[layer.fontSize]}
+                    onValueChange={([value]: number[]) => onUpdate({ fontSize: value })}
+                    min={Math.min(12, layer.fontSize)}
+                    max={Math.max(120, layer.fontSize)}
+                    step={1}
+                    className="mt-2"
+                  />
+                </div>
+            
+                <div>
+                  <Label htmlFor="fontFamily">Font Family</Label>
+                  <Select
+                    value={layer.fontFamily}
+                    onValueChange={(value: string) => onUpdate({ fontFamily: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-60">
+                      {PREMIUM_FONTS.map((font) => (
+                        <SelectItem key={font.name} value={font.name}>
+                          <div className="flex items-center justify-between w-full">
+                            <span style={{ fontFamily: `"${font.name}", sans-serif` }}>
+                              {font.name}
+                            </span>
+                            <span className="text-xs text-gray-500 ml-2">
+                              {font.category}
+                            </span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+            
+                <div>
+                  <Label htmlFor="color">Color</Label>
+                  <Input
+                    id="color"
+                    type="color"
+                    value={layer.color}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => onUpdate({ color: e.target.value })}
+                    className="h-10"
+                  />
+                </div>
+            
+                <div>
+                  <Label htmlFor="fontWeight">Font Weight</Label>
+                  <Select
+                    value={layer.fontWeight}
+                    onValueChange={(value: 'normal' | 'bold') => onUpdate({ fontWeight: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="normal">Normal</SelectItem>
+                      <SelectItem value="bold">Bold</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+            
+                <div>
+                  <Label htmlFor="textAlign">Text Align</Label>
+                  <Select
+                    value={layer.textAlign}
+                    onValueChange={(value: 'left' | 'center' | 'right') => onUpdate({ textAlign: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="left">Left</SelectItem>
+                      <SelectItem value="center">Center</SelectItem>
+                      <SelectItem value="right">Right</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={layer.textBox?.enabled || false}
+                      onCheckedChange={(checked) => onToggleTextBox(layer, checked)}
+                    />
+                    <Label>Text Box (wrap long text)</Label>
+                  </div>
+
+                  {layer.textBox?.enabled && (
+                    <div className="space-y-3 pl-6">
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label htmlFor="boxWidth">Box Width</Label>
+                          <Input
+                            id="boxWidth"
+                            type="number"
+                            min={1}
+                            value={Math.round(layer.textBox.width)}
+                            onChange={(e) => onUpdate({
+                              textBox: { ...layer.textBox!, width: Math.max(1, Number(e.target.value)) }
+                            })}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="boxHeight">Box Height</Label>
+                          <Input
+                            id="boxHeight"
+                            type="number"
+                            min={0}
+                            value={Math.round(layer.textBox.height)}
+                            onChange={(e) => onUpdate({
+                              textBox: { ...layer.textBox!, height: Math.max(0, Number(e.target.value)) }
+                            })}
+                            placeholder="Auto"
+                          />
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500">A height of 0 grows with the text.</p>
+
+                      <div>
+                        <Label>Max Lines: {layer.textBox.maxLines || 'Unlimited'}</Label>
+                        <Slider
+                          value={[layer.textBox.maxLines]}
+                          onValueChange={([value]) => onUpdate({
+                            textBox: { ...layer.textBox!, maxLines: value }
+                          })}
+                          min={0}
+                          max={10}
+                          step={1}
+                          className="mt-1"
+                        />
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          checked={layer.textBox.ellipsis}
+                          onCheckedChange={(checked) => onUpdate({
+                            textBox: { ...layer.textBox!, ellipsis: checked }
+                          })}
+                        />
+                        <Label>Ellipsis when truncated</Label>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          checked={layer.textBox.shrinkToFit}
+                          onCheckedChange={(checked) => onUpdate({
+                            textBox: { ...layer.textBox!, shrinkToFit: checked }
+                          })}
+                        />
+                        <Label>Shrink font to fit</Label>
+                      </div>
+
+                      {layer.textBox.shrinkToFit && (
+                        <div>
+                          <Label>Min Font Size: {layer.textBox.minFontSize}px</Label>
+                          <Slider
+                            value={[layer.textBox.minFontSize]}
+                            onValueChange={([value]) => onUpdate({
+                              textBox: { ...layer.textBox!, minFontSize: value }
+                            })}
+                            min={6}
+                            max={layer.fontSize}
+                            step={1}
+                            className="mt-1"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label htmlFor="layerWidth">Width</Label>
+                    <Input
+                      id="layerWidth"
+                      type="number"
+                      min={minLayerSize}
+                      value={Math.round(layer.width)}
+                      onChange={(e) => onUpdate({ width: Math.max(minLayerSize, Number(e.target.value)) })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="layerHeight">Height</Label>
+                    <Input
+                      id="layerHeight"
+                      type="number"
+                      min={minLayerSize}
+                      value={Math.round(layer.height)}
+                      onChange={(e) => onUpdate({ height: Math.max(minLayerSize, Number(e.target.value)) })}
+                    />
+                  </div>
+                </div>
+
+                {layer.type === 'image' && (
+                  <>
+                    <div>
+                      <Label htmlFor="imageFit">Fit</Label>
+                      <Select
+                        value={layer.fit}
+                        onValueChange={(value: ImageFit) => onUpdate({ fit: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="cover">Cover (crop to fill)</SelectItem>
+                          <SelectItem value="contain">Contain (letterbox)</SelectItem>
+                          <SelectItem value="fill">Fill (stretch)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div>
+                      <Label>Border Radius: {layer.borderRadius}px</Label>
+                      <Slider
+                        value={[layer.borderRadius]}
+                        onValueChange={([value]) => onUpdate({ borderRadius: value })}
+                        min={0}
+                        max={Math.round(Math.min(layer.width, layer.height) / 2)}
+                        step={1}
+                        className="mt-2"
+                      />
+                    </div>
+                  </>
+                )}
+
+                {layer.type === 'shape' && (
+                  <>
+                    {layer.shape === 'rect' && (
+                      <div>
+                        <Label>Corner Radius: {layer.cornerRadius ?? 0}px</Label>
+                        <Slider
+                          value={[layer.cornerRadius ?? 0]}
+                          onValueChange={([value]) => onUpdate({ cornerRadius: value })}
+                          min={0}
+                          max={Math.round(Math.min(layer.width, layer.height) / 2)}
+                          step={1}
+                          className="mt-2"
+                        />
+                      </div>
+                    )}
+
+                    {layer.shape !== 'line' && (
+                      <div className="space-y-3">
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            checked={layer.fill.enabled}
+                            onCheckedChange={(checked) => onUpdate({
+                              fill: { ...layer.fill, enabled: checked }
+                            })}
+                          />
+                          <Label>Fill</Label>
+                        </div>
+
+                        {layer.fill.enabled && (
+                          <div className="space-y-3 pl-6">
+                            <div>
+                              <Label htmlFor="fillColor">Fill Color</Label>
+                              <Input
+                                id="fillColor"
+                                type="color"
+                                value={layer.fill.color}
+                                onChange={(e) => onUpdate({
+                                  fill: { ...layer.fill, color: e.target.value }
+                                })}
+                                className="h-8"
+                              />
+                            </div>
+
+                            <div className="flex items-center space-x-2">
+                              <Switch
+                                checked={layer.gradient?.enabled || false}
+                                onCheckedChange={(checked) => onUpdate({
+                                  gradient: {
+                                    type: layer.gradient?.type || 'linear',
+                                    color: layer.gradient?.color || '#ffffff',
+                                    angle: layer.gradient?.angle ?? 90,
+                                    enabled: checked
+                                  }
+                                })}
+                              />
+                              <Label>Gradient</Label>
+                            </div>
+
+                            {layer.gradient?.enabled && (
+                              <>
+                                <div>
+                                  <Label htmlFor="gradientColor">Gradient End Color</Label>
+                                  <Input
+                                    id="gradientColor"
+                                    type="color"
+                                    value={layer.gradient.color}
+                                    onChange={(e) => onUpdate({
+                                      gradient: { ...layer.gradient!, color: e.target.value }
+                                    })}
+                                    className="h-8"
+                                  />
+                                </div>
+                                <div>
+                                  <Label htmlFor="gradientType">Gradient Type</Label>
+                                  <Select
+                                    value={layer.gradient.type}
+                                    onValueChange={(value: 'linear' | 'radial') => onUpdate({
+                                      gradient: { ...layer.gradient!, type: value }
+                                    })}
+                                  >
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="linear">Linear</SelectItem>
+                                      <SelectItem value="radial">Radial</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                {layer.gradient.type === 'linear' && (
+                                  <div>
+                                    <Label>Angle: {layer.gradient.angle}°</Label>
+                                    <Slider
+                                      value={[layer.gradient.angle]}
+                                      onValueChange={([value]) => onUpdate({
+                                        gradient: { ...layer.gradient!, angle: value }
+                                      })}
+                                      min={0}
+                                      max={360}
+                                      step={1}
+                                      className="mt-1"
+                                    />
+                                  </div>
+                                )}
+                              </>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="space-y-3">
+                      {layer.shape !== 'line' && (
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            checked={layer.stroke.enabled}
+                            onCheckedChange={(checked) => onUpdate({
+                              stroke: { ...layer.stroke, enabled: checked }
+                            })}
+                          />
+                          <Label>Stroke</Label>
+                        </div>
+                      )}
+
+                      {(layer.stroke.enabled || layer.shape === 'line') && (
+                        <div className={`space-y-3 ${layer.shape === 'line' ? '' : 'pl-6'}`}>
+                          <div>
+                            <Label htmlFor="shapeStrokeColor">Stroke Color</Label>
+                            <Input
+                              id="shapeStrokeColor"
+                              type="color"
+                              value={layer.stroke.color}
+                              onChange={(e) => onUpdate({
+                                stroke: { ...layer.stroke, color: e.target.value }
+                              })}
+                              className="h-8"
+                            />
+                          </div>
+                          <div>
+                            <Label>Stroke Width: {layer.stroke.width}px</Label>
+                            <Slider
+                              value={[layer.stroke.width]}
+                              onValueChange={([value]) => onUpdate({
+                                stroke: { ...layer.stroke, width: value }
+                              })}
+                              min={layer.shape === 'line' ? 1 : 0}
+                              max={40}
+                              step={0.5}
+                              className="mt-1"
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </TabsContent>
+          
+          <TabsContent value="effects" className="space-y-4">
+            <div>
+              <Label>Opacity: {Math.round((layer.opacity || 1) * 100)}%</Label>
+              <Slider
+                value={[(layer.opacity || 1) * 100]}
+                onValueChange={([value]) => onUpdate({ opacity: value / 100 })}
+                min={0}
+                max={100}
+                step={1}
+                className="mt-2"
+              />
+            </div>
+            
+            <div>
+              <Label>Rotation: {layer.rotation || 0}°</Label>
+              <Slider
+                value={[layer.rotation || 0]}
+                onValueChange={([value]) => onUpdate({ rotation: value })}
+                min={-180}
+                max={180}
+                step={1}
+                className="mt-2"
+              />
+            </div>
+            
+            {layer.type === 'text' && (
+              <>
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={layer.textShadow?.enabled || false}
+                      onCheckedChange={(checked) => onUpdate({ 
+                        textShadow: { 
+                          ...layer.textShadow,
+                          enabled: checked,
+                          color: layer.textShadow?.color || '#000000',
+                          offsetX: layer.textShadow?.offsetX || 2,
+                          offsetY: layer.textShadow?.offsetY || 2,
+                          blur: layer.textShadow?.blur || 4
+                        } 
+                      })}
+                    />
+                    <Label>Text Shadow</Label>
+                  </div>
+              
+                  {layer.textShadow?.enabled && (
+                    <div className="space-y-3 pl-6">
+                      <div>
+                        <Label htmlFor="shadowColor">Shadow Color</Label>
+                        <Input
+                          id="shadowColor"
+                          type="color"
+                          value={layer.textShadow?.color || '#000000'}
+                          onChange={(e) => onUpdate({ 
+                            textShadow: { ...layer.textShadow!, color: e.target.value } 
+                          })}
+                          className="h-8"
+                        />
+                      </div>
+                      <div>
+                        <Label>Offset X: {layer.textShadow?.offsetX || 0}px</Label>
+                        <Slider
+                          value={[layer.textShadow?.offsetX || 0]}
+                          onValueChange={([value]) => onUpdate({ 
+                            textShadow: { ...layer.textShadow!, offsetX: value } 
+                          })}
+                          min={-20}
+                          max={20}
+                          step={1}
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label>Offset Y: {layer.textShadow?.offsetY || 0}px</Label>
+                        <Slider
+                          value={[layer.textShadow?.offsetY || 0]}
+                          onValueChange={([value]) => onUpdate({ 
+                            textShadow: { ...layer.textShadow!, offsetY: value } 
+                          })}
+                          min={-20}
+                          max={20}
+                          step={1}
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <Label>Blur: {layer.textShadow?.blur || 0}px</Label>
+                        <Slider
+                          value={[layer.textShadow?.blur || 0]}
+                          onValueChange={([value]) => onUpdate({ 
+                            textShadow: { ...layer.textShadow!, blur: value } 
+                          })}
+                          min={0}
+                          max={20}
+                          step={1}
+                          className="mt-1"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+            
+                <div className="space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      checked={layer.textStroke?.enabled || false}
+                      onCheckedChange={(checked) => onUpdate({ 
+                        textStroke: { 
+                          ...layer.textStroke,
+                          enabled: checked,
+                          color: layer.textStroke?.color || '#000000',
+                          width: layer.textStroke?.width || 1
+                        } 
+                      })}
+                    />
+                    <Label>Text Stroke</Label>
+                  </div>
+              
+                  {layer.textStroke?.enabled && (
+                    <div className="space-y-3 pl-6">
+                      <div>
+                        <Label htmlFor="strokeColor">Stroke Color</Label>
+                        <Input
+                          id="strokeColor"
+                          type="color"
+                          value={layer.textStroke?.color || '#000000'}
+                          onChange={(e) => onUpdate({ 
+                            textStroke: { ...layer.textStroke!, color: e.target.value } 
+                          })}
+                          className="h-8"
+                        />
+                      </div>
+                      <div>
+                        <Label>Width: {layer.textStroke?.width || 0}px</Label>
+                        <Slider
+                          value={[layer.textStroke?.width || 0]}
+                          onValueChange={([value]) => onUpdate({ 
+                            textStroke: { ...layer.textStroke!, width: value } 
+                          })}
+                          min={0}
+                          max={10}
+                          step={0.5}
+                          className="mt-1"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,52 @@
+import { useRef } from 'react'
+import { TemplateCanvas } from '@/components/TemplateCanvas'
+import type { VisibleRegion } from '@/hooks/use-canvas-viewport'
+import type { Template } from '@/types/template'
+
+interface MinimapProps {
+  template: Template
+  visibleRegion: VisibleRegion
+  // Called with a template point to center the viewport on
+  onNavigate: (x: number, y: number) => void
+  size?: number
+}
+
+// Thumbnail of the whole template with the visible part outlined; click or drag to move around
+export function Minimap({ template, visibleRegion, onNavigate, size = 160 }: MinimapProps) {
+  const isDragging = useRef(false)
+  const scale = size / Math.max(template.width, template.height)
+
+  const navigate = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    onNavigate((event.clientX - rect.left) / scale, (event.clientY - rect.top) / scale)
+  }
+
+  return (
+    <div
+      className="relative bg-white rounded border shadow-md overflow-hidden cursor-pointer touch-none"
+      style={{ width: template.width * scale, height: template.height * scale }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId)
+        isDragging.current = true
+        navigate(e)
+      }}
+      onPointerMove={(e) => {
+        if (isDragging.current) navigate(e)
+      }}
+      onPointerUp={() => {
+        isDragging.current = false
+      }}
+    >
+      <TemplateCanvas template={template} scale={scale} />
+      <div
+        className="absolute border-2 border-primary bg-primary/10 pointer-events-none"
+        style={{
+          left: visibleRegion.x * scale,
+          top: visibleRegion.y * scale,
+          width: visibleRegion.width * scale,
+          height: visibleRegion.height * scale
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { canExportVectorPdf, getPdfDpi, getPdfPageSize, PDF_DPI_PRESETS, type PdfMetadata, type PdfOptions } from '@/lib/pdf'
+import type { Template } from '@/types/template'
+
+interface PdfSettingsProps {
+  template: Template
+  options: PdfOptions
+  onChange: (options: PdfOptions) => void
+}
+
+const MAX_PER_SIDE = 10
+
+const METADATA_FIELDS: Array<{ key: keyof PdfMetadata; label: string }> = [
+  { key: 'author', label: 'Author' },
+  { key: 'subject', label: 'Subject' },
+  { key: 'keywords', label: 'Keywords' }
+]
+
+function clampCount(value: string): number {
+  return Math.min(MAX_PER_SIDE, Math.max(1, Math.floor(Number(value)) || 1))
+}
+
+// Page layout, resolution and document properties for a batch PDF
+export function PdfSettings({ template, options, onChange }: PdfSettingsProps) {
+  const update = (updates: Partial<PdfOptions>) => onChange({ ...options, ...updates })
+  const updateMetadata = (updates: Partial<PdfMetadata>) => update({ metadata: { ...options.metadata, ...updates } })
+  const page = getPdfPageSize(template, options)
+  const vectorAvailable = canExportVectorPdf(template)
+  const printDpi = template.print.enabled
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label htmlFor="pdf-dpi" className="text-xs">Resolution</Label>
+          <Select
+            value={String(getPdfDpi(template, options))}
+            onValueChange={(value) => update({ dpi: Number(value) })}
+            disabled={printDpi}
+          >
+            <SelectTrigger id="pdf-dpi">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[...new Set([...PDF_DPI_PRESETS, getPdfDpi(template, options)])].sort((a, b) => a - b).map(dpi => (
+                <SelectItem key={dpi} value={String(dpi)}>{dpi} DPI</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="pdf-columns" className="text-xs">Across</Label>
+          <Input
+            id="pdf-columns"
+            type="number"
+            min={1}
+            max={MAX_PER_SIDE}
+            value={options.columns}
+            onChange={(e) => update({ columns: clampCount(e.target.value) })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="pdf-rows" className="text-xs">Down</Label>
+          <Input
+            id="pdf-rows"
+            type="number"
+            min={1}
+            max={MAX_PER_SIDE}
+            value={options.rows}
+            onChange={(e) => update({ rows: clampCount(e.target.value) })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Page size {(page.width / 72).toFixed(2)} × {(page.height / 72).toFixed(2)} in
+        ({Math.round(page.width / 72 * 25.4)} × {Math.round(page.height / 72 * 25.4)} mm),
+        {' '}{options.columns * options.rows === 1 ? 'one row per page' : `${options.columns * options.rows} rows per page`}.
+        {printDpi && ' The resolution comes from the template\'s print settings.'}
+      </p>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="pdf-vector" className="text-xs">Vector text and shapes</Label>
+        <Switch
+          id="pdf-vector"
+          checked={options.vector && vectorAvailable}
+          disabled={!vectorAvailable}
+          onCheckedChange={(checked) => update({ vector: checked })}
+        />
+      </div>
+      <p className="text-xs text-gray-500 -mt-2">
+        {vectorAvailable
+          ? 'Text stays sharp at any zoom. Either way the text can be searched and copied.'
+          : 'Text shadows can only be drawn as images, so each copy is embedded as an image.'}
+      </p>
+
+      <div>
+        <Label htmlFor="pdf-title" className="text-xs">Title</Label>
+        <Input
+          id="pdf-title"
+          value={options.metadata.title}
+          onChange={(e) => updateMetadata({ title: e.target.value })}
+          placeholder={template.name}
+        />
+      </div>
+      {METADATA_FIELDS.map(({ key, label }) => (
+        <div key={key}>
+          <Label htmlFor={`pdf-${key}`} className="text-xs">{label}</Label>
+          <Input
+            id={`pdf-${key}`}
+            value={options.metadata[key]}
+            onChange={(e) => updateMetadata({ [key]: e.target.value })}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
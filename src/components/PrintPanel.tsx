@@ -0,0 +1,175 @@
+import { useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { convertUnit, PRINT_DPI_PRESETS, PRINT_SIZE_PRESETS, PRINT_UNIT_LABELS, roundLength } from '@/lib/print'
+import type { PrintSettings, PrintUnit } from '@/types/template'
+
+interface PrintPanelProps {
+  print: PrintSettings
+  onChange: (updates: Partial<PrintSettings>) => void
+}
+
+// Print size, bleed and printer marks of the template
+export function PrintPanel({ print, onChange }: PrintPanelProps) {
+  const preset = print.enabled
+    ? PRINT_SIZE_PRESETS.find(item =>
+        roundLength(convertUnit(item.width, item.unit, print.unit), print.unit) === print.width &&
+        roundLength(convertUnit(item.height, item.unit, print.unit), print.unit) === print.height
+      )?.label ?? 'custom'
+    : 'custom'
+
+  const changeUnit = useCallback((unit: PrintUnit) => {
+    const convert = (value: number) => roundLength(convertUnit(value, print.unit, unit), unit)
+    onChange({
+      unit,
+      width: convert(print.width),
+      height: convert(print.height),
+      bleed: convert(print.bleed),
+      safeMargin: convert(print.safeMargin)
+    })
+  }, [print, onChange])
+
+  const applyPreset = useCallback((label: string) => {
+    const item = PRINT_SIZE_PRESETS.find(entry => entry.label === label)
+    if (!item) return
+    onChange({
+      width: roundLength(convertUnit(item.width, item.unit, print.unit), print.unit),
+      height: roundLength(convertUnit(item.height, item.unit, print.unit), print.unit)
+    })
+  }, [print, onChange])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm">Print</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="printEnabled">Print size</Label>
+          <Switch
+            id="printEnabled"
+            checked={print.enabled}
+            onCheckedChange={(checked) => onChange({ enabled: checked })}
+          />
+        </div>
+        {print.enabled && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="printPreset" className="text-xs">Size</Label>
+                <Select value={preset} onValueChange={applyPreset}>
+                  <SelectTrigger id="printPreset">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="custom" disabled>Custom</SelectItem>
+                    {PRINT_SIZE_PRESETS.map(preset => (
+                      <SelectItem key={preset.label} value={preset.label}>{preset.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="printUnit" className="text-xs">Units</Label>
+                <Select value={print.unit} onValueChange={changeUnit}>
+                  <SelectTrigger id="printUnit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PRINT_UNIT_LABELS) as PrintUnit[]).map(unit => (
+                      <SelectItem key={unit} value={unit}>{PRINT_UNIT_LABELS[unit]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label htmlFor="printWidth" className="text-xs">Width</Label>
+                <Input
+                  id="printWidth"
+                  type="number"
+                  min={0}
+                  step={print.unit === 'mm' ? 1 : 0.1}
+                  value={print.width}
+                  onChange={(e) => onChange({ width: Math.max(0.1, Number(e.target.value) || 0) })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="printHeight" className="text-xs">Height</Label>
+                <Input
+                  id="printHeight"
+                  type="number"
+                  min={0}
+                  step={print.unit === 'mm' ? 1 : 0.1}
+                  value={print.height}
+                  onChange={(e) => onChange({ height: Math.max(0.1, Number(e.target.value) || 0) })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="printDpi" className="text-xs">DPI</Label>
+                <Select value={String(print.dpi)} onValueChange={(value) => onChange({ dpi: Number(value) })}>
+                  <SelectTrigger id="printDpi">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...new Set([...PRINT_DPI_PRESETS, print.dpi])].sort((a, b) => a - b).map(dpi => (
+                      <SelectItem key={dpi} value={String(dpi)}>{dpi}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="printBleed" className="text-xs">Bleed</Label>
+                <Input
+                  id="printBleed"
+                  type="number"
+                  min={0}
+                  step={print.unit === 'mm' ? 0.5 : 0.0625}
+                  value={print.bleed}
+                  onChange={(e) => onChange({ bleed: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="printSafeMargin" className="text-xs">Safe margin</Label>
+                <Input
+                  id="printSafeMargin"
+                  type="number"
+                  min={0}
+                  step={print.unit === 'mm' ? 0.5 : 0.0625}
+                  value={print.safeMargin}
+                  onChange={(e) => onChange({ safeMargin: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="printCropMarks">Crop marks</Label>
+              <Switch
+                id="printCropMarks"
+                checked={print.cropMarks}
+                onCheckedChange={(checked) => onChange({ cropMarks: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="printRegistrationMarks">Registration marks</Label>
+              <Switch
+                id="printRegistrationMarks"
+                checked={print.registrationMarks}
+                onCheckedChange={(checked) => onChange({ registrationMarks: checked })}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              The red area is bleed and is trimmed off; keep text inside the dashed safe area.
+              Changing the size resizes the canvas, and layers keep their pixel positions.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
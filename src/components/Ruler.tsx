@@ -0,0 +1,64 @@
+import { cn } from '@/lib/utils'
+
+interface RulerProps {
+  orientation: 'horizontal' | 'vertical'
+  // Length in template pixels
+  length: number
+  // Display pixels per template pixel
+  scale: number
+  size: number
+  className?: string
+  style?: React.CSSProperties
+  onPointerDown?: (event: React.PointerEvent<HTMLDivElement>) => void
+  onPointerMove?: (event: React.PointerEvent<HTMLDivElement>) => void
+  onPointerUp?: (event: React.PointerEvent<HTMLDivElement>) => void
+}
+
+const TICK_STEPS = [5, 10, 25, 50, 100, 250, 500, 1000]
+const MIN_LABEL_SPACING = 50
+
+// Template-pixel ruler; labels are spaced at least MIN_LABEL_SPACING display pixels apart
+export function Ruler({ orientation, length, scale, size, className, style, ...handlers }: RulerProps) {
+  const horizontal = orientation === 'horizontal'
+  const step = TICK_STEPS.find(candidate => candidate * scale >= MIN_LABEL_SPACING) ?? TICK_STEPS[TICK_STEPS.length - 1]
+  const minorStep = step / 5
+
+  const ticks: Array<{ position: number; major: boolean }> = []
+  for (let position = 0; position <= length; position += minorStep) {
+    ticks.push({ position, major: position % step === 0 })
+  }
+
+  return (
+    <div
+      className={cn('absolute overflow-hidden bg-gray-50 border-gray-200 select-none text-[10px] text-gray-500', className)}
+      style={{
+        ...style,
+        width: horizontal ? length * scale : size,
+        height: horizontal ? size : length * scale,
+        cursor: horizontal ? 'row-resize' : 'col-resize'
+      }}
+      {...handlers}
+    >
+      {ticks.map(({ position, major }) => (
+        <div
+          key={position}
+          className="absolute bg-gray-400"
+          style={horizontal
+            ? { left: position * scale, bottom: 0, width: 1, height: major ? size / 2 : size / 5 }
+            : { top: position * scale, right: 0, height: 1, width: major ? size / 2 : size / 5 }}
+        >
+          {major && (
+            <span
+              className="absolute leading-none"
+              style={horizontal
+                ? { left: 2, bottom: size / 2 - 2 }
+                : { top: 2, right: size / 2 - 2, writingMode: 'vertical-rl', transform: 'rotate(180deg)' }}
+            >
+              {position}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react'
+import { renderTemplate, type RenderOptions } from '@/lib/render'
+import { cn } from '@/lib/utils'
+import type { Template } from '@/types/template'
+
+interface TemplateCanvasProps {
+  template: Template
+  variables?: Record<string, string>
+  // Display pixels per template pixel
+  scale: number
+  offsets?: RenderOptions['offsets']
+  className?: string
+}
+
+// Backing store limit; zoomed-in views of large templates drop below device resolution
+// instead of exceeding the browser's canvas size limits
+const MAX_CANVAS_PIXELS = 32_000_000
+
+// Live preview drawn with the same renderer used for exports
+export function TemplateCanvas({ template, variables, scale, offsets, className }: TemplateCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const target = canvasRef.current
+    if (!target) return
+
+    let cancelled = false
+    const displayPixels = template.width * template.height * scale * scale
+    const pixelRatio = Math.min(window.devicePixelRatio || 1, Math.sqrt(MAX_CANVAS_PIXELS / displayPixels))
+    const offscreen = document.createElement('canvas')
+
+    renderTemplate(template, variables, { canvas: offscreen, scale: scale * pixelRatio, offsets })
+      .then(rendered => {
+        if (cancelled) return
+        target.width = rendered.width
+        target.height = rendered.height
+        target.getContext('2d')?.drawImage(rendered, 0, 0)
+      })
+      .catch(error => console.error('Failed to render preview:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [template, variables, scale, offsets])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={cn('block', className)}
+      style={{ width: template.width * scale, height: template.height * scale }}
+    />
+  )
+}
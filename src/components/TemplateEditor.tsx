@@ -1,84 +1,260 @@
-import { useState, useRef, useCallback, useEffect } from 'react'
-import { motion } from 'framer-motion'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import { motion, useMotionValue } from 'framer-motion'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Slider } from '@/components/ui/slider'
-import { Switch } from '@/components/ui/switch'
-import { Upload, Plus, Trash2, Download, Save, Shuffle, Grid3X3 } from 'lucide-react'
+import {
+  Upload, Plus, Trash2, Download, Save, ImageIcon, Shapes, Undo2, Redo2, Group, Ungroup,
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal,
+  AlignEndHorizontal, AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Copy, MousePointer2,
+  SlidersHorizontal, Clock, ArrowLeft, Search, Eye, EyeOff, Lock, LockOpen,
+  ArrowUp, ArrowDown, ChevronsUp, ChevronsDown, Pencil, Maximize, ZoomIn, ZoomOut
+} from 'lucide-react'
+import { TemplateCanvas } from '@/components/TemplateCanvas'
+import { VersionHistory } from '@/components/VersionHistory'
+import { Ruler } from '@/components/Ruler'
+import { TransformHandles } from '@/components/TransformHandles'
+import { InlineTextEditor } from '@/components/InlineTextEditor'
+import { VariableSchemaEditor } from '@/components/VariableSchemaEditor'
+import { ZoomControls } from '@/components/ZoomControls'
+import { ExportSettings } from '@/components/ExportSettings'
+import { GuidesPanel } from '@/components/GuidesPanel'
+import { HistoryPanel } from '@/components/HistoryPanel'
+import { LayerPanel } from '@/components/LayerPanel'
+import { LayerProperties } from '@/components/LayerProperties'
+import { PrintPanel } from '@/components/PrintPanel'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Minimap } from '@/components/Minimap'
+import { CommandPalette, type EditorCommand } from '@/components/CommandPalette'
 import { blink } from '@/blink/client'
+import { getLayerBoxes, downloadBlob, loadImage, type LayerBox } from '@/lib/render'
+import { DEFAULT_EXPORT_OPTIONS, exportFilename, exportTemplate, type ExportOptions } from '@/lib/export'
+import { DEFAULT_LAYOUT_GRID, DEFAULT_PRINT_SETTINGS, toTemplateRecord } from '@/lib/templates'
+import { createRevision, isSameRevision, listRevisions, type TemplateRevision } from '@/lib/revisions'
+import { readFileAsDataUrl } from '@/lib/files'
+import { getGridColumns, getSnapTargets, snapBox } from '@/lib/snap'
+import { getPrintBoxes, getPrintCanvasSize, printSettingsForCanvas } from '@/lib/print'
+import { alignBoxes, distributeBoxes, unionBoxes, type AlignMode, type DistributeAxis, type LayerMoves } from '@/lib/align'
+import { hasRichText, spansToText } from '@/lib/rich-text'
+import { getTemplateVariables, getVariableDefinitions } from '@/lib/variables'
+import { PREMIUM_FONTS } from '@/lib/fonts'
+import { SHAPE_PRESETS, type ShapePreset } from '@/lib/shapes'
+import { useHistory } from '@/hooks/use-history'
+import { useCanvasViewport } from '@/hooks/use-canvas-viewport'
+import { useEditorShortcuts } from '@/hooks/use-editor-shortcuts'
 import { toast } from 'sonner'
-import type { Template, TextLayer } from '@/types/template'
+import type {
+  Guide, ImageLayer, Layer, LayerGroup, LayoutGrid, PrintSettings, ShapeLayer, Template, TextLayer,
+  TextSpan, VariableDefinition
+} from '@/types/template'
 
 interface TemplateEditorProps {
   user: any
+  // Saved from the Save button, which closes the editor
   onTemplateCreated: (template: Template) => void
+  // Saved in place, e.g. with Ctrl+S; the editor stays open
+  onTemplateSaved: (template: Template) => void
   onBackToGallery: () => void
   initialTemplate?: Template | null
 }
 
-const PREMIUM_FONTS = [
-  { name: 'Inter', category: 'Sans Serif' },
-  { name: 'Playfair Display', category: 'Serif' },
-  { name: 'Montserrat', category: 'Sans Serif' },
-  { name: 'Roboto', category: 'Sans Serif' },
-  { name: 'Open Sans', category: 'Sans Serif' },
-  { name: 'Lato', category: 'Sans Serif' },
-  { name: 'Poppins', category: 'Sans Serif' },
-  { name: 'Oswald', category: 'Sans Serif' },
-  { name: 'Merriweather', category: 'Serif' },
-  { name: 'Raleway', category: 'Sans Serif' },
-  { name: 'Source Sans Pro', category: 'Sans Serif' },
-  { name: 'Nunito', category: 'Sans Serif' },
-  { name: 'Crimson Text', category: 'Serif' },
-  { name: 'Libre Baskerville', category: 'Serif' },
-  { name: 'Dancing Script', category: 'Script' },
-  { name: 'Pacifico', category: 'Script' },
-  { name: 'Lobster', category: 'Script' },
-  { name: 'Bebas Neue', category: 'Display' },
-  { name: 'Anton', category: 'Display' },
-  { name: 'Righteous', category: 'Display' }
+// History label for a property change, e.g. "Change font size"
+function describeUpdate(updates: Partial<Layer>): string {
+  const keys = Object.keys(updates)
+  if (keys.every(key => key === 'x' || key === 'y')) return 'Move layer'
+  const name = keys[0] === 'text' ? 'text' : keys[0].replace(/[A-Z]/g, char => ` ${char.toLowerCase()}`)
+  return `Change ${name}`
+}
+
+const ALIGN_ACTIONS: Array<{ mode: AlignMode; label: string; icon: typeof AlignStartVertical }> = [
+  { mode: 'left', label: 'Align left', icon: AlignStartVertical },
+  { mode: 'center', label: 'Align center', icon: AlignCenterVertical },
+  { mode: 'right', label: 'Align right', icon: AlignEndVertical },
+  { mode: 'top', label: 'Align top', icon: AlignStartHorizontal },
+  { mode: 'middle', label: 'Align middle', icon: AlignCenterHorizontal },
+  { mode: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal }
+]
+
+const DISTRIBUTE_ACTIONS: Array<{ axis: DistributeAxis; label: string; icon: typeof AlignStartVertical }> = [
+  { axis: 'horizontal', label: 'Distribute horizontally', icon: AlignHorizontalDistributeCenter },
+  { axis: 'vertical', label: 'Distribute vertically', icon: AlignVerticalDistributeCenter }
 ]
 
-export function TemplateEditor({ user, onTemplateCreated, initialTemplate, onBackToGallery }: TemplateEditorProps) {
-  const [template, setTemplate] = useState<Template | null>(initialTemplate || null)
-  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null)
+// Snap distance and ruler thickness in display pixels
+const SNAP_DISTANCE = 6
+const RULER_SIZE = 20
+
+// Drops groups that no longer contain any layer
+function pruneGroups(groups: LayerGroup[], layers: Layer[]): LayerGroup[] {
+  return groups.filter(group => layers.some(layer => layer.groupId === group.id))
+}
+
+interface LayerHandleProps {
+  layer: Layer
+  box: LayerBox
+  scale: number
+  isSelected: boolean
+  constraintsRef: React.RefObject<HTMLDivElement | null>
+  onSelect: (additive: boolean) => void
+  onEdit?: () => void
+  onDrag: (x: number, y: number) => void
+  onDragEnd: (x: number, y: number) => void
+}
+
+// Invisible drag target over a layer; the layer itself is drawn by TemplateCanvas.
+// Offsets are reported in template pixels.
+function LayerHandle({ layer, box, scale, isSelected, constraintsRef, onSelect, onEdit, onDrag, onDragEnd }: LayerHandleProps) {
+  const x = useMotionValue(0)
+  const y = useMotionValue(0)
+
+  return (
+    <motion.div
+      drag
+      dragMomentum={false}
+      dragConstraints={constraintsRef}
+      data-layer-handle
+      onPointerDown={(event) => onSelect(event.shiftKey)}
+      onDoubleClick={onEdit}
+      onDrag={(_event, info) => onDrag(info.offset.x / scale, info.offset.y / scale)}
+      onDragEnd={(_event, info) => {
+        onDragEnd(info.offset.x / scale, info.offset.y / scale)
+        // The new position is committed to the layer, so drop the drag transform
+        x.set(0)
+        y.set(0)
+      }}
+      className={`absolute cursor-move select-none rounded-sm transition-shadow duration-200 ${
+        isSelected
+          ? 'ring-2 ring-primary ring-offset-2'
+          : 'hover:ring-1 hover:ring-gray-300'
+      }`}
+      style={{
+        x,
+        y,
+        left: box.x * scale,
+        top: box.y * scale,
+        width: Math.max(box.width * scale, 8),
+        height: Math.max(box.height * scale, 8),
+        rotate: layer.rotation || 0
+      }}
+    />
+  )
+}
+
+export function TemplateEditor({ user, onTemplateCreated, onTemplateSaved, initialTemplate, onBackToGallery }: TemplateEditorProps) {
+  // Seeded once: the route remounts the editor for another template, and re-fetched copies
+  // of this one must not wipe the undo stack or unsaved edits
+  const history = useHistory<Template | null>(initialTemplate || null)
+  const { commit: commitTemplate, reset: resetHistory, undo, redo } = history
+  const template = history.present
+  const viewport = useCanvasViewport(template?.width ?? 1, template?.height ?? 1)
+  const scale = viewport.scale
+  const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([])
+  const selectedLayerId = selectedLayerIds.length === 1 ? selectedLayerIds[0] : null
   const [isSaving, setIsSaving] = useState(false)
-  const canvasRef = useRef<HTMLDivElement>(null)
+  const canvasRef = viewport.contentRef
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const imageInputRef = useRef<HTMLInputElement>(null)
+  const replaceImageInputRef = useRef<HTMLInputElement>(null)
+
+  const [dragOffset, setDragOffset] = useState<{ ids: string[]; x: number; y: number } | null>(null)
+  // Rubber-band selection rectangle in template pixels
+  const [marquee, setMarquee] = useState<{ startX: number; startY: number; x: number; y: number; additive: boolean } | null>(null)
+  const [showRulers, setShowRulers] = useState(true)
+  const [snapEnabled, setSnapEnabled] = useState(true)
+  const [snapLines, setSnapLines] = useState<{ x?: number; y?: number }>({})
+  // Guide being dragged from a ruler (new) or along the canvas (existing)
+  const [guideDrag, setGuideDrag] = useState<{ guide: Guide; isNew: boolean } | null>(null)
+  const [propertiesTab, setPropertiesTab] = useState('content')
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [versionsOpen, setVersionsOpen] = useState(false)
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS)
+  const panPointRef = useRef<{ x: number; y: number } | null>(null)
+  // Space only pans while the canvas area is focused or under the pointer
+  const canvasAreaRef = useRef<HTMLDivElement>(null)
+  const pointerOverCanvasRef = useRef(false)
+  const [fontsVersion, setFontsVersion] = useState(0)
 
+  // Layer boxes depend on font metrics, so re-measure once web fonts finish loading
   useEffect(() => {
-    if (initialTemplate) {
-      setTemplate(initialTemplate)
+    const handleFontsLoaded = () => setFontsVersion(v => v + 1)
+    document.fonts.addEventListener('loadingdone', handleFontsLoaded)
+    return () => document.fonts.removeEventListener('loadingdone', handleFontsLoaded)
+  }, [])
+
+  // Uncommitted changes from the transform handles, shown while dragging
+  const [transformPreview, setTransformPreview] = useState<{ id: string; updates: Partial<Layer> } | null>(null)
+  // Text layer being edited on the canvas; the editor draws it instead of the canvas
+  const [editingTextId, setEditingTextId] = useState<string | null>(null)
+
+  const displayTemplate = useMemo(() => {
+    if (!template || (!transformPreview && !editingTextId)) return template
+    return {
+      ...template,
+      layers: template.layers.map(layer => {
+        if (layer.id === transformPreview?.id) return { ...layer, ...transformPreview.updates } as Layer
+        if (layer.id === editingTextId) return { ...layer, hidden: true }
+        return layer
+      })
     }
-  }, [initialTemplate])
+  }, [template, transformPreview, editingTextId])
+
+  const layerBoxes = useMemo(
+    () => (displayTemplate ? getLayerBoxes(displayTemplate, {}, fontsVersion) : {}),
+    [displayTemplate, fontsVersion]
+  )
+
+  const dragOffsets = useMemo(
+    () => (dragOffset ? Object.fromEntries(dragOffset.ids.map(id => [id, { x: dragOffset.x, y: dragOffset.y }])) : undefined),
+    [dragOffset]
+  )
 
-  const selectedLayer = template?.textLayers.find(layer => layer.id === selectedLayerId)
+  const selectedLayer = template?.layers.find(layer => layer.id === selectedLayerId)
+  const templateVariableNames = useMemo(
+    () => (template ? getTemplateVariables(template).map(variable => variable.name) : []),
+    [template]
+  )
+  const variableDefinitions = useMemo(() => (template ? getVariableDefinitions(template) : []), [template])
+  const printBoxes = useMemo(() => (template ? getPrintBoxes(template) : null), [template])
+  // The group whose layers are exactly the current selection
+  const selectionGroup = template?.groups.find(group => {
+    const members = template.layers.filter(layer => layer.groupId === group.id).map(layer => layer.id)
+    return members.length === selectedLayerIds.length && members.every(id => selectedLayerIds.includes(id))
+  })
+
+  // Last revision stored for this template; undefined until it has been looked up
+  const latestRevisionRef = useRef<Template | null | undefined>(undefined)
+
+  const recordRevision = useCallback(async (saved: Template) => {
+    try {
+      if (latestRevisionRef.current === undefined) {
+        const [latest] = await listRevisions(saved.id, user.id)
+        latestRevisionRef.current = latest?.template ?? null
+      }
+      if (latestRevisionRef.current && isSameRevision(latestRevisionRef.current, saved)) return
+
+      await createRevision(saved, user.id)
+      latestRevisionRef.current = saved
+    } catch (error) {
+      console.error('Failed to record template revision:', error)
+    }
+  }, [user])
 
-  const saveTemplate = useCallback(async (silent = false) => {
+  // Silent saves are auto-saves; `close` hands the template back and leaves the editor
+  const saveTemplate = useCallback(async ({ silent = false, close = false } = {}) => {
     if (!template || !user) return
 
     setIsSaving(true)
     try {
-      const templateData = {
-        id: template.id,
-        name: template.name,
-        backgroundImage: template.backgroundImage,
-        textLayers: JSON.stringify(template.textLayers),
-        width: template.width,
-        height: template.height,
-        userId: user.id,
-        createdAt: template.createdAt,
-        updatedAt: new Date().toISOString(),
-      }
+      const savedTemplate = { ...template, updatedAt: new Date().toISOString() }
+      const templateData = toTemplateRecord(savedTemplate, user.id)
 
       await blink.db.templates.upsert(templateData, { onConflict: ['id'] })
+      await recordRevision(savedTemplate)
       if (!silent) {
         toast.success('Template saved successfully!')
-        onTemplateCreated(template)
+        if (close) onTemplateCreated(savedTemplate)
+        else onTemplateSaved(savedTemplate)
       }
     } catch (error) {
       console.error('Failed to save template:', error)
@@ -88,13 +264,25 @@ export function TemplateEditor({ user, onTemplateCreated, initialTemplate, onBac
     } finally {
       setIsSaving(false)
     }
-  }, [template, user, onTemplateCreated])
+  }, [template, user, onTemplateCreated, onTemplateSaved, recordRevision])
+
+  // Restores the design only; the template keeps its id and current name
+  const restoreRevision = useCallback((revision: TemplateRevision) => {
+    commitTemplate(prev => prev && {
+      ...revision.template,
+      id: prev.id,
+      name: prev.name,
+      createdAt: prev.createdAt,
+      updatedAt: new Date().toISOString()
+    }, 'Restore version')
+    setSelectedLayerIds([])
+  }, [commitTemplate])
 
   // Auto-save template when it changes
   useEffect(() => {
-    if (template && template.textLayers.length > 0) {
+    if (template && template.layers.length > 0) {
       const timeoutId = setTimeout(() => {
-        saveTemplate(true) // Auto-save silently
+        saveTemplate({ silent: true })
       }, 2000)
       return () => clearTimeout(timeoutId)
     }
@@ -105,14 +293,19 @@ export function TemplateEditor({ user, onTemplateCreated, initialTemplate, onBac
       id: `template-${Date.now()}`,
       name: 'Untitled Template',
       backgroundImage,
-      textLayers: [],
+      layers: [],
+      groups: [],
+      guides: [],
+      layoutGrid: DEFAULT_LAYOUT_GRID,
+      variableSchema: [],
+      print: DEFAULT_PRINT_SETTINGS,
       width,
       height,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     }
-    setTemplate(newTemplate)
-  }, [])
+    resetHistory(newTemplate, 'Created template')
+  }, [resetHistory])
 
   const processImageFile = useCallback((file: File) => {
     const reader = new FileReader()
@@ -122,14 +315,15 @@ export function TemplateEditor({ user, onTemplateCreated, initialTemplate, onBac
       const img = new Image()
       img.onload = () => {
         if (template) {
+          // Print templates keep their physical size and stretch the image over it
           const updatedTemplate = {
             ...template,
             backgroundImage: imageUrl,
-            width: img.width,
-            height: img.height,
+            width: template.print.enabled ? template.width : img.width,
+            height: template.print.enabled ? template.height : img.height,
             updatedAt: new Date().toISOString()
           }
-          setTemplate(updatedTemplate)
+          commitTemplate(updatedTemplate, 'Change background')
         } else {
           createNewTemplate(imageUrl, img.width, img.height)
         }
@@ -137,7 +331,7 @@ export function TemplateEditor({ user, onTemplateCreated, initialTemplate, onBac
       img.src = imageUrl
     }
     reader.readAsDataURL(file)
-  }, [template, createNewTemplate])
+  }, [template, commitTemplate, createNewTemplate])
 
   const handleBackgroundUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
@@ -175,6 +369,7 @@ export function TemplateEditor({ user, onTemplateCreated, initialTemplate, onBac
 
     const newLayer: TextLayer = {
       id: `layer-${Date.now()}`,
+      type: 'text',
       text: 'New Text',
       x: 100,
       y: 100,
@@ -202,162 +397,690 @@ export function TemplateEditor({ user, onTemplateCreated, initialTemplate, onBac
 
     const updatedTemplate = {
       ...template,
-      textLayers: [...template.textLayers, newLayer],
+      layers: [...template.layers, newLayer],
       updatedAt: new Date().toISOString()
     }
-    setTemplate(updatedTemplate)
-    setSelectedLayerId(newLayer.id)
-  }, [template])
+    commitTemplate(updatedTemplate, 'Add text layer')
+    setSelectedLayerIds([newLayer.id])
+  }, [template, commitTemplate])
+
+  const addImageLayer = useCallback(async (file: File) => {
+    if (!template) return
+
+    try {
+      const src = await readFileAsDataUrl(file)
+      const img = await loadImage(src)
+
+      // Start at no more than half the template size, keeping the aspect ratio
+      const maxSize = Math.min(template.width, template.height) / 2
+      const ratio = Math.min(maxSize / img.naturalWidth, maxSize / img.naturalHeight, 1)
+
+      const newLayer: ImageLayer = {
+        id: `layer-${Date.now()}`,
+        type: 'image',
+        src,
+        x: 100,
+        y: 100,
+        width: Math.round(img.naturalWidth * ratio),
+        height: Math.round(img.naturalHeight * ratio),
+        fit: 'cover',
+        borderRadius: 0,
+        isVariable: false,
+        opacity: 1,
+        rotation: 0
+      }
+
+      commitTemplate(prev => prev && {
+        ...prev,
+        layers: [...prev.layers, newLayer],
+        updatedAt: new Date().toISOString()
+      }, 'Add image layer')
+      setSelectedLayerIds([newLayer.id])
+    } catch (error) {
+      console.error('Failed to add image layer:', error)
+      toast.error('Failed to load image')
+    }
+  }, [template, commitTemplate])
+
+  const addShapeLayer = useCallback((preset: ShapePreset) => {
+    if (!template) return
+
+    const size = Math.round(Math.min(template.width, template.height) / 4)
+    const newLayer: ShapeLayer = {
+      id: `layer-${Date.now()}`,
+      type: 'shape',
+      shape: preset.shape,
+      x: 100,
+      y: 100,
+      width: preset.shape === 'line' ? size * 2 : size,
+      height: preset.shape === 'line' ? 0 : size,
+      fill: { enabled: true, color: '#3b82f6' },
+      gradient: { enabled: false, type: 'linear', color: '#8b5cf6', angle: 90 },
+      stroke: { enabled: preset.shape === 'line', color: '#000000', width: preset.shape === 'line' ? 4 : 2 },
+      cornerRadius: preset.cornerRadius ?? 0,
+      points: preset.points ?? 6,
+      innerRadius: preset.innerRadius ?? 1,
+      opacity: 1,
+      rotation: 0
+    }
 
-  const updateTextLayer = useCallback((layerId: string, updates: Partial<TextLayer>) => {
+    const updatedTemplate = {
+      ...template,
+      layers: [...template.layers, newLayer],
+      updatedAt: new Date().toISOString()
+    }
+    commitTemplate(updatedTemplate, `Add ${preset.label.toLowerCase()}`)
+    setSelectedLayerIds([newLayer.id])
+  }, [template, commitTemplate])
+
+  const handleImageLayerUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (file) addImageLayer(file)
+  }, [addImageLayer])
+
+  // Repeated changes to the same properties of a layer (slider drags, typing) are
+  // merged into one history step
+  const updateLayer = useCallback((layerId: string, updates: Partial<Layer>) => {
     if (!template) return
 
     const updatedTemplate = {
       ...template,
-      textLayers: template.textLayers.map(layer =>
-        layer.id === layerId ? { ...layer, ...updates } : layer
+      layers: template.layers.map(layer =>
+        layer.id === layerId ? { ...layer, ...updates } as Layer : layer
       ),
       updatedAt: new Date().toISOString()
     }
-    setTemplate(updatedTemplate)
-  }, [template])
+    commitTemplate(updatedTemplate, describeUpdate(updates), {
+      coalesceKey: `${layerId}:${Object.keys(updates).sort().join(',')}`
+    })
+  }, [template, commitTemplate])
 
-  const deleteTextLayer = useCallback((layerId: string) => {
+  // Recorded as its own history step (handle gestures, panel toggles), never merged with slider changes
+  const commitLayerUpdate = useCallback((layerId: string, updates: Partial<Layer>, label: string) => {
     if (!template) return
 
     const updatedTemplate = {
       ...template,
-      textLayers: template.textLayers.filter(layer => layer.id !== layerId),
+      layers: template.layers.map(layer =>
+        layer.id === layerId ? { ...layer, ...updates } as Layer : layer
+      ),
       updatedAt: new Date().toISOString()
     }
-    setTemplate(updatedTemplate)
-    setSelectedLayerId(null)
+    commitTemplate(updatedTemplate, label)
+  }, [template, commitTemplate])
+
+  // Inline editing works on static text; variable layers take their text from the data
+  const startTextEditing = useCallback((layerId: string) => {
+    const layer = template?.layers.find(candidate => candidate.id === layerId)
+    if (layer?.type !== 'text' || layer.isVariable || layer.hidden || layer.locked) return
+    setSelectedLayerIds([layerId])
+    setEditingTextId(layerId)
   }, [template])
 
-  // Enhanced drag and drop for text layers is now handled by framer-motion
+  const finishTextEditing = useCallback((spans: TextSpan[]) => {
+    const layer = template?.layers.find(candidate => candidate.id === editingTextId)
+    setEditingTextId(null)
+    if (layer?.type !== 'text') return
 
-  const autoArrangeTexts = useCallback(() => {
-    if (!template || template.textLayers.length === 0) return
+    const text = spansToText(spans)
+    const richSpans = hasRichText(spans) ? spans : undefined
+    if (text === layer.text && JSON.stringify(richSpans) === JSON.stringify(layer.spans)) return
+    commitLayerUpdate(layer.id, { text, spans: richSpans }, 'Edit text')
+  }, [template, editingTextId, commitLayerUpdate])
 
-    const padding = 40
-    const lineHeight = 60
-    let currentY = padding
+  // Moves a layer to a new index in the stacking order; the last layer is drawn on top
+  const reorderLayer = useCallback((layerId: string, toIndex: number, label: string) => {
+    if (!template) return
 
-    const updatedLayers = template.textLayers.map((layer, index) => {
-      const x = padding
-      const y = currentY + (index * lineHeight)
-      currentY = y
-      
-      return {
-        ...layer,
-        x,
-        y: Math.min(y, template.height - 50)
-      }
-    })
+    const fromIndex = template.layers.findIndex(layer => layer.id === layerId)
+    const target = Math.max(0, Math.min(toIndex, template.layers.length - 1))
+    if (fromIndex === -1 || fromIndex === target) return
+
+    const layers = [...template.layers]
+    const [moved] = layers.splice(fromIndex, 1)
+    layers.splice(target, 0, moved)
+    commitTemplate({ ...template, layers, updatedAt: new Date().toISOString() }, label)
+  }, [template, commitTemplate])
+
+  const arrangeLayer = useCallback((layerId: string, position: 'forward' | 'backward' | 'front' | 'back') => {
+    if (!template) return
+
+    const index = template.layers.findIndex(layer => layer.id === layerId)
+    if (position === 'forward') reorderLayer(layerId, index + 1, 'Bring forward')
+    if (position === 'backward') reorderLayer(layerId, index - 1, 'Send backward')
+    if (position === 'front') reorderLayer(layerId, template.layers.length - 1, 'Bring to front')
+    if (position === 'back') reorderLayer(layerId, 0, 'Send to back')
+  }, [template, reorderLayer])
+
+  // Keeps the text in place when switching between an anchor point and a box
+  const toggleTextBox = useCallback((layer: TextLayer, enabled: boolean) => {
+    const box = layerBoxes[layer.id]
+    if (!box) return
+
+    if (enabled) {
+      updateLayer(layer.id, {
+        x: box.x,
+        y: box.y,
+        textBox: {
+          width: Math.max(Math.round(box.width), 200),
+          height: 0,
+          maxLines: 0,
+          ellipsis: true,
+          shrinkToFit: false,
+          minFontSize: Math.min(12, layer.fontSize),
+          ...layer.textBox,
+          enabled: true
+        }
+      })
+    } else {
+      const anchorOffset = { left: 0, center: box.width / 2, right: box.width }[layer.textAlign]
+      updateLayer(layer.id, {
+        x: box.x + anchorOffset,
+        textBox: { ...layer.textBox!, enabled: false }
+      })
+    }
+  }, [layerBoxes, updateLayer])
+
+  const handleReplaceImage = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file || !selectedLayerId) return
+
+    try {
+      updateLayer(selectedLayerId, { src: await readFileAsDataUrl(file) })
+    } catch (error) {
+      console.error('Failed to replace image:', error)
+      toast.error('Failed to load image')
+    }
+  }, [selectedLayerId, updateLayer])
+
+  // Locked layers are kept, and stay selected
+  const deleteLayers = useCallback((layerIds: string[]) => {
+    if (!template) return
+    const deletedIds = template.layers.filter(layer => layerIds.includes(layer.id) && !layer.locked).map(layer => layer.id)
+    if (deletedIds.length === 0) return
 
+    const layers = template.layers.filter(layer => !deletedIds.includes(layer.id))
     const updatedTemplate = {
       ...template,
-      textLayers: updatedLayers,
+      layers,
+      groups: pruneGroups(template.groups, layers),
       updatedAt: new Date().toISOString()
     }
-    setTemplate(updatedTemplate)
-    toast.success('Text layers arranged automatically!')
+    commitTemplate(updatedTemplate, deletedIds.length > 1 ? `Delete ${deletedIds.length} layers` : 'Delete layer')
+    setSelectedLayerIds(prev => prev.filter(id => !deletedIds.includes(id)))
+  }, [template, commitTemplate])
+
+  // Layers in the same group are selected together
+  const withGroupMembers = useCallback((layerIds: string[]) => {
+    if (!template) return layerIds
+    const groupIds = new Set(
+      template.layers.filter(layer => layerIds.includes(layer.id) && layer.groupId).map(layer => layer.groupId)
+    )
+    return template.layers
+      .filter(layer => layerIds.includes(layer.id) || (layer.groupId && groupIds.has(layer.groupId)))
+      .map(layer => layer.id)
   }, [template])
 
-  const gridArrangeTexts = useCallback(() => {
-    if (!template || template.textLayers.length === 0) return
+  // Canvas clicks select the whole group, layer list clicks select a single layer.
+  // A plain press on a layer that is already selected keeps the selection so it can be dragged.
+  const selectLayer = useCallback((layerId: string, additive: boolean, includeGroup = true) => {
+    const ids = includeGroup ? withGroupMembers([layerId]) : [layerId]
+    setSelectedLayerIds(prev => {
+      if (!additive) return includeGroup && prev.includes(layerId) ? prev : ids
+      return prev.includes(layerId) ? prev.filter(id => !ids.includes(id)) : [...new Set([...prev, ...ids])]
+    })
+  }, [withGroupMembers])
 
-    const cols = Math.ceil(Math.sqrt(template.textLayers.length))
-    const rows = Math.ceil(template.textLayers.length / cols)
-    const cellWidth = (template.width - 80) / cols
-    const cellHeight = (template.height - 80) / rows
+  const moveLayers = useCallback((moves: LayerMoves, label: string, coalesceKey?: string) => {
+    if (!template || Object.keys(moves).length === 0) return
 
-    const updatedLayers = template.textLayers.map((layer, index) => {
-      const col = index % cols
-      const row = Math.floor(index / cols)
-      const x = 40 + (col * cellWidth) + (cellWidth / 4)
-      const y = 40 + (row * cellHeight) + (cellHeight / 2)
-      
-      return {
+    const updatedTemplate = {
+      ...template,
+      layers: template.layers.map(layer => {
+        const move = layer.locked ? undefined : moves[layer.id]
+        return move ? { ...layer, x: layer.x + move.dx, y: layer.y + move.dy } : layer
+      }),
+      updatedAt: new Date().toISOString()
+    }
+    commitTemplate(updatedTemplate, label, { coalesceKey })
+  }, [template, commitTemplate])
+
+  const selectedBoxes = useMemo(
+    () => Object.fromEntries(selectedLayerIds.filter(id => layerBoxes[id]).map(id => [id, layerBoxes[id]])),
+    [selectedLayerIds, layerBoxes]
+  )
+
+  // A single layer is aligned to the canvas, several layers to their common bounds
+  const alignSelection = useCallback((mode: AlignMode, label: string) => {
+    if (!template) return
+    const boxes = Object.values(selectedBoxes)
+    if (boxes.length === 0) return
+
+    const bounds = boxes.length === 1
+      ? { x: 0, y: 0, width: template.width, height: template.height }
+      : unionBoxes(boxes)
+    moveLayers(alignBoxes(selectedBoxes, bounds, mode), label)
+  }, [template, selectedBoxes, moveLayers])
+
+  const distributeSelection = useCallback((axis: DistributeAxis, label: string) => {
+    moveLayers(distributeBoxes(selectedBoxes, axis), label)
+  }, [selectedBoxes, moveLayers])
+
+  const groupSelection = useCallback(() => {
+    if (!template || selectedLayerIds.length < 2) return
+
+    const group: LayerGroup = { id: `group-${Date.now()}`, name: `Group ${template.groups.length + 1}` }
+    const layers = template.layers.map(layer =>
+      selectedLayerIds.includes(layer.id) ? { ...layer, groupId: group.id } : layer
+    )
+    const updatedTemplate = {
+      ...template,
+      layers,
+      groups: [...pruneGroups(template.groups, layers), group],
+      updatedAt: new Date().toISOString()
+    }
+    commitTemplate(updatedTemplate, 'Group layers')
+  }, [template, selectedLayerIds, commitTemplate])
+
+  const ungroupSelection = useCallback(() => {
+    if (!template) return
+
+    const layers = template.layers.map(layer =>
+      selectedLayerIds.includes(layer.id) ? { ...layer, groupId: undefined } : layer
+    )
+    const updatedTemplate = {
+      ...template,
+      layers,
+      groups: pruneGroups(template.groups, layers),
+      updatedAt: new Date().toISOString()
+    }
+    commitTemplate(updatedTemplate, 'Ungroup layers')
+  }, [template, selectedLayerIds, commitTemplate])
+
+  const renameGroup = useCallback((groupId: string, name: string) => {
+    if (!template) return
+
+    const updatedTemplate = {
+      ...template,
+      groups: template.groups.map(group => (group.id === groupId ? { ...group, name } : group)),
+      updatedAt: new Date().toISOString()
+    }
+    commitTemplate(updatedTemplate, 'Rename group', { coalesceKey: `${groupId}:name` })
+  }, [template, commitTemplate])
+
+  const toCanvasPoint = useCallback((event: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return { x: (event.clientX - rect.left) / scale, y: (event.clientY - rect.top) / scale }
+  }, [canvasRef, scale])
+
+  const handleCanvasPointerDown = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if ((event.target as HTMLElement).closest('[data-layer-handle]')) return
+
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const point = toCanvasPoint(event)
+    setMarquee({ startX: point.x, startY: point.y, x: point.x, y: point.y, additive: event.shiftKey })
+    if (!event.shiftKey) setSelectedLayerIds([])
+  }, [toCanvasPoint])
+
+  const handleCanvasPointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (!marquee) return
+    const point = toCanvasPoint(event)
+    setMarquee({ ...marquee, x: point.x, y: point.y })
+  }, [marquee, toCanvasPoint])
+
+  const handleCanvasPointerUp = useCallback(() => {
+    if (!marquee || !template) return
+
+    const left = Math.min(marquee.startX, marquee.x)
+    const top = Math.min(marquee.startY, marquee.y)
+    const right = Math.max(marquee.startX, marquee.x)
+    const bottom = Math.max(marquee.startY, marquee.y)
+
+    const hits = template.layers
+      .filter(layer => {
+        const box = layerBoxes[layer.id]
+        return box && !layer.hidden && !layer.locked && box.x < right && box.x + box.width > left && box.y < bottom && box.y + box.height > top
+      })
+      .map(layer => layer.id)
+
+    if (hits.length > 0) {
+      const ids = withGroupMembers(hits)
+      setSelectedLayerIds(prev => (marquee.additive ? [...new Set([...prev, ...ids])] : ids))
+    }
+    setMarquee(null)
+  }, [marquee, template, layerBoxes, withGroupMembers])
+
+  // Applies snapping to a drag offset of the given layers, moving them as one box
+  const snapDragOffset = useCallback((layerIds: string[], x: number, y: number) => {
+    const boxes = layerIds.map(id => layerBoxes[id]).filter(Boolean)
+    if (!template || !snapEnabled || boxes.length === 0) return { x, y, lines: {} }
+
+    const moving = unionBoxes(boxes)
+    const snap = snapBox(
+      { ...moving, x: moving.x + x, y: moving.y + y },
+      getSnapTargets(template, layerBoxes, layerIds),
+      SNAP_DISTANCE / scale
+    )
+    return { x: x + snap.dx, y: y + snap.dy, lines: { x: snap.lineX, y: snap.lineY } }
+  }, [template, layerBoxes, snapEnabled, scale])
+
+  const handleLayerDrag = useCallback((layerId: string, x: number, y: number) => {
+    const ids = selectedLayerIds.includes(layerId) ? selectedLayerIds : [layerId]
+    const snapped = snapDragOffset(ids, x, y)
+    setDragOffset({ ids, x: snapped.x, y: snapped.y })
+    setSnapLines(snapped.lines)
+  }, [selectedLayerIds, snapDragOffset])
+
+  const handleLayerDragEnd = useCallback((layerId: string, x: number, y: number) => {
+    const ids = selectedLayerIds.includes(layerId) ? selectedLayerIds : [layerId]
+    const snapped = snapDragOffset(ids, x, y)
+    setDragOffset(null)
+    setSnapLines({})
+    moveLayers(
+      Object.fromEntries(ids.map(id => [id, { dx: snapped.x, dy: snapped.y }])),
+      ids.length > 1 ? 'Move layers' : 'Move layer'
+    )
+  }, [selectedLayerIds, snapDragOffset, moveLayers])
+
+  const startGuideDrag = useCallback((event: React.PointerEvent<HTMLElement>, guide: Guide, isNew: boolean) => {
+    event.stopPropagation()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setGuideDrag({ guide, isNew })
+  }, [])
+
+  const handleGuidePointerMove = useCallback((event: React.PointerEvent) => {
+    if (!guideDrag) return
+    const point = toCanvasPoint(event)
+    const position = Math.round(guideDrag.guide.orientation === 'vertical' ? point.x : point.y)
+    setGuideDrag({ ...guideDrag, guide: { ...guideDrag.guide, position } })
+  }, [guideDrag, toCanvasPoint])
+
+  // Dropping a guide outside the canvas removes it
+  const handleGuidePointerUp = useCallback(() => {
+    if (!guideDrag || !template) return
+
+    const { guide, isNew } = guideDrag
+    const limit = guide.orientation === 'vertical' ? template.width : template.height
+    const inside = guide.position >= 0 && guide.position <= limit
+    const others = template.guides.filter(g => g.id !== guide.id)
+    setGuideDrag(null)
+
+    if (isNew && !inside) return
+    commitTemplate({
+      ...template,
+      guides: inside ? [...others, guide] : others,
+      updatedAt: new Date().toISOString()
+    }, isNew ? 'Add guide' : inside ? 'Move guide' : 'Remove guide')
+  }, [guideDrag, template, commitTemplate])
+
+  const clearGuides = useCallback(() => {
+    if (!template || template.guides.length === 0) return
+    commitTemplate({ ...template, guides: [], updatedAt: new Date().toISOString() }, 'Clear guides')
+  }, [template, commitTemplate])
+
+  const updateLayoutGrid = useCallback((updates: Partial<LayoutGrid>) => {
+    if (!template) return
+    commitTemplate({
+      ...template,
+      layoutGrid: { ...template.layoutGrid, ...updates },
+      updatedAt: new Date().toISOString()
+    }, 'Change layout grid', { coalesceKey: `layoutGrid:${Object.keys(updates).join(',')}` })
+  }, [template, commitTemplate])
+
+  // The canvas follows the trim size plus bleed; layers keep their pixel positions
+  const updatePrint = useCallback((updates: Partial<PrintSettings>) => {
+    if (!template) return
+    const print = updates.enabled && !template.print.enabled
+      ? { ...printSettingsForCanvas(template), ...updates }
+      : { ...template.print, ...updates }
+    commitTemplate({
+      ...template,
+      print,
+      ...(print.enabled ? getPrintCanvasSize(print) : {}),
+      updatedAt: new Date().toISOString()
+    }, 'Change print settings', { coalesceKey: `print:${Object.keys(updates).join(',')}` })
+  }, [template, commitTemplate])
+
+  const updateVariableDefinition = useCallback((definition: VariableDefinition, updates: Partial<VariableDefinition>) => {
+    if (!template) return
+    commitTemplate({
+      ...template,
+      variableSchema: [
+        ...template.variableSchema.filter(existing => existing.name !== definition.name),
+        { ...definition, ...updates }
+      ],
+      updatedAt: new Date().toISOString()
+    }, `Change variable ${definition.name}`, { coalesceKey: `variable:${definition.name}:${Object.keys(updates).join(',')}` })
+  }, [template, commitTemplate])
+
+  const visibleGuides = useMemo(() => {
+    if (!template) return []
+    if (!guideDrag) return template.guides
+    return [...template.guides.filter(guide => guide.id !== guideDrag.guide.id), guideDrag.guide]
+  }, [template, guideDrag])
+
+  // Copies are offset from the originals; fully selected groups are copied into new groups
+  const duplicateLayers = useCallback((layerIds: string[]) => {
+    if (!template || layerIds.length === 0) return
+
+    const stamp = Date.now()
+    const copiedGroups = template.groups
+      .filter(group => template.layers.filter(layer => layer.groupId === group.id).every(layer => layerIds.includes(layer.id)))
+      .map((group, i) => ({ source: group.id, group: { id: `group-${stamp}-${i}`, name: `${group.name} Copy` } }))
+
+    const copies = template.layers
+      .filter(layer => layerIds.includes(layer.id))
+      .map((layer, i) => ({
         ...layer,
-        x: Math.min(x, template.width - 100),
-        y: Math.min(y, template.height - 50)
-      }
-    })
+        id: `layer-${stamp}-${i}`,
+        x: layer.x + 20,
+        y: layer.y + 20,
+        groupId: copiedGroups.find(copy => copy.source === layer.groupId)?.group.id
+      }))
 
     const updatedTemplate = {
       ...template,
-      textLayers: updatedLayers,
+      layers: [...template.layers, ...copies],
+      groups: [...template.groups, ...copiedGroups.map(copy => copy.group)],
       updatedAt: new Date().toISOString()
     }
-    setTemplate(updatedTemplate)
-    toast.success('Text layers arranged in grid!')
-  }, [template])
+    commitTemplate(updatedTemplate, copies.length > 1 ? `Duplicate ${copies.length} layers` : 'Duplicate layer')
+    setSelectedLayerIds(copies.map(copy => copy.id))
+  }, [template, commitTemplate])
 
-  const exportImage = async () => {
-    if (!template || !canvasRef.current) return
+  const exportImage = useCallback(async () => {
+    if (!template) return
 
     try {
-      const canvas = document.createElement('canvas')
-      const ctx = canvas.getContext('2d')
-      if (!ctx) return
-
-      canvas.width = template.width
-      canvas.height = template.height
-
-      if (template.backgroundImage) {
-        const img = new Image()
-        img.onload = () => {
-          ctx.drawImage(img, 0, 0, template.width, template.height)
-          
-          template.textLayers.forEach(layer => {
-            ctx.save()
-            
-            ctx.translate(layer.x, layer.y + layer.fontSize)
-            ctx.rotate((layer.rotation || 0) * Math.PI / 180)
-            ctx.globalAlpha = layer.opacity || 1
-            
-            ctx.font = `${layer.fontWeight} ${layer.fontSize}px "${layer.fontFamily}"`
-            ctx.fillStyle = layer.color
-            ctx.textAlign = layer.textAlign as CanvasTextAlign
-            
-            if (layer.textShadow?.enabled) {
-              ctx.shadowColor = layer.textShadow.color
-              ctx.shadowOffsetX = layer.textShadow.offsetX
-              ctx.shadowOffsetY = layer.textShadow.offsetY
-              ctx.shadowBlur = layer.textShadow.blur
-            }
-            
-            if (layer.textStroke?.enabled) {
-              ctx.strokeStyle = layer.textStroke.color
-              ctx.lineWidth = layer.textStroke.width
-              ctx.strokeText(layer.isVariable ? `{{${layer.variableName || layer.text}}}` : layer.text, 0, 0)
-            }
-            
-            const text = layer.isVariable ? `{{${layer.variableName || layer.text}}}` : layer.text
-            ctx.fillText(text, 0, 0)
-            
-            ctx.restore()
-          })
-
-          canvas.toBlob((blob) => {
-            if (blob) {
-              const url = URL.createObjectURL(blob)
-              const a = document.createElement('a')
-              a.href = url
-              a.download = `${template.name}.png`
-              a.click()
-              URL.revokeObjectURL(url)
-            }
-          })
-        }
-        img.src = template.backgroundImage
-      }
+      const blob = await exportTemplate(template, undefined, exportOptions)
+      downloadBlob(blob, exportFilename(template.name, exportOptions))
     } catch (error) {
       console.error('Failed to export image:', error)
       toast.error('Failed to export image')
     }
-  }
+  }, [template, exportOptions])
+
+  const togglePalette = useCallback(() => setPaletteOpen(open => !open), [])
+  const clearSelection = useCallback(() => setSelectedLayerIds([]), [])
+
+  const spaceHeld = useEditorShortcuts({
+    selectedLayerIds,
+    selectedLayer,
+    canvasAreaRef,
+    pointerOverCanvasRef,
+    save: saveTemplate,
+    togglePalette,
+    zoomTo: viewport.zoomTo,
+    zoomIn: viewport.zoomIn,
+    zoomOut: viewport.zoomOut,
+    undo,
+    redo,
+    duplicateLayers,
+    groupSelection,
+    ungroupSelection,
+    arrangeLayer,
+    deleteLayers,
+    moveLayers,
+    startTextEditing,
+    clearSelection
+  })
+
+  const commands: EditorCommand[] = [
+    { id: 'add-text', group: 'Layers', label: 'Add text layer', icon: Plus, run: addTextLayer },
+    { id: 'add-image', group: 'Layers', label: 'Add image layer', icon: ImageIcon, run: () => imageInputRef.current?.click() },
+    ...SHAPE_PRESETS.map(preset => ({
+      id: `add-${preset.label}`,
+      group: 'Layers',
+      label: `Add ${preset.label.toLowerCase()}`,
+      icon: Shapes,
+      keywords: ['shape'],
+      run: () => addShapeLayer(preset)
+    })),
+    {
+      id: 'duplicate',
+      group: 'Layers',
+      label: 'Duplicate selection',
+      shortcut: 'Ctrl+D',
+      icon: Copy,
+      disabled: selectedLayerIds.length === 0,
+      run: () => duplicateLayers(selectedLayerIds)
+    },
+    {
+      id: 'delete',
+      group: 'Layers',
+      label: 'Delete selection',
+      shortcut: 'Del',
+      icon: Trash2,
+      disabled: selectedLayerIds.length === 0,
+      run: () => deleteLayers(selectedLayerIds)
+    },
+    {
+      id: 'select-all',
+      group: 'Layers',
+      label: 'Select all layers',
+      icon: MousePointer2,
+      run: () => setSelectedLayerIds(template?.layers.map(layer => layer.id) ?? [])
+    },
+    {
+      id: 'group',
+      group: 'Layers',
+      label: 'Group selection',
+      shortcut: 'Ctrl+G',
+      icon: Group,
+      disabled: selectedLayerIds.length < 2,
+      run: groupSelection
+    },
+    {
+      id: 'ungroup',
+      group: 'Layers',
+      label: 'Ungroup selection',
+      shortcut: 'Ctrl+Shift+G',
+      icon: Ungroup,
+      disabled: selectedLayerIds.length === 0,
+      run: ungroupSelection
+    },
+    {
+      id: 'edit-text',
+      group: 'Layers',
+      label: 'Edit text on canvas',
+      shortcut: 'Enter',
+      icon: Pencil,
+      disabled: selectedLayer?.type !== 'text' || selectedLayer.isVariable,
+      run: () => selectedLayer && startTextEditing(selectedLayer.id)
+    },
+    {
+      id: 'toggle-hidden',
+      group: 'Layers',
+      label: selectedLayer?.hidden ? 'Show layer' : 'Hide layer',
+      icon: selectedLayer?.hidden ? Eye : EyeOff,
+      disabled: !selectedLayer,
+      run: () => selectedLayer && commitLayerUpdate(
+        selectedLayer.id,
+        { hidden: !selectedLayer.hidden },
+        selectedLayer.hidden ? 'Show layer' : 'Hide layer'
+      )
+    },
+    {
+      id: 'toggle-locked',
+      group: 'Layers',
+      label: selectedLayer?.locked ? 'Unlock layer' : 'Lock layer',
+      icon: selectedLayer?.locked ? LockOpen : Lock,
+      disabled: !selectedLayer,
+      run: () => selectedLayer && commitLayerUpdate(
+        selectedLayer.id,
+        { locked: !selectedLayer.locked },
+        selectedLayer.locked ? 'Unlock layer' : 'Lock layer'
+      )
+    },
+    ...([
+      { position: 'front', label: 'Bring to front', shortcut: 'Ctrl+Shift+]', icon: ChevronsUp },
+      { position: 'forward', label: 'Bring forward', shortcut: 'Ctrl+]', icon: ArrowUp },
+      { position: 'backward', label: 'Send backward', shortcut: 'Ctrl+[', icon: ArrowDown },
+      { position: 'back', label: 'Send to back', shortcut: 'Ctrl+Shift+[', icon: ChevronsDown }
+    ] as const).map(({ position, label, shortcut, icon }) => ({
+      id: `arrange-${position}`,
+      group: 'Arrange',
+      label,
+      shortcut,
+      icon,
+      disabled: !selectedLayerId,
+      run: () => selectedLayerId && arrangeLayer(selectedLayerId, position)
+    })),
+    ...ALIGN_ACTIONS.map(({ mode, label, icon }) => ({
+      id: `align-${mode}`,
+      group: 'Arrange',
+      label,
+      icon,
+      disabled: selectedLayerIds.length === 0,
+      run: () => alignSelection(mode, label)
+    })),
+    ...DISTRIBUTE_ACTIONS.map(({ axis, label, icon }) => ({
+      id: `distribute-${axis}`,
+      group: 'Arrange',
+      label,
+      icon,
+      disabled: selectedLayerIds.length < 3,
+      run: () => distributeSelection(axis, label)
+    })),
+    { id: 'undo', group: 'Edit', label: 'Undo', shortcut: 'Ctrl+Z', icon: Undo2, disabled: !history.canUndo, run: undo },
+    { id: 'redo', group: 'Edit', label: 'Redo', shortcut: 'Ctrl+Shift+Z', icon: Redo2, disabled: !history.canRedo, run: redo },
+    ...(['content', 'style', 'effects'] as const).map(tab => ({
+      id: `tab-${tab}`,
+      group: 'View',
+      label: `Show ${tab} properties`,
+      icon: SlidersHorizontal,
+      keywords: ['tab'],
+      disabled: !selectedLayer,
+      run: () => setPropertiesTab(tab)
+    })),
+    { id: 'rulers', group: 'View', label: showRulers ? 'Hide rulers' : 'Show rulers', run: () => setShowRulers(!showRulers) },
+    { id: 'snap', group: 'View', label: snapEnabled ? 'Turn snapping off' : 'Turn snapping on', run: () => setSnapEnabled(!snapEnabled) },
+    {
+      id: 'layout-grid',
+      group: 'View',
+      label: template?.layoutGrid.enabled ? 'Hide column grid' : 'Show column grid',
+      run: () => updateLayoutGrid({ enabled: !template?.layoutGrid.enabled })
+    },
+    { id: 'zoom-fit', group: 'View', label: 'Zoom to fit', shortcut: 'Ctrl+0', icon: Maximize, run: () => viewport.zoomTo('fit') },
+    ...[0.5, 1, 2].map(zoom => ({
+      id: `zoom-${zoom}`,
+      group: 'View',
+      label: `Zoom to ${zoom * 100}%`,
+      shortcut: zoom === 1 ? 'Ctrl+1' : undefined,
+      icon: Search,
+      run: () => viewport.zoomTo(zoom)
+    })),
+    { id: 'zoom-in', group: 'View', label: 'Zoom in', shortcut: 'Ctrl+=', icon: ZoomIn, run: viewport.zoomIn },
+    { id: 'zoom-out', group: 'View', label: 'Zoom out', shortcut: 'Ctrl+-', icon: ZoomOut, run: viewport.zoomOut },
+    { id: 'clear-guides', group: 'View', label: 'Clear guides', disabled: !template?.guides.length, run: clearGuides },
+    { id: 'save', group: 'Template', label: 'Save template', shortcut: 'Ctrl+S', icon: Save, run: () => saveTemplate() },
+    { id: 'export', group: 'Template', label: 'Export image', icon: Download, run: exportImage },
+    { id: 'versions', group: 'Template', label: 'Show version history', icon: Clock, disabled: !user, run: () => setVersionsOpen(true) },
+    { id: 'background', group: 'Template', label: 'Change background', icon: Upload, run: () => fileInputRef.current?.click() },
+    { id: 'gallery', group: 'Template', label: 'Back to gallery', icon: ArrowLeft, run: onBackToGallery }
+  ]
 
   if (!template) {
     return (
@@ -388,6 +1111,8 @@ export function TemplateEditor({ user, onTemplateCreated, initialTemplate, onBac
 
   return (
     <div className="flex h-full gap-6">
+      <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} commands={commands} />
+
       {/* Canvas Area */}
       <div className="flex-1 flex flex-col">
         <div className="flex items-center justify-between mb-4">
@@ -397,113 +1122,291 @@ export function TemplateEditor({ user, onTemplateCreated, initialTemplate, onBac
             </Button>
             <Input
               value={template.name}
-              onChange={(e) => setTemplate({ ...template, name: e.target.value })}
+              onChange={(e) => commitTemplate({ ...template, name: e.target.value }, 'Rename template', { coalesceKey: 'name' })}
               className="text-xl font-semibold border-none p-0 h-auto bg-transparent focus:ring-0"
               placeholder="Template name..."
             />
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" onClick={() => autoArrangeTexts()} size="sm">
-              <Shuffle className="w-4 h-4 mr-2" />
-              Auto Arrange
+            <Button variant="outline" size="icon" onClick={() => setPaletteOpen(true)} title="Command palette (Ctrl+K)">
+              <Search className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="w-4 h-4" />
             </Button>
-            <Button variant="outline" onClick={() => gridArrangeTexts()} size="sm">
-              <Grid3X3 className="w-4 h-4 mr-2" />
-              Grid Layout
+            <Button variant="outline" size="icon" onClick={redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="w-4 h-4" />
             </Button>
-            <Button variant="outline" onClick={() => saveTemplate()} disabled={isSaving}>
+            <div className="flex gap-1 mr-2">
+              {ALIGN_ACTIONS.map(({ mode, label, icon: Icon }) => (
+                <Button
+                  key={mode}
+                  variant="outline"
+                  size="icon"
+                  onClick={() => alignSelection(mode, label)}
+                  disabled={selectedLayerIds.length === 0}
+                  title={label}
+                >
+                  <Icon className="w-4 h-4" />
+                </Button>
+              ))}
+              {DISTRIBUTE_ACTIONS.map(({ axis, label, icon: Icon }) => (
+                <Button
+                  key={axis}
+                  variant="outline"
+                  size="icon"
+                  onClick={() => distributeSelection(axis, label)}
+                  disabled={selectedLayerIds.length < 3}
+                  title={label}
+                >
+                  <Icon className="w-4 h-4" />
+                </Button>
+              ))}
+            </div>
+            {user && (
+              <VersionHistory
+                template={template}
+                userId={user.id}
+                open={versionsOpen}
+                onOpenChange={setVersionsOpen}
+                onRestore={restoreRevision}
+              />
+            )}
+            <Button variant="outline" onClick={() => saveTemplate({ close: true })} disabled={isSaving}>
               <Save className="w-4 h-4 mr-2" />
               {isSaving ? 'Saving...' : 'Save'}
             </Button>
-            <Button onClick={exportImage}>
-              <Download className="w-4 h-4 mr-2" />
-              Export
-            </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-72 space-y-4">
+                <ExportSettings template={template} options={exportOptions} onChange={setExportOptions} />
+                <Button className="w-full" onClick={exportImage}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </Button>
+              </PopoverContent>
+            </Popover>
           </div>
         </div>
 
-        <div className="flex-1 bg-white rounded-lg border shadow-sm overflow-auto p-4">
-          <div className="flex items-center justify-center min-h-full">
-            <div
-              ref={canvasRef}
-              className="relative bg-gray-100 shadow-lg cursor-crosshair"
-              style={{
-                width: Math.min(template.width, 800),
-                height: Math.min(template.height, (template.height / template.width) * 800),
-                maxWidth: '100%'
-              }}
-            >
-              {/* Background Image */}
-              {template.backgroundImage && (
-                <img
-                  src={template.backgroundImage}
-                  alt="Background"
-                  className="absolute inset-0 w-full h-full object-cover"
-                  draggable={false}
-                />
-              )}
+        <div
+          ref={canvasAreaRef}
+          className="relative flex-1 min-h-[480px] h-[calc(100vh-14rem)]"
+          onPointerEnter={() => { pointerOverCanvasRef.current = true }}
+          onPointerLeave={() => { pointerOverCanvasRef.current = false }}
+        >
+          <div
+            ref={viewport.viewportRef}
+            tabIndex={-1}
+            className="absolute inset-0 bg-white rounded-lg border shadow-sm overflow-auto outline-none"
+          >
+            <div className="flex min-w-full min-h-full w-max p-4">
+              <div className="relative m-auto" style={showRulers ? { paddingLeft: RULER_SIZE, paddingTop: RULER_SIZE } : undefined}>
+                {showRulers && (
+                  <>
+                    <Ruler
+                      orientation="horizontal"
+                      length={template.width}
+                      scale={scale}
+                      size={RULER_SIZE}
+                      className="top-0 border-b"
+                      style={{ left: RULER_SIZE }}
+                      onPointerDown={(e) => startGuideDrag(e, {
+                        id: `guide-${Date.now()}`,
+                        orientation: 'horizontal',
+                        position: Math.round(toCanvasPoint(e).y)
+                      }, true)}
+                      onPointerMove={handleGuidePointerMove}
+                      onPointerUp={handleGuidePointerUp}
+                    />
+                    <Ruler
+                      orientation="vertical"
+                      length={template.height}
+                      scale={scale}
+                      size={RULER_SIZE}
+                      className="left-0 border-r"
+                      style={{ top: RULER_SIZE }}
+                      onPointerDown={(e) => startGuideDrag(e, {
+                        id: `guide-${Date.now()}`,
+                        orientation: 'vertical',
+                        position: Math.round(toCanvasPoint(e).x)
+                      }, true)}
+                      onPointerMove={handleGuidePointerMove}
+                      onPointerUp={handleGuidePointerUp}
+                    />
+                  </>
+                )}
+                <div
+                  ref={canvasRef}
+                  className="relative bg-gray-100 shadow-lg cursor-crosshair"
+                  style={{
+                    width: template.width * scale,
+                    height: template.height * scale
+                  }}
+                  onPointerDown={handleCanvasPointerDown}
+                  onPointerMove={handleCanvasPointerMove}
+                  onPointerUp={handleCanvasPointerUp}
+                >
+                  <TemplateCanvas template={displayTemplate ?? template} scale={scale} offsets={dragOffsets} />
+
+                  {template.layoutGrid.enabled && getGridColumns(template.width, template.layoutGrid).map((column, i) => (
+                    <div
+                      key={i}
+                      className="absolute top-0 bottom-0 bg-rose-500/10 border-x border-rose-500/20 pointer-events-none"
+                      style={{ left: column.x * scale, width: column.width * scale }}
+                    />
+                  ))}
+
+                  {/* Bleed zone outside the trim line, and the safe area inside it */}
+                  {printBoxes && (
+                    <>
+                      <div
+                        className="absolute inset-0 border-rose-500/15 pointer-events-none"
+                        style={{ borderWidth: printBoxes.trim.x * scale }}
+                      />
+                      <div
+                        className="absolute border border-rose-500 pointer-events-none"
+                        style={{
+                          left: printBoxes.trim.x * scale,
+                          top: printBoxes.trim.y * scale,
+                          width: printBoxes.trim.width * scale,
+                          height: printBoxes.trim.height * scale
+                        }}
+                      />
+                      <div
+                        className="absolute border border-dashed border-sky-500 pointer-events-none"
+                        style={{
+                          left: printBoxes.safe.x * scale,
+                          top: printBoxes.safe.y * scale,
+                          width: printBoxes.safe.width * scale,
+                          height: printBoxes.safe.height * scale
+                        }}
+                      />
+                    </>
+                  )}
 
-              {/* Text Layers */}
-              <div
-                className="absolute inset-0"
-                style={{
-                  transform: `scale(${Math.min(800 / template.width, 1)})`,
-                  transformOrigin: 'top left'
-                }}
-              >
-                {template.textLayers.map((layer) => {
-                  const textShadow = layer.textShadow?.enabled 
-                    ? `${layer.textShadow.offsetX}px ${layer.textShadow.offsetY}px ${layer.textShadow.blur}px ${layer.textShadow.color}`
-                    : 'none'
-                  
-                  const textStroke = layer.textStroke?.enabled
-                    ? `-webkit-text-stroke: ${layer.textStroke.width}px ${layer.textStroke.color};`
-                    : ''
-
-                  return (
-                    <motion.div
+                  {/* Layer handles, positioned in display pixels */}
+                  {template.layers.filter(layer => !layer.hidden && !layer.locked && layer.id !== editingTextId).map((layer) => (
+                    <LayerHandle
                       key={layer.id}
-                      drag
-                      dragMomentum={false}
-                      dragConstraints={canvasRef}
-                      onDragEnd={(_event, info) => {
-                        const scale = Math.min(800 / template.width, 1)
-                        updateTextLayer(layer.id, { 
-                          x: layer.x + info.offset.x / scale,
-                          y: layer.y + info.offset.y / scale
-                        })
-                      }}
-                      className={`absolute cursor-move select-none transition-all duration-200 hover:scale-105 ${ 
-                        selectedLayerId === layer.id 
-                          ? 'ring-2 ring-primary ring-offset-2 bg-primary/10' 
-                          : 'hover:ring-1 hover:ring-gray-300 hover:bg-gray-50/50'
-                      }`}
+                      layer={layer}
+                      box={layerBoxes[layer.id]}
+                      scale={scale}
+                      isSelected={selectedLayerIds.includes(layer.id)}
+                      constraintsRef={canvasRef}
+                      onSelect={(additive) => selectLayer(layer.id, additive)}
+                      onEdit={() => startTextEditing(layer.id)}
+                      onDrag={(x, y) => handleLayerDrag(layer.id, x, y)}
+                      onDragEnd={(x, y) => handleLayerDragEnd(layer.id, x, y)}
+                    />
+                  ))}
+
+                  {marquee && (
+                    <div
+                      className="absolute border border-primary bg-primary/10 pointer-events-none"
                       style={{
-                        left: layer.x,
-                        top: layer.y,
-                        fontSize: layer.fontSize,
-                        fontFamily: `"${layer.fontFamily}", sans-serif`,
-                        color: layer.color,
-                        fontWeight: layer.fontWeight,
-                        textAlign: layer.textAlign,
-                        textShadow,
-                        opacity: layer.opacity || 1,
-                        transform: `rotate(${layer.rotation || 0}deg)`,
-                        padding: '4px 8px',
-                        borderRadius: '4px',
-                        minWidth: '50px',
-                        minHeight: '30px',
-                        ...textStroke && { WebkitTextStroke: `${layer.textStroke?.width}px ${layer.textStroke?.color}` }
+                        left: Math.min(marquee.startX, marquee.x) * scale,
+                        top: Math.min(marquee.startY, marquee.y) * scale,
+                        width: Math.abs(marquee.x - marquee.startX) * scale,
+                        height: Math.abs(marquee.y - marquee.startY) * scale
                       }}
-                      onClick={() => setSelectedLayerId(layer.id)}
-                    >
-                      {layer.isVariable ? `{{${layer.variableName || layer.text}}}` : layer.text}
-                    </motion.div>
-                  )
-                })}
+                    />
+                  )}
+
+                  {selectedLayer?.type === 'text' && selectedLayer.id === editingTextId && layerBoxes[selectedLayer.id] && (
+                    <InlineTextEditor
+                      key={selectedLayer.id}
+                      layer={selectedLayer}
+                      box={layerBoxes[selectedLayer.id]}
+                      scale={scale}
+                      fonts={PREMIUM_FONTS.map(font => font.name)}
+                      variableNames={templateVariableNames}
+                      onCommit={finishTextEditing}
+                      onCancel={() => setEditingTextId(null)}
+                    />
+                  )}
+
+                  {selectedLayer && !selectedLayer.hidden && !selectedLayer.locked && !dragOffset && selectedLayer.id !== editingTextId && layerBoxes[selectedLayer.id] && (
+                    <TransformHandles
+                      layer={displayTemplate?.layers.find(layer => layer.id === selectedLayer.id) ?? selectedLayer}
+                      box={layerBoxes[selectedLayer.id]}
+                      scale={scale}
+                      getPoint={toCanvasPoint}
+                      onPreview={(updates) => setTransformPreview(updates && { id: selectedLayer.id, updates })}
+                      onCommit={(updates, label) => commitLayerUpdate(selectedLayer.id, updates, label)}
+                    />
+                  )}
+
+                  {/* Guides sit above the layer handles so they can be grabbed */}
+                  {visibleGuides.map((guide) => {
+                    const vertical = guide.orientation === 'vertical'
+                    return (
+                      <div
+                        key={guide.id}
+                        className="absolute z-10 flex justify-center items-center"
+                        style={vertical
+                          ? { left: guide.position * scale - 3, top: 0, bottom: 0, width: 7, cursor: 'col-resize' }
+                          : { top: guide.position * scale - 3, left: 0, right: 0, height: 7, cursor: 'row-resize' }}
+                        onPointerDown={(e) => startGuideDrag(e, guide, false)}
+                        onPointerMove={handleGuidePointerMove}
+                        onPointerUp={handleGuidePointerUp}
+                        title="Drag to move, drag off the canvas to remove"
+                      >
+                        <div className={`bg-cyan-500 ${vertical ? 'w-px h-full' : 'h-px w-full'}`} />
+                      </div>
+                    )
+                  })}
+
+                  {snapLines.x !== undefined && (
+                    <div className="absolute top-0 bottom-0 w-px bg-fuchsia-500 pointer-events-none" style={{ left: snapLines.x * scale }} />
+                  )}
+                  {snapLines.y !== undefined && (
+                    <div className="absolute left-0 right-0 h-px bg-fuchsia-500 pointer-events-none" style={{ top: snapLines.y * scale }} />
+                  )}
+                </div>
               </div>
             </div>
           </div>
+
+          {/* Space + drag pans the viewport */}
+          {spaceHeld && (
+            <div
+              className="absolute inset-0 z-40 cursor-grab active:cursor-grabbing"
+              onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId)
+                panPointRef.current = { x: e.clientX, y: e.clientY }
+              }}
+              onPointerMove={(e) => {
+                if (!panPointRef.current) return
+                viewport.panBy(panPointRef.current.x - e.clientX, panPointRef.current.y - e.clientY)
+                panPointRef.current = { x: e.clientX, y: e.clientY }
+              }}
+              onPointerUp={() => {
+                panPointRef.current = null
+              }}
+            />
+          )}
+
+          <div className="absolute bottom-3 left-3 z-30 rounded-md bg-white/90 p-1 shadow">
+            <ZoomControls
+              zoom={viewport.zoom}
+              scale={scale}
+              onZoom={(zoom) => viewport.zoomTo(zoom)}
+              onZoomIn={viewport.zoomIn}
+              onZoomOut={viewport.zoomOut}
+            />
+          </div>
+
+          {viewport.isOverflowing && viewport.visibleRegion && (
+            <div className="absolute bottom-3 right-3 z-30">
+              <Minimap template={template} visibleRegion={viewport.visibleRegion} onNavigate={viewport.centerOn} />
+            </div>
+          )}
         </div>
       </div>
 
@@ -536,337 +1439,112 @@ export function TemplateEditor({ user, onTemplateCreated, initialTemplate, onBac
           </CardContent>
         </Card>
 
-        {/* Text Layers */}
+        <PrintPanel print={template.print} onChange={updatePrint} />
+
+        <GuidesPanel
+          guideCount={template.guides.length}
+          layoutGrid={template.layoutGrid}
+          showRulers={showRulers}
+          snapEnabled={snapEnabled}
+          onShowRulersChange={setShowRulers}
+          onSnapEnabledChange={setSnapEnabled}
+          onClearGuides={clearGuides}
+          onLayoutGridChange={updateLayoutGrid}
+        />
+
+        {/* Variables */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-sm flex items-center justify-between">
-              Text Layers ({template.textLayers.length})
-              <Button size="sm" onClick={addTextLayer}>
-                <Plus className="w-4 h-4" />
-              </Button>
-            </CardTitle>
+            <CardTitle className="text-sm">Variables ({variableDefinitions.length})</CardTitle>
           </CardHeader>
-          <CardContent className="space-y-2">
-            {template.textLayers.map((layer, index) => (
-              <div
-                key={layer.id}
-                className={`p-3 rounded border cursor-pointer transition-all duration-200 ${ 
-                  selectedLayerId === layer.id 
-                    ? 'border-primary bg-primary/5 shadow-sm' 
-                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                }`}
-                onClick={() => setSelectedLayerId(layer.id)}
-              >
-                <div className="flex items-center justify-between">
-                  <div className="flex-1 min-w-0">
-                    <div className="text-sm font-medium truncate">
-                      {layer.isVariable ? `{{${layer.variableName || layer.text}}}` : layer.text}
-                    </div>
-                    <div className="text-xs text-gray-500 mt-1">
-                      {layer.fontFamily} • {layer.fontSize}px
-                    </div>
-                  </div>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      deleteTextLayer(layer.id)
-                    }}
-                  >
-                    <Trash2 className="w-3 h-3" />
-                  </Button>
-                </div>
-              </div>
-            ))}
-            {template.textLayers.length === 0 && (
-              <p className="text-sm text-gray-500 text-center py-4">
-                No text layers yet. Click + to add one.
-              </p>
-            )}
+          <CardContent>
+            <VariableSchemaEditor definitions={variableDefinitions} onChange={updateVariableDefinition} />
           </CardContent>
         </Card>
 
-        {/* Layer Properties */}
-        {selectedLayer && (
+        <LayerPanel
+          template={template}
+          selectedLayerIds={selectedLayerIds}
+          onSelect={(layerId, additive) => selectLayer(layerId, additive, false)}
+          onUpdate={commitLayerUpdate}
+          onArrange={arrangeLayer}
+          onReorder={(layerId, toIndex) => reorderLayer(layerId, toIndex, 'Reorder layers')}
+          onDuplicate={duplicateLayers}
+          onDelete={deleteLayers}
+          onAddText={addTextLayer}
+          onAddImage={() => imageInputRef.current?.click()}
+          onAddShape={addShapeLayer}
+        />
+        <input
+          ref={imageInputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleImageLayerUpload}
+          className="hidden"
+        />
+        <input
+          ref={replaceImageInputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleReplaceImage}
+          className="hidden"
+        />
+
+        {/* Multi-selection */}
+        {selectedLayerIds.length > 1 && (
           <Card>
             <CardHeader>
-              <CardTitle className="text-sm">Layer Properties</CardTitle>
+              <CardTitle className="text-sm">{selectedLayerIds.length} Layers Selected</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <Tabs defaultValue="content" className="w-full">
-                <TabsList className="grid w-full grid-cols-3">
-                  <TabsTrigger value="content">Content</TabsTrigger>
-                  <TabsTrigger value="style">Style</TabsTrigger>
-                  <TabsTrigger value="effects">Effects</TabsTrigger>
-                </TabsList>
-                
-                <TabsContent value="content" className="space-y-4">
-                  <div>
-                    <Label htmlFor="text">Text</Label>
-                    <Input
-                      id="text"
-                      value={selectedLayer.text}
-                      onChange={(e) => updateTextLayer(selectedLayer.id, { text: e.target.value })}
-                    />
-                  </div>
-                  
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      checked={selectedLayer.isVariable}
-                      onCheckedChange={(checked) => updateTextLayer(selectedLayer.id, { isVariable: checked })}
-                    />
-                    <Label>Make Variable</Label>
-                  </div>
-                  
-                  {selectedLayer.isVariable && (
-                    <div>
-                      <Label htmlFor="variableName">Variable Name</Label>
-                      <Input
-                        id="variableName"
-                        value={selectedLayer.variableName || ''}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateTextLayer(selectedLayer.id, { variableName: e.target.value })}
-                        placeholder="e.g., name, title, date"
-                      />
-                    </div>
-                  )}
-                </TabsContent>
-                
-                <TabsContent value="style" className="space-y-4">
-                  <div>
-                    <Label>Font Size: {selectedLayer.fontSize}px</Label>
-                    <Slider
-                      value={[selectedLayer.fontSize]}
-                      onValueChange={([value]: number[]) => updateTextLayer(selectedLayer.id, { fontSize: value })}
-                      min={12}
-                      max={120}
-                      step={1}
-                      className="mt-2"
-                    />
-                  </div>
-                  
-                  <div>
-                    <Label htmlFor="fontFamily">Font Family</Label>
-                    <Select
-                      value={selectedLayer.fontFamily}
-                      onValueChange={(value: string) => updateTextLayer(selectedLayer.id, { fontFamily: value })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-60">
-                        {PREMIUM_FONTS.map((font) => (
-                          <SelectItem key={font.name} value={font.name}>
-                            <div className="flex items-center justify-between w-full">
-                              <span style={{ fontFamily: `"${font.name}", sans-serif` }}>
-                                {font.name}
-                              </span>
-                              <span className="text-xs text-gray-500 ml-2">
-                                {font.category}
-                              </span>
-                            </div>
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  
-                  <div>
-                    <Label htmlFor="color">Color</Label>
-                    <Input
-                      id="color"
-                      type="color"
-                      value={selectedLayer.color}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateTextLayer(selectedLayer.id, { color: e.target.value })}
-                      className="h-10"
-                    />
-                  </div>
-                  
-                  <div>
-                    <Label htmlFor="fontWeight">Font Weight</Label>
-                    <Select
-                      value={selectedLayer.fontWeight}
-                      onValueChange={(value: 'normal' | 'bold') => updateTextLayer(selectedLayer.id, { fontWeight: value })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="normal">Normal</SelectItem>
-                        <SelectItem value="bold">Bold</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  
-                  <div>
-                    <Label htmlFor="textAlign">Text Align</Label>
-                    <Select
-                      value={selectedLayer.textAlign}
-                      onValueChange={(value: 'left' | 'center' | 'right') => updateTextLayer(selectedLayer.id, { textAlign: value })}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="left">Left</SelectItem>
-                        <SelectItem value="center">Center</SelectItem>
-                        <SelectItem value="right">Right</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </TabsContent>
-                
-                <TabsContent value="effects" className="space-y-4">
-                  <div>
-                    <Label>Opacity: {Math.round((selectedLayer.opacity || 1) * 100)}%</Label>
-                    <Slider
-                      value={[(selectedLayer.opacity || 1) * 100]}
-                      onValueChange={([value]) => updateTextLayer(selectedLayer.id, { opacity: value / 100 })}
-                      min={0}
-                      max={100}
-                      step={1}
-                      className="mt-2"
-                    />
-                  </div>
-                  
-                  <div>
-                    <Label>Rotation: {selectedLayer.rotation || 0}°</Label>
-                    <Slider
-                      value={[selectedLayer.rotation || 0]}
-                      onValueChange={([value]) => updateTextLayer(selectedLayer.id, { rotation: value })}
-                      min={-180}
-                      max={180}
-                      step={1}
-                      className="mt-2"
-                    />
-                  </div>
-                  
-                  <div className="space-y-3">
-                    <div className="flex items-center space-x-2">
-                      <Switch
-                        checked={selectedLayer.textShadow?.enabled || false}
-                        onCheckedChange={(checked) => updateTextLayer(selectedLayer.id, { 
-                          textShadow: { 
-                            ...selectedLayer.textShadow,
-                            enabled: checked,
-                            color: selectedLayer.textShadow?.color || '#000000',
-                            offsetX: selectedLayer.textShadow?.offsetX || 2,
-                            offsetY: selectedLayer.textShadow?.offsetY || 2,
-                            blur: selectedLayer.textShadow?.blur || 4
-                          } 
-                        })}
-                      />
-                      <Label>Text Shadow</Label>
-                    </div>
-                    
-                    {selectedLayer.textShadow?.enabled && (
-                      <div className="space-y-3 pl-6">
-                        <div>
-                          <Label htmlFor="shadowColor">Shadow Color</Label>
-                          <Input
-                            id="shadowColor"
-                            type="color"
-                            value={selectedLayer.textShadow?.color || '#000000'}
-                            onChange={(e) => updateTextLayer(selectedLayer.id, { 
-                              textShadow: { ...selectedLayer.textShadow!, color: e.target.value } 
-                            })}
-                            className="h-8"
-                          />
-                        </div>
-                        <div>
-                          <Label>Offset X: {selectedLayer.textShadow?.offsetX || 0}px</Label>
-                          <Slider
-                            value={[selectedLayer.textShadow?.offsetX || 0]}
-                            onValueChange={([value]) => updateTextLayer(selectedLayer.id, { 
-                              textShadow: { ...selectedLayer.textShadow!, offsetX: value } 
-                            })}
-                            min={-20}
-                            max={20}
-                            step={1}
-                            className="mt-1"
-                          />
-                        </div>
-                        <div>
-                          <Label>Offset Y: {selectedLayer.textShadow?.offsetY || 0}px</Label>
-                          <Slider
-                            value={[selectedLayer.textShadow?.offsetY || 0]}
-                            onValueChange={([value]) => updateTextLayer(selectedLayer.id, { 
-                              textShadow: { ...selectedLayer.textShadow!, offsetY: value } 
-                            })}
-                            min={-20}
-                            max={20}
-                            step={1}
-                            className="mt-1"
-                          />
-                        </div>
-                        <div>
-                          <Label>Blur: {selectedLayer.textShadow?.blur || 0}px</Label>
-                          <Slider
-                            value={[selectedLayer.textShadow?.blur || 0]}
-                            onValueChange={([value]) => updateTextLayer(selectedLayer.id, { 
-                              textShadow: { ...selectedLayer.textShadow!, blur: value } 
-                            })}
-                            min={0}
-                            max={20}
-                            step={1}
-                            className="mt-1"
-                          />
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                  
-                  <div className="space-y-3">
-                    <div className="flex items-center space-x-2">
-                      <Switch
-                        checked={selectedLayer.textStroke?.enabled || false}
-                        onCheckedChange={(checked) => updateTextLayer(selectedLayer.id, { 
-                          textStroke: { 
-                            ...selectedLayer.textStroke,
-                            enabled: checked,
-                            color: selectedLayer.textStroke?.color || '#000000',
-                            width: selectedLayer.textStroke?.width || 1
-                          } 
-                        })}
-                      />
-                      <Label>Text Stroke</Label>
-                    </div>
-                    
-                    {selectedLayer.textStroke?.enabled && (
-                      <div className="space-y-3 pl-6">
-                        <div>
-                          <Label htmlFor="strokeColor">Stroke Color</Label>
-                          <Input
-                            id="strokeColor"
-                            type="color"
-                            value={selectedLayer.textStroke?.color || '#000000'}
-                            onChange={(e) => updateTextLayer(selectedLayer.id, { 
-                              textStroke: { ...selectedLayer.textStroke!, color: e.target.value } 
-                            })}
-                            className="h-8"
-                          />
-                        </div>
-                        <div>
-                          <Label>Width: {selectedLayer.textStroke?.width || 0}px</Label>
-                          <Slider
-                            value={[selectedLayer.textStroke?.width || 0]}
-                            onValueChange={([value]) => updateTextLayer(selectedLayer.id, { 
-                              textStroke: { ...selectedLayer.textStroke!, width: value } 
-                            })}
-                            min={0}
-                            max={10}
-                            step={0.5}
-                            className="mt-1"
-                          />
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                </TabsContent>
-              </Tabs>
+              {selectionGroup && (
+                <div>
+                  <Label htmlFor="groupName">Group Name</Label>
+                  <Input
+                    id="groupName"
+                    value={selectionGroup.name}
+                    onChange={(e) => renameGroup(selectionGroup.id, e.target.value)}
+                  />
+                </div>
+              )}
+              <div className="flex gap-2">
+                {selectionGroup ? (
+                  <Button variant="outline" size="sm" className="flex-1" onClick={ungroupSelection}>
+                    <Ungroup className="w-4 h-4 mr-2" />
+                    Ungroup
+                  </Button>
+                ) : (
+                  <Button variant="outline" size="sm" className="flex-1" onClick={groupSelection}>
+                    <Group className="w-4 h-4 mr-2" />
+                    Group
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" className="flex-1" onClick={() => deleteLayers(selectedLayerIds)}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Shift-click or drag a box on the canvas to change the selection. Use the toolbar to align and distribute.
+              </p>
             </CardContent>
           </Card>
         )}
+
+        {selectedLayer && (
+          <LayerProperties
+            layer={selectedLayer}
+            tab={propertiesTab}
+            onTabChange={setPropertiesTab}
+            onUpdate={(updates) => updateLayer(selectedLayer.id, updates)}
+            onCommit={(updates, label) => commitLayerUpdate(selectedLayer.id, updates, label)}
+            onToggleTextBox={toggleTextBox}
+            onEditText={() => startTextEditing(selectedLayer.id)}
+            onReplaceImage={() => replaceImageInputRef.current?.click()}
+          />
+        )}
+
+        <HistoryPanel entries={history.entries} current={history.index} onGoTo={history.goTo} />
       </div>
     </div>
   )
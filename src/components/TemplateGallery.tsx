@@ -3,21 +3,28 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
-import { Plus, Search, Edit, Trash2, Copy } from 'lucide-react'
+import { Plus, Search, Edit, Trash2, Copy, Sparkles } from 'lucide-react'
 import { blink } from '@/blink/client'
+import { toTemplateRecord } from '@/lib/templates'
 import { toast } from 'sonner'
-import type { Template } from '@/types/template'
+import type { Layer, Template, TextLayer } from '@/types/template'
+
+const isTextLayer = (layer: Layer): layer is TextLayer => layer.type === 'text'
 
 interface TemplateGalleryProps {
+  userId: string
   templates: Template[]
   onTemplateSelected: (template: Template) => void
+  onTemplateGenerate: (template: Template) => void
   onTemplatesChanged: () => void
   onNewTemplate: () => void
 }
 
 export function TemplateGallery({
+  userId,
   templates,
   onTemplateSelected,
+  onTemplateGenerate,
   onTemplatesChanged,
   onNewTemplate
 }: TemplateGalleryProps) {
@@ -53,16 +60,7 @@ export function TemplateGallery({
       }
 
       // Use camelCase for database fields - SDK will convert
-      const templateData = {
-        id: duplicatedTemplate.id,
-        name: duplicatedTemplate.name,
-        backgroundImage: duplicatedTemplate.backgroundImage, // Use camelCase - SDK will convert
-        textLayers: JSON.stringify(duplicatedTemplate.textLayers), // Use camelCase - SDK will convert
-        width: duplicatedTemplate.width,
-        height: duplicatedTemplate.height,
-        userId: (template as any).userId || '', // Use camelCase - SDK will convert
-        createdAt: duplicatedTemplate.createdAt, // Use camelCase - SDK will convert
-      }
+      const templateData = toTemplateRecord(duplicatedTemplate, userId)
 
       await blink.db.templates.create(templateData)
       toast.success('Template duplicated successfully')
@@ -144,7 +142,7 @@ export function TemplateGallery({
                   
                   {/* Overlay with text layers preview */}
                   <div className="absolute inset-0">
-                    {template.textLayers.slice(0, 3).map((layer, index) => (
+                    {template.layers.filter(isTextLayer).slice(0, 3).map((layer) => (
                       <div
                         key={layer.id}
                         className="absolute text-xs opacity-80"
@@ -193,19 +191,29 @@ export function TemplateGallery({
                 <div className="p-4">
                   <div className="flex items-start justify-between mb-2">
                     <h3 className="font-medium text-gray-900 truncate">{template.name}</h3>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => onTemplateSelected(template)}
-                    >
-                      <Edit className="w-3 h-3" />
-                    </Button>
+                    <div className="flex">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Generate images"
+                        onClick={() => onTemplateGenerate(template)}
+                      >
+                        <Sparkles className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onTemplateSelected(template)}
+                      >
+                        <Edit className="w-3 h-3" />
+                      </Button>
+                    </div>
                   </div>
                   
                   <div className="flex items-center justify-between text-sm text-gray-500">
                     <span>{template.width} × {template.height}</span>
                     <Badge variant="secondary" className="text-xs">
-                      {template.textLayers.length} layers
+                      {template.layers.length} layers
                     </Badge>
                   </div>
                   
@@ -0,0 +1,78 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
+import { Check, ChevronsUpDown } from 'lucide-react'
+import { TemplateCanvas } from '@/components/TemplateCanvas'
+import { cn } from '@/lib/utils'
+import type { Template } from '@/types/template'
+
+interface TemplatePickerProps {
+  templates: Template[]
+  selectedTemplateId?: string
+  onTemplateSelected: (template: Template) => void
+}
+
+const THUMBNAIL_SIZE = 40
+
+function TemplateThumbnail({ template }: { template: Template }) {
+  const scale = THUMBNAIL_SIZE / Math.max(template.width, template.height)
+  return (
+    <div
+      className="flex-shrink-0 flex items-center justify-center bg-gray-100 rounded overflow-hidden"
+      style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+    >
+      <TemplateCanvas template={template} scale={scale} />
+    </div>
+  )
+}
+
+export function TemplatePicker({ templates, selectedTemplateId, onTemplateSelected }: TemplatePickerProps) {
+  const [open, setOpen] = useState(false)
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={open} className="w-72 justify-between">
+          <span className="truncate">
+            {selectedTemplate ? selectedTemplate.name : 'Select a template...'}
+          </span>
+          <ChevronsUpDown className="w-4 h-4 ml-2 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Search templates..." />
+          <CommandList>
+            <CommandEmpty>No templates found.</CommandEmpty>
+            <CommandGroup>
+              {templates.map((template) => (
+                <CommandItem
+                  key={template.id}
+                  value={`${template.name} ${template.id}`}
+                  onSelect={() => {
+                    onTemplateSelected(template)
+                    setOpen(false)
+                  }}
+                  className="gap-3"
+                >
+                  <TemplateThumbnail template={template} />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium truncate">{template.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {template.width} × {template.height} • {template.layers.length} layers
+                    </div>
+                  </div>
+                  <Check
+                    className={cn('w-4 h-4', template.id === selectedTemplateId ? 'opacity-100' : 'opacity-0')}
+                  />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,187 @@
+import { useRef, useState } from 'react'
+import { measureLayer, type LayerBox } from '@/lib/render'
+import type { Layer } from '@/types/template'
+
+interface TransformHandlesProps {
+  layer: Layer
+  box: LayerBox
+  // Display pixels per template pixel
+  scale: number
+  // Pointer position in template pixels
+  getPoint: (event: React.PointerEvent) => { x: number; y: number }
+  onPreview: (updates: Partial<Layer> | null) => void
+  onCommit: (updates: Partial<Layer>, label: string) => void
+}
+
+interface TransformDrag {
+  mode: 'scale' | 'rotate'
+  layer: Layer
+  center: { x: number; y: number }
+  startDistance: number
+  updates: Partial<Layer> | null
+}
+
+const HANDLE_SIZE = 10
+const ROTATE_HANDLE_OFFSET = 28
+const ROTATION_SNAP = 15
+const MIN_FONT_SIZE = 6
+const MAX_FONT_SIZE = 400
+
+const CORNERS = [
+  { left: 0, top: 0, cursor: 'nwse-resize' },
+  { left: 1, top: 0, cursor: 'nesw-resize' },
+  { left: 0, top: 1, cursor: 'nesw-resize' },
+  { left: 1, top: 1, cursor: 'nwse-resize' }
+]
+
+// Size changes for a uniform scale: font size for plain text, the box for wrapped
+// text, width and height for images and shapes
+function scaleLayer(layer: Layer, factor: number): Partial<Layer> {
+  if (layer.type === 'text') {
+    if (layer.textBox?.enabled) {
+      return {
+        textBox: {
+          ...layer.textBox,
+          width: Math.max(1, Math.round(layer.textBox.width * factor)),
+          height: Math.round(layer.textBox.height * factor)
+        }
+      }
+    }
+    return { fontSize: Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, Math.round(layer.fontSize * factor))) }
+  }
+  return {
+    width: Math.max(1, Math.round(layer.width * factor)),
+    height: layer.height === 0 ? 0 : Math.max(1, Math.round(layer.height * factor))
+  }
+}
+
+// Moves the layer so its box stays centered where it was; rotation is around the box center
+function keepCentered(layer: Layer, updates: Partial<Layer>, center: { x: number; y: number }): Partial<Layer> {
+  const box = measureLayer({ ...layer, ...updates } as Layer)
+  return {
+    ...updates,
+    x: layer.x + center.x - (box.x + box.width / 2),
+    y: layer.y + center.y - (box.y + box.height / 2)
+  }
+}
+
+function readout(layer: Layer, box: LayerBox, mode: TransformDrag['mode']): string {
+  if (mode === 'rotate') return `${Math.round(layer.rotation || 0)}°`
+  if (layer.type === 'text' && !layer.textBox?.enabled) return `${layer.fontSize}px`
+  return `${Math.round(box.width)} × ${Math.round(box.height)}`
+}
+
+// Corner scale handles and a rotation knob around the selected layer. Changes are
+// previewed while dragging and committed as one step on release.
+export function TransformHandles({ layer, box, scale, getPoint, onPreview, onCommit }: TransformHandlesProps) {
+  const dragRef = useRef<TransformDrag | null>(null)
+  const [mode, setMode] = useState<TransformDrag['mode'] | null>(null)
+
+  const startDrag = (event: React.PointerEvent<HTMLDivElement>, dragMode: TransformDrag['mode']) => {
+    event.stopPropagation()
+    event.currentTarget.setPointerCapture(event.pointerId)
+
+    const center = { x: box.x + box.width / 2, y: box.y + box.height / 2 }
+    const point = getPoint(event)
+    dragRef.current = {
+      mode: dragMode,
+      layer,
+      center,
+      startDistance: Math.max(1, Math.hypot(point.x - center.x, point.y - center.y)),
+      updates: null
+    }
+    setMode(dragMode)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    const point = getPoint(event)
+    const dx = point.x - drag.center.x
+    const dy = point.y - drag.center.y
+
+    if (drag.mode === 'scale') {
+      const factor = Math.hypot(dx, dy) / drag.startDistance
+      drag.updates = keepCentered(drag.layer, scaleLayer(drag.layer, factor), drag.center)
+    } else {
+      // The knob sits above the box, so pointing straight up is 0°. Shift rotates freely.
+      let angle = Math.atan2(dy, dx) * 180 / Math.PI + 90
+      if (angle > 180) angle -= 360
+      if (!event.shiftKey) angle = Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP
+      drag.updates = { rotation: Math.round(angle) }
+    }
+    onPreview(drag.updates)
+  }
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current
+    if (!drag) return
+
+    dragRef.current = null
+    setMode(null)
+    onPreview(null)
+    if (drag.updates) {
+      onCommit(drag.updates, drag.mode === 'scale' ? 'Resize layer' : 'Rotate layer')
+    }
+  }
+
+  const dragHandlers = { onPointerMove: handlePointerMove, onPointerUp: handlePointerUp }
+
+  return (
+    <>
+      <div
+        className="absolute pointer-events-none z-20"
+        style={{
+          left: box.x * scale,
+          top: box.y * scale,
+          width: Math.max(box.width * scale, 8),
+          height: Math.max(box.height * scale, 8),
+          transform: `rotate(${layer.rotation || 0}deg)`
+        }}
+      >
+        {CORNERS.map((corner, i) => (
+          <div
+            key={i}
+            className="absolute bg-white border-2 border-primary rounded-sm pointer-events-auto"
+            style={{
+              width: HANDLE_SIZE,
+              height: HANDLE_SIZE,
+              left: `calc(${corner.left * 100}% - ${HANDLE_SIZE / 2}px)`,
+              top: `calc(${corner.top * 100}% - ${HANDLE_SIZE / 2}px)`,
+              cursor: corner.cursor
+            }}
+            onPointerDown={(e) => startDrag(e, 'scale')}
+            {...dragHandlers}
+          />
+        ))}
+
+        <div
+          className="absolute left-1/2 w-px bg-primary"
+          style={{ top: -ROTATE_HANDLE_OFFSET, height: ROTATE_HANDLE_OFFSET }}
+        />
+        <div
+          className="absolute left-1/2 bg-white border-2 border-primary rounded-full pointer-events-auto cursor-grab"
+          style={{
+            width: HANDLE_SIZE + 2,
+            height: HANDLE_SIZE + 2,
+            top: -ROTATE_HANDLE_OFFSET - (HANDLE_SIZE + 2) / 2,
+            marginLeft: -(HANDLE_SIZE + 2) / 2
+          }}
+          onPointerDown={(e) => startDrag(e, 'rotate')}
+          title="Drag to rotate, hold Shift to turn off 15° snapping"
+          {...dragHandlers}
+        />
+      </div>
+
+      {mode && (
+        <div
+          className="absolute z-20 -translate-x-1/2 px-1.5 py-0.5 rounded bg-gray-900 text-white text-xs tabular-nums pointer-events-none"
+          style={{ left: (box.x + box.width / 2) * scale, top: (box.y + box.height) * scale + 12 }}
+        >
+          {readout(layer, box, mode)}
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,150 @@
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { compileVariablePattern, validateVariable, VARIABLE_TYPE_LABELS } from '@/lib/variables'
+import type { VariableDefinition, VariableType } from '@/types/template'
+
+interface VariableSchemaEditorProps {
+  definitions: VariableDefinition[]
+  onChange: (definition: VariableDefinition, updates: Partial<VariableDefinition>) => void
+}
+
+// Image layers always take an image; placeholders in text can be any of the others
+const TEXT_TYPES: VariableType[] = ['text', 'number', 'date', 'color', 'enum']
+
+function parseOptions(value: string): string[] {
+  return value.split(',').map(option => option.trim()).filter(Boolean)
+}
+
+// Per-variable input type, default and validation rules used by the generator
+export function VariableSchemaEditor({ definitions, onChange }: VariableSchemaEditorProps) {
+  if (definitions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No variables yet. Make a layer variable or type {'{{name}}'} in a text layer.
+      </p>
+    )
+  }
+
+  return (
+    <Accordion type="single" collapsible className="-mt-2">
+      {definitions.map(definition => {
+        const id = `variable-${definition.name}`
+        const defaultError = definition.defaultValue ? validateVariable({ ...definition, required: false }, definition.defaultValue) : null
+        const patternInvalid = definition.pattern !== '' && !compileVariablePattern(definition.pattern)
+
+        return (
+          <AccordionItem key={definition.name} value={definition.name}>
+            <AccordionTrigger className="py-3">
+              <span className="flex items-center gap-2 min-w-0">
+                <span className="truncate font-mono text-xs">{definition.name}</span>
+                {definition.required && <span className="text-red-500">*</span>}
+                <Badge variant="outline" className="text-[10px]">{VARIABLE_TYPE_LABELS[definition.type]}</Badge>
+              </span>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-3">
+              {definition.type !== 'image' && (
+                <div>
+                  <Label htmlFor={`${id}-type`} className="text-xs">Type</Label>
+                  <Select
+                    value={definition.type}
+                    onValueChange={(value: VariableType) => onChange(definition, { type: value })}
+                  >
+                    <SelectTrigger id={`${id}-type`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TEXT_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{VARIABLE_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor={`${id}-required`} className="text-xs">Required</Label>
+                <Switch
+                  id={`${id}-required`}
+                  checked={definition.required}
+                  onCheckedChange={(checked) => onChange(definition, { required: checked })}
+                />
+              </div>
+
+              {definition.type === 'enum' && (
+                <div>
+                  <Label htmlFor={`${id}-options`} className="text-xs">Choices (comma separated)</Label>
+                  <Input
+                    id={`${id}-options`}
+                    key={definition.options.join(',')}
+                    defaultValue={definition.options.join(', ')}
+                    onBlur={(e) => onChange(definition, { options: parseOptions(e.target.value) })}
+                    placeholder="Small, Medium, Large"
+                  />
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor={`${id}-default`} className="text-xs">Default value</Label>
+                {definition.type === 'enum' && definition.options.length > 0 ? (
+                  <Select
+                    value={definition.defaultValue || 'none'}
+                    onValueChange={(value) => onChange(definition, { defaultValue: value === 'none' ? '' : value })}
+                  >
+                    <SelectTrigger id={`${id}-default`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No default</SelectItem>
+                      {definition.options.map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={`${id}-default`}
+                    value={definition.defaultValue}
+                    onChange={(e) => onChange(definition, { defaultValue: e.target.value })}
+                    placeholder={definition.type === 'image' ? 'https://...' : 'Used when left empty'}
+                  />
+                )}
+                {defaultError && <p className="text-xs text-red-600 mt-1">Default value {defaultError}</p>}
+              </div>
+
+              {definition.type !== 'image' && definition.type !== 'enum' && (
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <Label htmlFor={`${id}-max`} className="text-xs">Max length</Label>
+                    <Input
+                      id={`${id}-max`}
+                      type="number"
+                      min={0}
+                      value={definition.maxLength || ''}
+                      onChange={(e) => onChange(definition, { maxLength: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                      placeholder="None"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Label htmlFor={`${id}-pattern`} className="text-xs">Pattern (regex)</Label>
+                    <Input
+                      id={`${id}-pattern`}
+                      value={definition.pattern}
+                      onChange={(e) => onChange(definition, { pattern: e.target.value })}
+                      placeholder="e.g. [A-Z]{3}-\d+"
+                      className="font-mono text-xs"
+                    />
+                  </div>
+                </div>
+              )}
+              {patternInvalid && <p className="text-xs text-red-600">The pattern is not a valid regular expression and is ignored.</p>}
+            </AccordionContent>
+          </AccordionItem>
+        )
+      })}
+    </Accordion>
+  )
+}
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Clock, RotateCcw } from 'lucide-react'
+import { TemplateCanvas } from '@/components/TemplateCanvas'
+import { getLayerBoxes } from '@/lib/render'
+import { diffTemplates, listRevisions, type TemplateRevision } from '@/lib/revisions'
+import { toast } from 'sonner'
+import type { Template } from '@/types/template'
+
+interface VersionHistoryProps {
+  template: Template
+  userId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRestore: (revision: TemplateRevision) => void
+}
+
+const THUMBNAIL_SIZE = 56
+const PREVIEW_WIDTH = 320
+const PREVIEW_HEIGHT = 280
+const CURRENT = 'current'
+
+function formatRevisionTime(createdAt: string): string {
+  return new Date(createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+interface DiffPreviewProps {
+  title: string
+  template: Template
+  highlights: Record<string, string>
+}
+
+// Template preview with outlines around the layers that differ from the other side
+function DiffPreview({ title, template, highlights }: DiffPreviewProps) {
+  const scale = Math.min(PREVIEW_WIDTH / template.width, PREVIEW_HEIGHT / template.height, 1)
+  const boxes = getLayerBoxes(template)
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-medium text-gray-600 truncate">{title}</div>
+      <div className="relative bg-gray-100 rounded overflow-hidden" style={{ width: template.width * scale, height: template.height * scale }}>
+        <TemplateCanvas template={template} scale={scale} />
+        {Object.entries(highlights).map(([layerId, color]) => {
+          const box = boxes[layerId]
+          if (!box) return null
+          return (
+            <div
+              key={layerId}
+              className={`absolute border-2 rounded-sm pointer-events-none ${color}`}
+              style={{
+                left: box.x * scale,
+                top: box.y * scale,
+                width: Math.max(box.width * scale, 4),
+                height: Math.max(box.height * scale, 4)
+              }}
+            />
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export function VersionHistory({ template, userId, open, onOpenChange, onRestore }: VersionHistoryProps) {
+  const [revisions, setRevisions] = useState<TemplateRevision[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string>(CURRENT)
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const loaded = await listRevisions(template.id, userId)
+      setRevisions(loaded)
+      setSelectedId(loaded[0]?.id ?? null)
+      setCompareId(CURRENT)
+    } catch (error) {
+      console.error('Failed to load versions:', error)
+      toast.error('Failed to load version history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [template.id, userId])
+
+  useEffect(() => {
+    if (open) loadRevisions()
+  }, [open, loadRevisions])
+
+  const selected = revisions.find(revision => revision.id === selectedId)
+  const compareTemplate = compareId === CURRENT
+    ? template
+    : revisions.find(revision => revision.id === compareId)?.template
+
+  const diff = useMemo(
+    () => (selected && compareTemplate ? diffTemplates(selected.template, compareTemplate) : null),
+    [selected, compareTemplate]
+  )
+
+  const beforeHighlights = useMemo(() => {
+    const highlights: Record<string, string> = {}
+    diff?.removed.forEach(id => { highlights[id] = 'border-red-500' })
+    diff?.changed.forEach(id => { highlights[id] = 'border-amber-500' })
+    return highlights
+  }, [diff])
+
+  const afterHighlights = useMemo(() => {
+    const highlights: Record<string, string> = {}
+    diff?.added.forEach(id => { highlights[id] = 'border-green-500' })
+    diff?.changed.forEach(id => { highlights[id] = 'border-amber-500' })
+    return highlights
+  }, [diff])
+
+  const handleRestore = (revision: TemplateRevision) => {
+    onRestore(revision)
+    onOpenChange(false)
+    toast.success(`Restored version from ${formatRevisionTime(revision.createdAt)}`)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Clock className="w-4 h-4 mr-2" />
+          Versions
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Every save keeps a copy of the design. Compare two versions or restore an earlier one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-6 min-h-[360px]">
+          <div className="w-64 flex-shrink-0 max-h-[480px] overflow-y-auto space-y-2 pr-1">
+            {isLoading && <p className="text-sm text-gray-500 py-4 text-center">Loading versions...</p>}
+            {!isLoading && revisions.length === 0 && (
+              <p className="text-sm text-gray-500 py-4 text-center">No saved versions yet.</p>
+            )}
+            {!isLoading && revisions.map((revision, index) => {
+              const thumbnailScale = THUMBNAIL_SIZE / Math.max(revision.template.width, revision.template.height)
+              return (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full flex items-center gap-3 p-2 rounded border text-left transition-all duration-200 ${
+                    revision.id === selectedId
+                      ? 'border-primary bg-primary/5 shadow-sm'
+                      : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  <div
+                    className="flex-shrink-0 flex items-center justify-center bg-gray-100 rounded overflow-hidden"
+                    style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+                  >
+                    <TemplateCanvas template={revision.template} scale={thumbnailScale} />
+                  </div>
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium">{formatRevisionTime(revision.createdAt)}</div>
+                    <div className="text-xs text-gray-500 flex items-center gap-2">
+                      {revision.template.layers.length} layers
+                      {index === 0 && <Badge variant="secondary">Latest</Badge>}
+                    </div>
+                  </div>
+                </button>
+              )
+            })}
+          </div>
+
+          {selected && compareTemplate && diff && (
+            <div className="flex-1 space-y-4">
+              <div className="flex items-end justify-between gap-4">
+                <div className="space-y-1">
+                  <Label>Compare with</Label>
+                  <Select value={compareId} onValueChange={setCompareId}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CURRENT}>Current design</SelectItem>
+                      {revisions.filter(revision => revision.id !== selected.id).map(revision => (
+                        <SelectItem key={revision.id} value={revision.id}>
+                          {formatRevisionTime(revision.createdAt)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={() => handleRestore(selected)}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore This Version
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <DiffPreview
+                  title={formatRevisionTime(selected.createdAt)}
+                  template={selected.template}
+                  highlights={beforeHighlights}
+                />
+                <DiffPreview
+                  title={compareId === CURRENT ? 'Current design' : formatRevisionTime(revisions.find(r => r.id === compareId)!.createdAt)}
+                  template={compareTemplate}
+                  highlights={afterHighlights}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="outline" className="border-green-500 text-green-700">{diff.added.length} added</Badge>
+                <Badge variant="outline" className="border-red-500 text-red-700">{diff.removed.length} removed</Badge>
+                <Badge variant="outline" className="border-amber-500 text-amber-700">{diff.changed.length} changed</Badge>
+                {diff.backgroundChanged && <Badge variant="outline">Background changed</Badge>}
+                {diff.sizeChanged && <Badge variant="outline">Size changed</Badge>}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
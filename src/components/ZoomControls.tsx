@@ -0,0 +1,40 @@
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { ZoomIn, ZoomOut } from 'lucide-react'
+import { ZOOM_PRESETS, type ZoomLevel } from '@/hooks/use-canvas-viewport'
+
+interface ZoomControlsProps {
+  zoom: ZoomLevel
+  scale: number
+  onZoom: (zoom: ZoomLevel) => void
+  onZoomIn: () => void
+  onZoomOut: () => void
+}
+
+export function ZoomControls({ zoom, scale, onZoom, onZoomIn, onZoomOut }: ZoomControlsProps) {
+  const percent = `${Math.round(scale * 100)}%`
+  const value = zoom === 'fit' ? 'fit' : ZOOM_PRESETS.includes(zoom) ? String(zoom) : 'custom'
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button variant="outline" size="icon" className="h-8 w-8" onClick={onZoomOut} title="Zoom out (Ctrl+-)">
+        <ZoomOut className="w-4 h-4" />
+      </Button>
+      <Select value={value} onValueChange={(next) => onZoom(next === 'fit' ? 'fit' : Number(next))}>
+        <SelectTrigger className="h-8 w-28 text-xs">
+          <SelectValue>{zoom === 'fit' ? `Fit (${percent})` : percent}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="fit">Fit</SelectItem>
+          {ZOOM_PRESETS.map(preset => (
+            <SelectItem key={preset} value={String(preset)}>{preset * 100}%</SelectItem>
+          ))}
+          {value === 'custom' && <SelectItem value="custom" disabled>{percent}</SelectItem>}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="icon" className="h-8 w-8" onClick={onZoomIn} title="Zoom in (Ctrl+=)">
+        <ZoomIn className="w-4 h-4" />
+      </Button>
+    </div>
+  )
+}
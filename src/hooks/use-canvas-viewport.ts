@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react'
+
+export type ZoomLevel = 'fit' | number
+
+export const ZOOM_PRESETS = [0.25, 0.5, 1, 2, 4]
+export const MIN_ZOOM = 0.05
+export const MAX_ZOOM = 8
+
+export interface VisibleRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface ViewportOptions {
+  // Fit never scales the content up beyond this
+  maxFitScale?: number
+  // Space kept around the content when fitting, in display pixels
+  padding?: number
+}
+
+// Keeps `point` (content pixels) under the given client position after a zoom
+interface ZoomAnchor {
+  clientX: number
+  clientY: number
+  point: { x: number; y: number }
+}
+
+function clampZoom(scale: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale))
+}
+
+// Zoom and scroll state for a scrollable viewport showing content of the given size.
+// Pass `viewportRef` as the ref of the scrolling element and `contentRef` to the scaled content.
+// Ctrl/Cmd + wheel (and trackpad pinch) zooms around the pointer.
+export function useCanvasViewport(contentWidth: number, contentHeight: number, options: ViewportOptions = {}) {
+  const { maxFitScale = 1, padding = 32 } = options
+  // State rather than a ref object so listeners attach when the viewport mounts later
+  const [viewport, setViewport] = useState<HTMLDivElement | null>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
+  const anchorRef = useRef<ZoomAnchor | null>(null)
+  const [zoom, setZoom] = useState<ZoomLevel>('fit')
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 })
+  const [visibleRegion, setVisibleRegion] = useState<VisibleRegion | null>(null)
+
+  useEffect(() => {
+    if (!viewport) return
+
+    const observer = new ResizeObserver(() => {
+      setViewportSize({ width: viewport.clientWidth, height: viewport.clientHeight })
+    })
+    observer.observe(viewport)
+    return () => observer.disconnect()
+  }, [viewport])
+
+  const fitScale = viewportSize.width > 0
+    ? clampZoom(Math.min(
+      (viewportSize.width - padding * 2) / contentWidth,
+      (viewportSize.height - padding * 2) / contentHeight,
+      maxFitScale
+    ))
+    : Math.min(800 / contentWidth, maxFitScale)
+  const scale = zoom === 'fit' ? fitScale : zoom
+
+  const clientToContent = useCallback((clientX: number, clientY: number) => {
+    const rect = contentRef.current?.getBoundingClientRect()
+    if (!rect) return { x: 0, y: 0 }
+    return { x: (clientX - rect.left) / scale, y: (clientY - rect.top) / scale }
+  }, [scale])
+
+  // Zooms around a client position, or the viewport center when none is given
+  const zoomTo = useCallback((next: ZoomLevel, client?: { clientX: number; clientY: number }) => {
+    if (viewport) {
+      const rect = viewport.getBoundingClientRect()
+      const anchorClient = client ?? { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 }
+      anchorRef.current = { ...anchorClient, point: clientToContent(anchorClient.clientX, anchorClient.clientY) }
+    }
+    setZoom(next === 'fit' ? 'fit' : clampZoom(next))
+  }, [viewport, clientToContent])
+
+  const zoomIn = useCallback(() => {
+    zoomTo(ZOOM_PRESETS.find(preset => preset > scale + 0.001) ?? MAX_ZOOM)
+  }, [scale, zoomTo])
+
+  const zoomOut = useCallback(() => {
+    zoomTo([...ZOOM_PRESETS].reverse().find(preset => preset < scale - 0.001) ?? MIN_ZOOM)
+  }, [scale, zoomTo])
+
+  const updateVisibleRegion = useCallback(() => {
+    const content = contentRef.current
+    if (!viewport || !content) return
+
+    const viewportRect = viewport.getBoundingClientRect()
+    const contentRect = content.getBoundingClientRect()
+    const left = Math.max(0, (viewportRect.left - contentRect.left) / scale)
+    const top = Math.max(0, (viewportRect.top - contentRect.top) / scale)
+    const right = Math.min(contentWidth, (viewportRect.right - contentRect.left) / scale)
+    const bottom = Math.min(contentHeight, (viewportRect.bottom - contentRect.top) / scale)
+    setVisibleRegion({ x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) })
+  }, [viewport, scale, contentWidth, contentHeight])
+
+  // After a zoom renders, scroll so the anchor point is back under the pointer
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current
+    const rect = contentRef.current?.getBoundingClientRect()
+    anchorRef.current = null
+    if (anchor && viewport && rect) {
+      viewport.scrollLeft += rect.left + anchor.point.x * scale - anchor.clientX
+      viewport.scrollTop += rect.top + anchor.point.y * scale - anchor.clientY
+    }
+    updateVisibleRegion()
+  }, [viewport, scale, viewportSize, updateVisibleRegion])
+
+  useEffect(() => {
+    if (!viewport) return
+
+    // Registered directly because React's wheel listener is passive and can't prevent page zoom
+    const handleWheel = (event: WheelEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return
+      event.preventDefault()
+      zoomTo(scale * Math.exp(-event.deltaY * 0.002), event)
+    }
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false })
+    viewport.addEventListener('scroll', updateVisibleRegion)
+    return () => {
+      viewport.removeEventListener('wheel', handleWheel)
+      viewport.removeEventListener('scroll', updateVisibleRegion)
+    }
+  }, [viewport, scale, zoomTo, updateVisibleRegion])
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    viewport?.scrollBy(dx, dy)
+  }, [viewport])
+
+  // Scrolls so the content point (content pixels) is in the middle of the viewport
+  const centerOn = useCallback((x: number, y: number) => {
+    const content = contentRef.current
+    if (!viewport || !content) return
+
+    const viewportRect = viewport.getBoundingClientRect()
+    const contentRect = content.getBoundingClientRect()
+    viewport.scrollBy(
+      contentRect.left + x * scale - (viewportRect.left + viewportRect.width / 2),
+      contentRect.top + y * scale - (viewportRect.top + viewportRect.height / 2)
+    )
+  }, [viewport, scale])
+
+  const isOverflowing = contentWidth * scale > viewportSize.width || contentHeight * scale > viewportSize.height
+
+  return {
+    viewportRef: setViewport,
+    contentRef,
+    zoom,
+    scale,
+    zoomTo,
+    zoomIn,
+    zoomOut,
+    panBy,
+    centerOn,
+    visibleRegion,
+    isOverflowing
+  }
+}
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react'
+import type { ZoomLevel } from '@/hooks/use-canvas-viewport'
+import type { LayerMoves } from '@/lib/align'
+import type { Layer } from '@/types/template'
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+// Focused controls that use plain keys (arrows, Space, Enter, Delete, Escape) themselves:
+// buttons, the Radix sliders, selects, tabs, switches and menus, and anything in a dialog
+const KEY_HANDLING_SELECTOR = [
+  'button', '[role="slider"]', '[role="combobox"]', '[role="listbox"]', '[role="option"]', '[role="tab"]',
+  '[role="menuitem"]', '[role="switch"]', '[role="checkbox"]', '[role="dialog"]', '[role="alertdialog"]'
+].join(',')
+
+function isKeyHandlingTarget(target: EventTarget | null): boolean {
+  return isEditableTarget(target) || (target instanceof Element && target.closest(KEY_HANDLING_SELECTOR) !== null)
+}
+
+function isInsideDialog(target: EventTarget | null): boolean {
+  return target instanceof Element && target.closest('[role="dialog"],[role="alertdialog"]') !== null
+}
+
+interface EditorShortcutOptions {
+  selectedLayerIds: string[]
+  // The single selected layer, if exactly one is selected
+  selectedLayer?: Layer
+  // Space only pans while the canvas area is focused or under the pointer
+  canvasAreaRef: React.RefObject<HTMLElement | null>
+  pointerOverCanvasRef: React.RefObject<boolean>
+  save: () => void
+  togglePalette: () => void
+  zoomTo: (zoom: ZoomLevel) => void
+  zoomIn: () => void
+  zoomOut: () => void
+  undo: () => void
+  redo: () => void
+  duplicateLayers: (layerIds: string[]) => void
+  groupSelection: () => void
+  ungroupSelection: () => void
+  arrangeLayer: (layerId: string, position: 'forward' | 'backward' | 'front' | 'back') => void
+  deleteLayers: (layerIds: string[]) => void
+  moveLayers: (moves: LayerMoves, label: string, coalesceKey?: string) => void
+  startTextEditing: (layerId: string) => void
+  clearSelection: () => void
+}
+
+// Keyboard shortcuts of the template editor. Returns whether Space is held to pan the canvas.
+export function useEditorShortcuts({
+  selectedLayerIds,
+  selectedLayer,
+  canvasAreaRef,
+  pointerOverCanvasRef,
+  save,
+  togglePalette,
+  zoomTo,
+  zoomIn,
+  zoomOut,
+  undo,
+  redo,
+  duplicateLayers,
+  groupSelection,
+  ungroupSelection,
+  arrangeLayer,
+  deleteLayers,
+  moveLayers,
+  startTextEditing,
+  clearSelection
+}: EditorShortcutOptions) {
+  const [spaceHeld, setSpaceHeld] = useState(false)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const mod = e.ctrlKey || e.metaKey
+      const key = e.key.toLowerCase()
+
+      // Saving and the command palette also work while typing in a field
+      if (mod && key === 's') {
+        e.preventDefault()
+        save()
+        return
+      }
+      if (mod && key === 'k') {
+        e.preventDefault()
+        togglePalette()
+        return
+      }
+      if (isEditableTarget(e.target) || isInsideDialog(e.target)) return
+      // Shortcuts with a modifier work from any other control; plain keys belong to the focused one
+      if (!mod && isKeyHandlingTarget(e.target)) return
+
+      if (key === ' ') {
+        const overCanvas = pointerOverCanvasRef.current ||
+          (e.target instanceof Node && canvasAreaRef.current?.contains(e.target))
+        if (!overCanvas) return
+        e.preventDefault()
+        setSpaceHeld(true)
+      } else if (mod && key === '0') {
+        e.preventDefault()
+        zoomTo('fit')
+      } else if (mod && key === '1') {
+        e.preventDefault()
+        zoomTo(1)
+      } else if (mod && (key === '=' || key === '+')) {
+        e.preventDefault()
+        zoomIn()
+      } else if (mod && key === '-') {
+        e.preventDefault()
+        zoomOut()
+      } else if (mod && key === 'z') {
+        e.preventDefault()
+        if (e.shiftKey) redo()
+        else undo()
+      } else if (mod && key === 'y') {
+        e.preventDefault()
+        redo()
+      } else if (mod && key === 'd') {
+        e.preventDefault()
+        duplicateLayers(selectedLayerIds)
+      } else if (mod && key === 'g') {
+        e.preventDefault()
+        if (e.shiftKey) ungroupSelection()
+        else groupSelection()
+      } else if (mod && (e.code === 'BracketRight' || e.code === 'BracketLeft') && selectedLayer) {
+        e.preventDefault()
+        const raise = e.code === 'BracketRight'
+        arrangeLayer(selectedLayer.id, e.shiftKey ? (raise ? 'front' : 'back') : (raise ? 'forward' : 'backward'))
+      } else if (key === 'delete' || key === 'backspace') {
+        e.preventDefault()
+        deleteLayers(selectedLayerIds)
+      } else if (key === 'enter' && selectedLayer?.type === 'text') {
+        e.preventDefault()
+        startTextEditing(selectedLayer.id)
+      } else if (key === 'escape') {
+        clearSelection()
+      } else if (key.startsWith('arrow') && selectedLayerIds.length > 0) {
+        e.preventDefault()
+        const step = e.shiftKey ? 10 : 1
+        const dx = key === 'arrowleft' ? -step : key === 'arrowright' ? step : 0
+        const dy = key === 'arrowup' ? -step : key === 'arrowdown' ? step : 0
+        moveLayers(
+          Object.fromEntries(selectedLayerIds.map(id => [id, { dx, dy }])),
+          'Nudge',
+          `nudge:${selectedLayerIds.join(',')}`
+        )
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [
+    selectedLayerIds, selectedLayer, canvasAreaRef, pointerOverCanvasRef, save, togglePalette, zoomTo, zoomIn, zoomOut,
+    undo, redo, duplicateLayers, groupSelection, ungroupSelection, arrangeLayer, deleteLayers, moveLayers,
+    startTextEditing, clearSelection
+  ])
+
+  useEffect(() => {
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === ' ') setSpaceHeld(false)
+    }
+    const handleBlur = () => setSpaceHeld(false)
+
+    window.addEventListener('keyup', handleKeyUp)
+    window.addEventListener('blur', handleBlur)
+    return () => {
+      window.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('blur', handleBlur)
+    }
+  }, [])
+
+  return spaceHeld
+}
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  COALESCE_WINDOW_MS,
+  commitHistory,
+  createHistory,
+  goToHistory,
+  MAX_ENTRIES,
+  type HistoryState
+} from '@/hooks/use-history'
+
+interface Doc {
+  title: string
+  subtitle?: string
+  layers: Array<{ id: string; x: number; image?: string }>
+}
+
+const IMAGE = `data:image/png;base64,${'A'.repeat(10_000)}`
+
+function start(): HistoryState<Doc> {
+  return createHistory<Doc>({ title: 'Sale', layers: [{ id: 'a', x: 0, image: IMAGE }, { id: 'b', x: 0 }] }, 'Opened')
+}
+
+function moveLayer(doc: Doc, id: string, x: number): Doc {
+  return { ...doc, layers: doc.layers.map(layer => (layer.id === id ? { ...layer, x } : layer)) }
+}
+
+function undo<T>(history: HistoryState<T>): HistoryState<T> {
+  return goToHistory(history, history.index - 1)
+}
+
+function redo<T>(history: HistoryState<T>): HistoryState<T> {
+  return goToHistory(history, history.index + 1)
+}
+
+describe('history', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('undoes and redoes commits', () => {
+    const opened = start()
+    let history = commitHistory(opened, { ...opened.present, title: 'Big sale' }, 'Edit title')
+    history = commitHistory(history, moveLayer(history.present, 'b', 40), 'Move')
+    expect(history.entries.map(entry => entry.label)).toEqual(['Opened', 'Edit title', 'Move'])
+
+    history = undo(history)
+    expect(history.present).toEqual({ ...opened.present, title: 'Big sale' })
+    history = undo(history)
+    expect(history.present).toEqual(opened.present)
+    expect(undo(history)).toBe(history)
+
+    history = redo(redo(history))
+    expect(history.present.title).toBe('Big sale')
+    expect(history.present.layers[1].x).toBe(40)
+    expect(redo(history)).toBe(history)
+  })
+
+  it('jumps to any entry', () => {
+    let history = start()
+    for (const x of [10, 20, 30]) history = commitHistory(history, moveLayer(history.present, 'a', x), 'Move')
+    expect(goToHistory(history, 1).present.layers[0].x).toBe(10)
+    expect(goToHistory(goToHistory(history, 0), 2).present.layers[0].x).toBe(20)
+  })
+
+  it('restores added and removed properties and layers', () => {
+    const opened = start()
+    let history = commitHistory(opened, { ...opened.present, subtitle: 'Today only' }, 'Add subtitle')
+    history = commitHistory(history, { ...history.present, layers: history.present.layers.slice(1) }, 'Delete')
+    history = undo(undo(history))
+    expect(history.present).toEqual(opened.present)
+    expect('subtitle' in history.present).toBe(false)
+  })
+
+  it('stores only what a step changed', () => {
+    const opened = start()
+    const history = commitHistory(opened, moveLayer(opened.present, 'b', 40), 'Move')
+    expect(history.entries[1].changes).toEqual([{ path: ['layers', 1, 'x'], before: 0, after: 40 }])
+    // Unchanged layers, and the images they hold, stay shared with the previous state
+    expect(undo(history).present.layers[0]).toBe(opened.present.layers[0])
+  })
+
+  it('clears the redo entries when committing after an undo', () => {
+    let history = start()
+    history = commitHistory(history, moveLayer(history.present, 'a', 10), 'Move a')
+    history = commitHistory(history, moveLayer(history.present, 'a', 20), 'Move a again')
+    history = undo(history)
+    history = commitHistory(history, moveLayer(history.present, 'b', 5), 'Move b')
+
+    expect(history.entries.map(entry => entry.label)).toEqual(['Opened', 'Move a', 'Move b'])
+    expect(history.index).toBe(2)
+    expect(redo(history)).toBe(history)
+    expect(history.present.layers.map(layer => layer.x)).toEqual([10, 5])
+  })
+
+  it('merges commits with the same coalesce key within the window', () => {
+    let history = start()
+    history = commitHistory(history, moveLayer(history.present, 'a', 1), 'Drag', { coalesceKey: 'drag:a' })
+    vi.advanceTimersByTime(COALESCE_WINDOW_MS - 100)
+    history = commitHistory(history, moveLayer(history.present, 'a', 2), 'Drag', { coalesceKey: 'drag:a' })
+    expect(history.entries).toHaveLength(2)
+    expect(undo(history).present.layers[0].x).toBe(0)
+
+    // Too late, another key, or no key each start a new step
+    vi.advanceTimersByTime(COALESCE_WINDOW_MS)
+    history = commitHistory(history, moveLayer(history.present, 'a', 3), 'Drag', { coalesceKey: 'drag:a' })
+    history = commitHistory(history, moveLayer(history.present, 'a', 4), 'Drag', { coalesceKey: 'drag:b' })
+    history = commitHistory(history, moveLayer(history.present, 'a', 5), 'Drag')
+    history = commitHistory(history, moveLayer(history.present, 'a', 6), 'Drag')
+    expect(history.entries).toHaveLength(6)
+  })
+
+  it('never merges into an entry revisited by undo and redo', () => {
+    let history = start()
+    history = commitHistory(history, moveLayer(history.present, 'a', 1), 'Drag', { coalesceKey: 'drag:a' })
+    history = redo(undo(history))
+    history = commitHistory(history, moveLayer(history.present, 'a', 2), 'Drag', { coalesceKey: 'drag:a' })
+    expect(history.entries).toHaveLength(3)
+  })
+
+  it('skips commits that change nothing', () => {
+    const opened = start()
+    expect(commitHistory(opened, opened.present, 'Nothing')).toBe(opened)
+    expect(commitHistory(opened, { ...opened.present }, 'Copy').entries).toHaveLength(1)
+  })
+
+  it(`keeps the last ${MAX_ENTRIES} entries`, () => {
+    let history = start()
+    for (let x = 1; x <= MAX_ENTRIES + 20; x++) history = commitHistory(history, moveLayer(history.present, 'a', x), `Move ${x}`)
+
+    expect(history.entries).toHaveLength(MAX_ENTRIES)
+    expect(history.entries[0].label).toBe('Move 21')
+    const oldest = goToHistory(history, 0)
+    expect(oldest.present.layers[0].x).toBe(21)
+    expect(undo(oldest)).toBe(oldest)
+    expect(goToHistory(oldest, MAX_ENTRIES - 1).present.layers[0].x).toBe(MAX_ENTRIES + 20)
+  })
+})
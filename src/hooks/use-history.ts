@@ -0,0 +1,165 @@
+import { useCallback, useState } from 'react'
+
+type PathKey = string | number
+
+// Marks a key that isn't there, so undoing an added property removes it again
+const ABSENT = Symbol('absent')
+
+// One value written by a command, with the value it replaced
+interface Change {
+  path: PathKey[]
+  before: unknown
+  after: unknown
+}
+
+export interface HistoryEntry {
+  label: string
+  // What the step did, relative to the entry before it; the first entry has none
+  changes: Change[]
+  // Consecutive commits with the same key are merged into one entry
+  coalesceKey?: string
+  time: number
+}
+
+export interface HistoryState<T> {
+  present: T
+  entries: HistoryEntry[]
+  index: number
+  // False after undo/redo so the next commit never merges into a revisited entry
+  canCoalesce: boolean
+}
+
+export interface CommitOptions {
+  coalesceKey?: string
+}
+
+export const MAX_ENTRIES = 100
+export const COALESCE_WINDOW_MS = 1000
+
+function isContainer(value: unknown): value is Record<PathKey, unknown> {
+  if (Array.isArray(value)) return true
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+}
+
+// Records the values that differ between two states. Updates are immutable, so unchanged
+// parts are the same objects and are skipped; only what a command touched is kept.
+function diff(before: unknown, after: unknown, path: PathKey[] = [], changes: Change[] = []): Change[] {
+  if (Object.is(before, after)) return changes
+  const sameShape = isContainer(before) && isContainer(after) && (Array.isArray(before) && Array.isArray(after)
+    ? before.length === after.length
+    : !Array.isArray(before) && !Array.isArray(after))
+
+  if (!sameShape) {
+    changes.push({ path, before, after })
+    return changes
+  }
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  keys.forEach(key => {
+    const pathKey = Array.isArray(before) ? Number(key) : key
+    diff(key in before ? before[key] : ABSENT, key in after ? after[key] : ABSENT, [...path, pathKey], changes)
+  })
+  return changes
+}
+
+function setIn(state: unknown, path: PathKey[], value: unknown): unknown {
+  if (path.length === 0) return value
+  const [key, ...rest] = path
+  const container = state as Record<PathKey, unknown>
+  const copy = (Array.isArray(container) ? [...container] : { ...container }) as Record<PathKey, unknown>
+  const next = setIn(container[key], rest, value)
+  if (next === ABSENT) delete copy[key]
+  else copy[key] = next
+  return copy
+}
+
+function applyChanges<T>(state: T, changes: Change[], direction: 'redo' | 'undo'): T {
+  const ordered = direction === 'redo' ? changes : [...changes].reverse()
+  return ordered.reduce<unknown>(
+    (current, change) => setIn(current, change.path, direction === 'redo' ? change.after : change.before),
+    state
+  ) as T
+}
+
+export function createHistory<T>(state: T, label: string): HistoryState<T> {
+  return { present: state, entries: [{ label, changes: [], time: Date.now() }], index: 0, canCoalesce: false }
+}
+
+export function commitHistory<T>(history: HistoryState<T>, next: T, label: string, options: CommitOptions = {}): HistoryState<T> {
+  if (next === history.present) return history
+
+  const current = history.entries[history.index]
+  const now = Date.now()
+  const coalesce = history.canCoalesce &&
+    history.index > 0 &&
+    options.coalesceKey !== undefined &&
+    current.coalesceKey === options.coalesceKey &&
+    now - current.time < COALESCE_WINDOW_MS
+
+  // A merged step goes from the state before the entry it replaces
+  const from = coalesce ? applyChanges(history.present, current.changes, 'undo') : history.present
+  const entry: HistoryEntry = { label, changes: diff(from, next), coalesceKey: options.coalesceKey, time: now }
+  // A copy with nothing changed isn't a step
+  if (!coalesce && entry.changes.length === 0) return { ...history, present: next }
+  const kept = history.entries.slice(0, coalesce ? history.index : history.index + 1)
+  let entries = [...kept, entry]
+
+  // The oldest state left becomes the start of the history
+  if (entries.length > MAX_ENTRIES) {
+    entries = entries.slice(-MAX_ENTRIES)
+    entries[0] = { ...entries[0], changes: [] }
+  }
+  return { present: next, entries, index: entries.length - 1, canCoalesce: true }
+}
+
+export function goToHistory<T>(history: HistoryState<T>, index: number): HistoryState<T> {
+  const target = Math.max(0, Math.min(index, history.entries.length - 1))
+  if (target === history.index) return history
+
+  let present = history.present
+  for (let i = history.index; i > target; i--) present = applyChanges(present, history.entries[i].changes, 'undo')
+  for (let i = history.index + 1; i <= target; i++) present = applyChanges(present, history.entries[i].changes, 'redo')
+  return { ...history, present, index: target, canCoalesce: false }
+}
+
+// Linear undo/redo stack of labelled commands. Committing after an undo drops the
+// redo entries; rapid commits sharing a coalesce key (slider drags, typing) become one step.
+export function useHistory<T>(initialState: T, initialLabel = 'Opened') {
+  const [history, setHistory] = useState<HistoryState<T>>(() => createHistory(initialState, initialLabel))
+
+  const commit = useCallback((next: T | ((prev: T) => T), label: string, options: CommitOptions = {}) => {
+    setHistory(prev => {
+      const state = typeof next === 'function' ? (next as (prev: T) => T)(prev.present) : next
+      return commitHistory(prev, state, label, options)
+    })
+  }, [])
+
+  // Starts a fresh history, e.g. when another template is loaded
+  const reset = useCallback((state: T, label = initialLabel) => {
+    setHistory(createHistory(state, label))
+  }, [initialLabel])
+
+  const goTo = useCallback((index: number) => {
+    setHistory(prev => goToHistory(prev, index))
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory(prev => goToHistory(prev, prev.index - 1))
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory(prev => goToHistory(prev, prev.index + 1))
+  }, [])
+
+  return {
+    present: history.present,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    commit,
+    reset,
+    goTo,
+    undo,
+    redo
+  }
+}
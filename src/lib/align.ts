@@ -0,0 +1,69 @@
+import type { LayerBox } from '@/lib/render'
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+
+export type DistributeAxis = 'horizontal' | 'vertical'
+
+export type LayerMoves = Record<string, { dx: number; dy: number }>
+
+// Bounding box around several layer boxes
+export function unionBoxes(boxes: LayerBox[]): LayerBox {
+  const left = Math.min(...boxes.map(box => box.x))
+  const top = Math.min(...boxes.map(box => box.y))
+  const right = Math.max(...boxes.map(box => box.x + box.width))
+  const bottom = Math.max(...boxes.map(box => box.y + box.height))
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
+
+// Aligns the boxes to the edge or center of `bounds`, which is the selection's
+// bounding box or the canvas when only one layer is selected
+export function alignBoxes(boxes: Record<string, LayerBox>, bounds: LayerBox, mode: AlignMode): LayerMoves {
+  const moves: LayerMoves = {}
+  Object.entries(boxes).forEach(([id, box]) => {
+    switch (mode) {
+      case 'left':
+        moves[id] = { dx: bounds.x - box.x, dy: 0 }
+        break
+      case 'center':
+        moves[id] = { dx: bounds.x + (bounds.width - box.width) / 2 - box.x, dy: 0 }
+        break
+      case 'right':
+        moves[id] = { dx: bounds.x + bounds.width - box.width - box.x, dy: 0 }
+        break
+      case 'top':
+        moves[id] = { dx: 0, dy: bounds.y - box.y }
+        break
+      case 'middle':
+        moves[id] = { dx: 0, dy: bounds.y + (bounds.height - box.height) / 2 - box.y }
+        break
+      case 'bottom':
+        moves[id] = { dx: 0, dy: bounds.y + bounds.height - box.height - box.y }
+        break
+    }
+  })
+  return moves
+}
+
+// Spaces the boxes so the gaps between neighbours are equal; the outermost boxes stay put
+export function distributeBoxes(boxes: Record<string, LayerBox>, axis: DistributeAxis): LayerMoves {
+  const horizontal = axis === 'horizontal'
+  const start = (box: LayerBox) => (horizontal ? box.x : box.y)
+  const size = (box: LayerBox) => (horizontal ? box.width : box.height)
+
+  const sorted = Object.entries(boxes).sort(([, a], [, b]) => start(a) - start(b))
+  if (sorted.length < 3) return {}
+
+  const first = sorted[0][1]
+  const last = sorted[sorted.length - 1][1]
+  const totalSize = sorted.reduce((sum, [, box]) => sum + size(box), 0)
+  const gap = (start(last) + size(last) - start(first) - totalSize) / (sorted.length - 1)
+
+  const moves: LayerMoves = {}
+  let position = start(first)
+  sorted.forEach(([id, box]) => {
+    const delta = position - start(box)
+    moves[id] = horizontal ? { dx: delta, dy: 0 } : { dx: 0, dy: delta }
+    position += size(box) + gap
+  })
+  return moves
+}
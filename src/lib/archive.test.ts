@@ -0,0 +1,77 @@
+import JSZip from 'jszip'
+import { describe, expect, it } from 'vitest'
+import { buildBatchArchive, buildFileArchive, DEFAULT_FILENAME_PATTERN, formatFilename, type ArchiveEntry } from '@/lib/archive'
+
+// A 1x1 PNG is enough; the archive never decodes the images
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+async function fileNames(blob: Blob): Promise<string[]> {
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer())
+  return Object.keys(zip.files)
+}
+
+describe('formatFilename', () => {
+  it('expands the template name, row number and variables', () => {
+    expect(formatFilename(DEFAULT_FILENAME_PATTERN, {}, 3, 'Summer Sale')).toBe('Summer Sale-3.png')
+    expect(formatFilename('{{ name }}_{{size}}', { name: 'Ada', size: 'L' }, 1, 'T', 'jpg')).toBe('Ada_L.jpg')
+  })
+
+  it('drops unknown placeholders and a repeated extension', () => {
+    expect(formatFilename('{{name}}{{missing}}.png', { name: 'Ada' }, 1, 'T')).toBe('Ada.png')
+    expect(formatFilename('{{name}}.PNG', { name: 'Ada' }, 1, 'T')).toBe('Ada.png')
+  })
+
+  it('replaces characters file systems reject', () => {
+    expect(formatFilename('{{name}}', { name: 'a/b\\c:d*e?"f"<g>|h' }, 1, 'T')).toBe('a_b_c_d_e__f__g__h.png')
+    expect(formatFilename('{{name}}', { name: ' Ada\t\n Lovelace ' }, 1, 'T')).toBe('Ada Lovelace.png')
+  })
+
+  it('never starts with a dot or ends up empty', () => {
+    expect(formatFilename('{{name}}', { name: '..hidden' }, 1, 'T')).toBe('hidden.png')
+    expect(formatFilename('{{name}}', { name: '  ' }, 4, 'T')).toBe('image-4.png')
+    expect(formatFilename('{{name}}', { name: '...' }, 5, 'T')).toBe('image-5.png')
+  })
+})
+
+describe('buildBatchArchive', () => {
+  it('numbers duplicate names, ignoring case', async () => {
+    const rows = ['Ada', 'Ada', 'ADA', 'ada-2'].map(name => ({ dataUrl: PNG, variables: { name } }))
+    const names = await fileNames(await buildBatchArchive(rows, '{{name}}', 'T'))
+    expect(names).toEqual(['Ada.png', 'Ada-2.png', 'ADA-3.png', 'ada-2-2.png', 'manifest.json', 'manifest.csv'])
+  })
+
+  it('keeps files from replacing the manifests', async () => {
+    // The extension follows the data URL's type
+    const rows = ['manifest', 'Manifest'].map(name => ({ dataUrl: 'data:image/json;base64,e30=', variables: { name } }))
+    const names = await fileNames(await buildBatchArchive(rows, '{{name}}', 'T'))
+    expect(names).toEqual(['manifest-2.json', 'Manifest-3.json', 'manifest.json', 'manifest.csv'])
+  })
+
+  it('maps each file to its row in the manifests', async () => {
+    const rows: ArchiveEntry[] = [
+      { dataUrl: PNG, variables: { name: 'Ada', city: 'London, UK' } },
+      { dataUrl: 'data:image/jpeg;base64,/9j/', variables: { name: 'Ada' } }
+    ]
+    const zip = await JSZip.loadAsync(await buildBatchArchive(rows, '{{name}}', 'Cards'))
+    expect(JSON.parse(await zip.file('manifest.json')!.async('string'))).toEqual({
+      template: 'Cards',
+      files: [
+        { index: 1, file: 'Ada.png', variables: { name: 'Ada', city: 'London, UK' } },
+        { index: 2, file: 'Ada.jpg', variables: { name: 'Ada' } }
+      ]
+    })
+    expect(await zip.file('manifest.csv')!.async('string')).toBe('index,file,name,city\r\n1,Ada.png,Ada,"London, UK"\r\n2,Ada.jpg,Ada,')
+  })
+})
+
+describe('buildFileArchive', () => {
+  it('sanitizes and dedupes names', async () => {
+    const blob = new Blob(['x'])
+    const names = await fileNames(await buildFileArchive([
+      { name: 'Sheet 1/2.pdf', blob },
+      { name: 'sheet 1_2.PDF', blob },
+      { name: '', blob }
+    ]))
+    expect(names).toEqual(['Sheet 1_2.pdf', 'sheet 1_2-2.PDF', 'file'])
+  })
+})
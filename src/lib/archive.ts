@@ -0,0 +1,112 @@
+import JSZip from 'jszip'
+import { toDelimited } from '@/lib/csv'
+
+export const DEFAULT_FILENAME_PATTERN = '{{template}}-{{index}}'
+
+export interface ArchiveEntry {
+  dataUrl: string
+  variables: Record<string, string>
+}
+
+export interface ManifestEntry {
+  index: number
+  file: string
+  variables: Record<string, string>
+}
+
+// Written next to the images, so no image may take these names
+const MANIFEST_JSON = 'manifest.json'
+const MANIFEST_CSV = 'manifest.csv'
+
+// Characters that are not allowed in file names on common platforms
+const UNSAFE_FILENAME_CHARS = /[\\/:*?"<>|]/g
+
+function sanitizeFilename(name: string): string {
+  return [...name]
+    .filter(char => char.charCodeAt(0) >= 0x20)
+    .join('')
+    .replace(UNSAFE_FILENAME_CHARS, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '')
+}
+
+// Expands {{variable}}, {{index}} and {{template}} placeholders in a file name pattern.
+// `index` is 1-based; unknown placeholders expand to an empty string.
+export function formatFilename(
+  pattern: string,
+  variables: Record<string, string>,
+  index: number,
+  templateName: string,
+  extension = 'png'
+): string {
+  const base = pattern
+    .replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_match, key: string) => {
+      if (key === 'index') return String(index)
+      if (key === 'template') return templateName
+      return variables[key] ?? ''
+    })
+    .replace(new RegExp(`\\.${extension}$`, 'i'), '')
+
+  return `${sanitizeFilename(base) || `image-${index}`}.${extension}`
+}
+
+// Appends -2, -3, ... when several rows produce the same file name, and records the name
+// taken. Names are compared ignoring case: Windows and macOS would unzip "Sale.png" over
+// "sale.png".
+function uniqueFilename(name: string, used: Set<string>): string {
+  let file = name
+  if (used.has(name.toLowerCase())) {
+    const dot = name.lastIndexOf('.')
+    const stem = dot > 0 ? name.slice(0, dot) : name
+    const extension = dot > 0 ? name.slice(dot) : ''
+    let counter = 2
+    while (used.has(`${stem}-${counter}${extension}`.toLowerCase())) counter++
+    file = `${stem}-${counter}${extension}`
+  }
+  used.add(file.toLowerCase())
+  return file
+}
+
+// Packages generated images into a single ZIP with manifest.json and manifest.csv
+// mapping each file back to the variable row that produced it
+export async function buildBatchArchive(
+  entries: ArchiveEntry[],
+  pattern: string,
+  templateName: string
+): Promise<Blob> {
+  const zip = new JSZip()
+  const used = new Set([MANIFEST_JSON, MANIFEST_CSV])
+  const manifest: ManifestEntry[] = []
+
+  entries.forEach((entry, i) => {
+    const [header, base64] = entry.dataUrl.split(',')
+    const extension = header.match(/^data:image\/([a-z0-9+.-]+)/i)?.[1].replace('jpeg', 'jpg').replace('+xml', '') ?? 'png'
+    const file = uniqueFilename(formatFilename(pattern, entry.variables, i + 1, templateName, extension), used)
+
+    zip.file(file, base64, { base64: true })
+    manifest.push({ index: i + 1, file, variables: entry.variables })
+  })
+
+  const variableNames = [...new Set(manifest.flatMap(entry => Object.keys(entry.variables)))]
+  const csvRows = [
+    ['index', 'file', ...variableNames],
+    ...manifest.map(entry => [String(entry.index), entry.file, ...variableNames.map(name => entry.variables[name] ?? '')])
+  ]
+
+  zip.file(MANIFEST_JSON, JSON.stringify({ template: templateName, files: manifest }, null, 2))
+  zip.file(MANIFEST_CSV, toDelimited(csvRows))
+
+  return zip.generateAsync({ type: 'blob', compression: 'STORE' })
+}
+
+// Packages already encoded files, such as imposition sheets, into a ZIP
+export async function buildFileArchive(files: Array<{ name: string; blob: Blob }>): Promise<Blob> {
+  const zip = new JSZip()
+  const used = new Set<string>()
+  files.forEach(({ name, blob }) => {
+    const file = uniqueFilename(sanitizeFilename(name) || 'file', used)
+    zip.file(file, blob)
+  })
+  return zip.generateAsync({ type: 'blob', compression: 'STORE' })
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import {
+  evaluateCondition,
+  getConditionError,
+  getConditionVariables,
+  isLayerVisible,
+  parseCondition
+} from '@/lib/conditions'
+import { getVisibleLayers } from '@/lib/render'
+import { DEFAULT_LAYOUT_GRID, DEFAULT_PRINT_SETTINGS } from '@/lib/templates'
+import type { ShapeLayer, Template } from '@/types/template'
+
+function holds(source: string, variables: Record<string, string>): boolean {
+  return evaluateCondition(parseCondition(source), variables)
+}
+
+function shape(id: string, visibleWhen?: string): ShapeLayer {
+  return {
+    id,
+    type: 'shape',
+    shape: 'rect',
+    x: 0,
+    y: 0,
+    width: 10,
+    height: 10,
+    fill: { enabled: true, color: '#000000' },
+    stroke: { enabled: false, color: '#000000', width: 0 },
+    visibleWhen
+  }
+}
+
+describe('evaluateCondition', () => {
+  it('treats a bare variable as set when it is not blank', () => {
+    expect(holds('discount', { discount: '10%' })).toBe(true)
+    expect(holds('discount', { discount: '  ' })).toBe(false)
+    expect(holds('!discount', { discount: '' })).toBe(true)
+    expect(holds('not discount', { discount: 'yes' })).toBe(false)
+  })
+
+  it('treats missing variables as blank', () => {
+    expect(holds('badge', {})).toBe(false)
+    expect(holds('!badge', {})).toBe(true)
+    expect(holds('badge == ""', {})).toBe(true)
+    expect(holds('badge != "New"', {})).toBe(true)
+  })
+
+  it('compares ignoring case and surrounding spaces', () => {
+    expect(holds('size == "Large"', { size: ' large ' })).toBe(true)
+    expect(holds('size != "large"', { size: 'Small' })).toBe(true)
+    expect(holds('title contains "SALE"', { title: 'Summer sale' })).toBe(true)
+    expect(holds('title contains "winter"', { title: 'Summer sale' })).toBe(false)
+  })
+
+  it('compares numbers as numbers and other values as text', () => {
+    expect(holds('price > 100', { price: '250' })).toBe(true)
+    expect(holds('price > 100', { price: '99.5' })).toBe(false)
+    expect(holds('price >= 100', { price: '100' })).toBe(true)
+    expect(holds('price < -1', { price: '-5' })).toBe(true)
+    expect(holds('price <= 9', { price: '10' })).toBe(false)
+    expect(holds('name < "b"', { name: 'Ada' })).toBe(true)
+  })
+
+  it('binds and tighter than or, and not tighter than both', () => {
+    expect(holds('a or b and c', { a: 'x' })).toBe(true)
+    expect(holds('a || b && c', { b: 'x' })).toBe(false)
+    expect(holds('!a and b', { b: 'x' })).toBe(true)
+    expect(holds('!a or b', { a: 'x' })).toBe(false)
+  })
+
+  it('groups with parentheses', () => {
+    expect(holds('(a or b) and c', { a: 'x' })).toBe(false)
+    expect(holds('(a or b) and c', { a: 'x', c: 'x' })).toBe(true)
+    expect(holds('!(a and b)', { a: 'x' })).toBe(true)
+    expect(holds('price > 100 and (size == "Large" or badge)', { price: '150', badge: 'New' })).toBe(true)
+  })
+
+  it('reads quoted literals with either quote and escapes', () => {
+    expect(holds(`label == 'Buy "now"'`, { label: 'buy "now"' })).toBe(true)
+    expect(holds('label == "it\\"s"', { label: 'it"s' })).toBe(true)
+    expect(holds('label == "a and b"', { label: 'A and B' })).toBe(true)
+  })
+
+  it('reads {{braced}} names with spaces', () => {
+    expect(holds('{{first name}} == "Ada"', { 'first name': 'Ada' })).toBe(true)
+    expect(getConditionVariables('{{first name}} and price > 1 or price')).toEqual(['first name', 'price'])
+  })
+})
+
+describe('parseCondition errors', () => {
+  it('describes the first problem', () => {
+    expect(getConditionError('')).toBe('The rule is empty')
+    expect(getConditionError('size == "Large')).toBe('Unclosed quote')
+    expect(getConditionError('{{first name')).toBe('Unclosed or empty {{variable}}')
+    expect(getConditionError('(a or b')).toBe('Missing ")"')
+    expect(getConditionError('price >')).toBe('Expected a variable or value at the end')
+    expect(getConditionError('and a')).toBe('Expected a variable or value before "&&"')
+    expect(getConditionError('a b')).toBe('Unexpected "b"')
+    expect(getConditionError('price $ 3')).toBe('Unexpected "$"')
+    expect(getConditionError('price > 100 and badge')).toBeNull()
+  })
+
+  it('reads no variables from an invalid rule', () => {
+    expect(getConditionVariables('price >')).toEqual([])
+  })
+})
+
+describe('isLayerVisible', () => {
+  it('shows layers without a rule or with a rule that does not parse', () => {
+    expect(isLayerVisible(shape('a'), {})).toBe(true)
+    expect(isLayerVisible(shape('b', '  '), {})).toBe(true)
+    expect(isLayerVisible(shape('c', '(price >'), {})).toBe(true)
+    expect(isLayerVisible(shape('d', 'price > 100'), { price: '5' })).toBe(false)
+  })
+
+  it('filters the layers drawn without throwing on malformed rules', () => {
+    const template: Template = {
+      id: 't',
+      name: 'Rules',
+      backgroundImage: '',
+      layers: [shape('always'), shape('broken', 'size == "Large'), shape('large', 'size == "Large"'), shape('hidden', 'size == "Large"')],
+      groups: [],
+      guides: [],
+      layoutGrid: DEFAULT_LAYOUT_GRID,
+      variableSchema: [],
+      print: DEFAULT_PRINT_SETTINGS,
+      width: 100,
+      height: 100,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z'
+    }
+    template.layers[3] = { ...template.layers[3], hidden: true }
+
+    expect(getVisibleLayers(template, { size: 'small' }).map(layer => layer.id)).toEqual(['always', 'broken'])
+    expect(getVisibleLayers(template, { size: 'large' }).map(layer => layer.id)).toEqual(['always', 'broken', 'large'])
+    // The design view draws every layer that isn't hidden, whatever its rule
+    expect(getVisibleLayers(template).map(layer => layer.id)).toEqual(['always', 'broken', 'large'])
+  })
+})
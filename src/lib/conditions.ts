@@ -0,0 +1,245 @@
+import { parseNumber } from '@/lib/formatters'
+import type { Layer } from '@/types/template'
+
+// Visibility rules: a small expression language over template variables.
+//   discount                     true when the variable is not blank
+//   !subtitle, not subtitle      true when it is blank
+//   size == "Large"              also !=, >, >=, <, <= and contains
+//   price > 100 and badge        also or, && and ||, with parentheses for grouping
+// Names with spaces or other symbols can be written as {{first name}}. Comparisons ignore
+// case, and compare as numbers when both sides are numbers.
+
+type CompareOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'contains'
+
+export type Condition =
+  | { type: 'variable'; name: string }
+  | { type: 'literal'; value: string }
+  | { type: 'not'; operand: Condition }
+  | { type: 'and' | 'or'; left: Condition; right: Condition }
+  | { type: 'compare'; operator: CompareOperator; left: Condition; right: Condition }
+
+type Token =
+  | { type: 'name'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: string }
+  | { type: 'symbol'; value: string }
+
+const SYMBOLS = ['&&', '||', '==', '!=', '>=', '<=', '>', '<', '!', '(', ')']
+const COMPARE_OPERATORS: CompareOperator[] = ['==', '!=', '>', '>=', '<', '<=', 'contains']
+const KEYWORDS: Record<string, string> = { and: '&&', or: '||', not: '!' }
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const rest = source.slice(i)
+    const space = rest.match(/^\s+/)
+    if (space) {
+      i += space[0].length
+      continue
+    }
+
+    if (rest.startsWith('{{')) {
+      const close = rest.indexOf('}}')
+      const name = close >= 0 ? rest.slice(2, close).trim() : ''
+      if (!name) throw new Error('Unclosed or empty {{variable}}')
+      tokens.push({ type: 'name', value: name })
+      i += close + 2
+      continue
+    }
+
+    if (rest[0] === '"' || rest[0] === "'") {
+      let value = ''
+      let j = 1
+      while (j < rest.length && rest[j] !== rest[0]) {
+        if (rest[j] === '\\' && j + 1 < rest.length) j++
+        value += rest[j]
+        j++
+      }
+      if (j >= rest.length) throw new Error('Unclosed quote')
+      tokens.push({ type: 'string', value })
+      i += j + 1
+      continue
+    }
+
+    const number = rest.match(/^-?\d+(\.\d+)?/)
+    if (number) {
+      tokens.push({ type: 'number', value: number[0] })
+      i += number[0].length
+      continue
+    }
+
+    const word = rest.match(/^[\p{L}_][\p{L}\p{N}_.-]*/u)
+    if (word) {
+      const keyword = KEYWORDS[word[0].toLowerCase()]
+      tokens.push(keyword ? { type: 'symbol', value: keyword } : { type: 'name', value: word[0] })
+      i += word[0].length
+      continue
+    }
+
+    const symbol = SYMBOLS.find(candidate => rest.startsWith(candidate))
+    if (!symbol) throw new Error(`Unexpected "${rest[0]}"`)
+    tokens.push({ type: 'symbol', value: symbol })
+    i += symbol.length
+  }
+
+  return tokens
+}
+
+// Parses a visibility rule; throws an Error describing the first problem
+export function parseCondition(source: string): Condition {
+  const tokens = tokenize(source)
+  let position = 0
+
+  const peek = () => tokens[position]
+  const isSymbol = (value: string) => peek()?.type === 'symbol' && peek().value === value
+  const isOperator = () => {
+    const token = peek()
+    if (!token) return false
+    if (token.type === 'name') return token.value.toLowerCase() === 'contains'
+    return token.type === 'symbol' && (COMPARE_OPERATORS as string[]).includes(token.value)
+  }
+
+  function parseOr(): Condition {
+    let left = parseAnd()
+    while (isSymbol('||')) {
+      position++
+      left = { type: 'or', left, right: parseAnd() }
+    }
+    return left
+  }
+
+  function parseAnd(): Condition {
+    let left = parseNot()
+    while (isSymbol('&&')) {
+      position++
+      left = { type: 'and', left, right: parseNot() }
+    }
+    return left
+  }
+
+  function parseNot(): Condition {
+    if (isSymbol('!')) {
+      position++
+      return { type: 'not', operand: parseNot() }
+    }
+    const left = parseOperand()
+    if (!isOperator()) return left
+    const operator = peek().value.toLowerCase() as CompareOperator
+    position++
+    return { type: 'compare', operator, left, right: parseOperand() }
+  }
+
+  function parseOperand(): Condition {
+    const token = peek()
+    if (!token) throw new Error('Expected a variable or value at the end')
+    position++
+    if (token.type === 'name') return { type: 'variable', name: token.value }
+    if (token.type === 'string' || token.type === 'number') return { type: 'literal', value: token.value }
+    if (token.value === '(') {
+      const inner = parseOr()
+      if (!isSymbol(')')) throw new Error('Missing ")"')
+      position++
+      return inner
+    }
+    throw new Error(`Expected a variable or value before "${token.value}"`)
+  }
+
+  if (tokens.length === 0) throw new Error('The rule is empty')
+  const condition = parseOr()
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}"`)
+  return condition
+}
+
+// Describes why a rule can't be used, or null when it is valid
+export function getConditionError(source: string): string | null {
+  try {
+    parseCondition(source)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+// Variable names a rule reads, in the order they appear; none when it is invalid
+export function getConditionVariables(source: string): string[] {
+  const names: string[] = []
+  const visit = (condition: Condition) => {
+    switch (condition.type) {
+      case 'variable':
+        if (!names.includes(condition.name)) names.push(condition.name)
+        break
+      case 'not':
+        visit(condition.operand)
+        break
+      case 'and':
+      case 'or':
+      case 'compare':
+        visit(condition.left)
+        visit(condition.right)
+        break
+    }
+  }
+
+  try {
+    visit(parseCondition(source))
+  } catch {
+    return []
+  }
+  return names
+}
+
+function compareValues(operator: CompareOperator, left: string, right: string): boolean {
+  const a = left.trim().toLowerCase()
+  const b = right.trim().toLowerCase()
+  if (operator === 'contains') return a.includes(b)
+
+  const leftNumber = parseNumber(a)
+  const rightNumber = parseNumber(b)
+  const order = leftNumber !== null && rightNumber !== null
+    ? leftNumber - rightNumber
+    : a.localeCompare(b)
+
+  switch (operator) {
+    case '==': return order === 0
+    case '!=': return order !== 0
+    case '>': return order > 0
+    case '>=': return order >= 0
+    case '<': return order < 0
+    case '<=': return order <= 0
+  }
+}
+
+function valueOf(condition: Condition, variables: Record<string, string>): string {
+  if (condition.type === 'variable') return variables[condition.name] ?? ''
+  if (condition.type === 'literal') return condition.value
+  return evaluateCondition(condition, variables) ? 'true' : ''
+}
+
+export function evaluateCondition(condition: Condition, variables: Record<string, string>): boolean {
+  switch (condition.type) {
+    case 'variable':
+    case 'literal':
+      return valueOf(condition, variables).trim() !== ''
+    case 'not':
+      return !evaluateCondition(condition.operand, variables)
+    case 'and':
+      return evaluateCondition(condition.left, variables) && evaluateCondition(condition.right, variables)
+    case 'or':
+      return evaluateCondition(condition.left, variables) || evaluateCondition(condition.right, variables)
+    case 'compare':
+      return compareValues(condition.operator, valueOf(condition.left, variables), valueOf(condition.right, variables))
+  }
+}
+
+// Whether a layer's visibility rule holds. Layers without a rule, or with one that
+// doesn't parse, are always shown so a typo never silently drops content.
+export function isLayerVisible(layer: Layer, variables: Record<string, string>): boolean {
+  if (!layer.visibleWhen?.trim()) return true
+  try {
+    return evaluateCondition(parseCondition(layer.visibleWhen), variables)
+  } catch {
+    return true
+  }
+}
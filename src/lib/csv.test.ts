@@ -0,0 +1,154 @@
+import JSZip from 'jszip'
+import { describe, expect, it } from 'vitest'
+import { buildBatchTable, detectDelimiter, parseDelimited, toDelimited } from '@/lib/csv'
+import { readSpreadsheetAsCsv } from '@/lib/spreadsheet'
+
+// A minimal workbook: one sheet of inline strings, a number and a date cell, which is a
+// day count styled with the built-in date format
+async function makeWorkbook(): Promise<File> {
+  const zip = new JSZip()
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`)
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`)
+  zip.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="Sheet1" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`)
+  zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`)
+  zip.file('xl/styles.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14" applyNumberFormat="1"/></cellXfs>
+</styleSheet>`)
+  zip.file('xl/worksheets/sheet1.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetData>
+<row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c><c r="B1" t="inlineStr"><is><t>Price</t></is></c><c r="C1" t="inlineStr"><is><t>Date</t></is></c></row>
+<row r="2"><c r="A2" t="inlineStr"><is><t>Smith, Ada</t></is></c><c r="B2"><v>1999.5</v></c><c r="C2" s="1"><v>46314</v></c></row>
+</sheetData>
+</worksheet>`)
+  const data = await zip.generateAsync({ type: 'uint8array' })
+  return new File([data], 'Batch.XLSX')
+}
+
+describe('detectDelimiter', () => {
+  it('picks the most common delimiter on the first line', () => {
+    expect(detectDelimiter('name,price\nAda,10')).toBe(',')
+    expect(detectDelimiter('name;price;date\nAda;10,50;2026-10-19')).toBe(';')
+    expect(detectDelimiter('name\tprice\nAda\t10')).toBe('\t')
+  })
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('"a,b,c";d;e\n1;2;3')).toBe(';')
+  })
+
+  it('falls back to a comma for a single column', () => {
+    expect(detectDelimiter('name\nAda')).toBe(',')
+  })
+})
+
+describe('parseDelimited', () => {
+  it('keeps commas inside quoted fields', () => {
+    expect(parseDelimited('name,city\n"Smith, Ada","London, UK"')).toEqual([
+      ['name', 'city'],
+      ['Smith, Ada', 'London, UK']
+    ])
+  })
+
+  it('keeps newlines inside quoted fields', () => {
+    expect(parseDelimited('name,address\nAda,"1 Main St\nSpringfield"\nBob,x')).toEqual([
+      ['name', 'address'],
+      ['Ada', '1 Main St\nSpringfield'],
+      ['Bob', 'x']
+    ])
+  })
+
+  it('turns doubled quotes into one', () => {
+    expect(parseDelimited('quote\n"She said ""hi"""')).toEqual([['quote'], ['She said "hi"']])
+  })
+
+  it('accepts CRLF line endings and skips blank lines', () => {
+    expect(parseDelimited('a,b\r\n1,2\r\n\r\n3,4\r\n')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']])
+  })
+
+  it('strips a leading byte order mark', () => {
+    expect(parseDelimited('\uFEFFname,price\nAda,10')).toEqual([['name', 'price'], ['Ada', '10']])
+  })
+
+  it('detects semicolon and tab delimited input', () => {
+    expect(parseDelimited('name;price\nAda;"10,50"')).toEqual([['name', 'price'], ['Ada', '10,50']])
+    expect(parseDelimited('name\tprice\nAda\t10')).toEqual([['name', 'price'], ['Ada', '10']])
+  })
+
+  it('reads back what toDelimited writes', () => {
+    const rows = [['name', 'note'], ['Ada', 'a, "quoted"\nvalue']]
+    expect(parseDelimited(toDelimited(rows))).toEqual(rows)
+  })
+})
+
+describe('buildBatchTable', () => {
+  it('matches headers to variables whatever their case and separators', () => {
+    const table = buildBatchTable([
+      ['First Name', 'last_name', 'Price'],
+      ['Ada', 'Lovelace', '10']
+    ], ['firstName', 'lastName', 'price'])
+    expect(table.columns).toEqual({ firstName: 0, lastName: 1, price: 2 })
+    expect(table.rows).toEqual([{ firstName: 'Ada', lastName: 'Lovelace', price: '10' }])
+    expect(table.unknownColumns).toEqual([])
+    expect(table.missingColumns).toEqual([])
+  })
+
+  it('reports unknown and missing columns', () => {
+    const table = buildBatchTable([['name', 'Notes', ''], ['Ada', 'x', 'y']], ['name', 'price'])
+    expect(table.unknownColumns).toEqual(['Notes', 'Column 3'])
+    expect(table.missingColumns).toEqual(['price'])
+    expect(table.rows).toEqual([{ name: 'Ada', price: '' }])
+  })
+
+  it('uses the first of two columns for the same variable', () => {
+    const table = buildBatchTable([['name', 'Name'], ['Ada', 'Bob']], ['name'])
+    expect(table.rows).toEqual([{ name: 'Ada' }])
+    expect(table.unknownColumns).toEqual(['Name'])
+  })
+
+  it('reports empty values and extra values per row', () => {
+    const table = buildBatchTable([
+      ['name', 'price'],
+      ['Ada', ' '],
+      ['Bob', '10', 'extra'],
+      ['Cy', '5']
+    ], ['name', 'price'])
+    expect(table.rows[0]).toEqual({ name: 'Ada', price: '' })
+    expect(table.rowIssues).toEqual([
+      { row: 1, missing: ['price'], extraValues: 0 },
+      { row: 2, missing: [], extraValues: 1 }
+    ])
+  })
+})
+
+describe('readSpreadsheetAsCsv', () => {
+  it('converts the first sheet of an .xlsx workbook', async () => {
+    const csv = await readSpreadsheetAsCsv(await makeWorkbook())
+    expect(parseDelimited(csv)).toEqual([
+      ['Name', 'Price', 'Date'],
+      ['Smith, Ada', '1999.5', '2026-10-19']
+    ])
+  })
+
+  it('passes delimited text through', async () => {
+    const csv = await readSpreadsheetAsCsv(new File(['name\tprice\nAda\t"10,50"'], 'batch.tsv'))
+    expect(csv).toBe('name,price\r\nAda,"10,50"')
+  })
+})
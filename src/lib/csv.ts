@@ -0,0 +1,154 @@
+export type Delimiter = ',' | '\t' | ';' | '|'
+
+const CANDIDATE_DELIMITERS: Delimiter[] = [',', '\t', ';', '|']
+
+// Picks the delimiter that appears most often outside quotes on the first line
+export function detectDelimiter(text: string): Delimiter {
+  const counts = new Map<Delimiter, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]))
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break
+    } else if (!inQuotes && counts.has(char as Delimiter)) {
+      counts.set(char as Delimiter, counts.get(char as Delimiter)! + 1)
+    }
+  }
+
+  let best: Delimiter = ','
+  counts.forEach((count, delimiter) => {
+    if (count > counts.get(best)!) best = delimiter
+  })
+  return best
+}
+
+// RFC 4180 parser: quoted fields may contain delimiters, newlines and "" escapes.
+// Accepts CRLF or LF line endings and strips a leading UTF-8 BOM.
+export function parseDelimited(input: string, delimiter: Delimiter = detectDelimiter(input)): string[][] {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let i = 0
+
+  while (i < text.length) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i += 2
+          continue
+        }
+        inQuotes = false
+      } else {
+        field += char
+      }
+      i++
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+      if (char === '\r' && text[i + 1] === '\n') i++
+    } else {
+      field += char
+    }
+    i++
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no data
+  return rows.filter(r => r.some(value => value.trim() !== ''))
+}
+
+function escapeField(value: string, delimiter: string): string {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+export function toDelimited(rows: string[][], delimiter: Delimiter = ','): string {
+  return rows.map(row => row.map(value => escapeField(value, delimiter)).join(delimiter)).join('\r\n')
+}
+
+// "First Name", "first_name" and "firstName" all map to the same variable
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+export interface RowIssue {
+  // 1-based index of the data row, not counting the header
+  row: number
+  missing: string[]
+  extraValues: number
+}
+
+export interface BatchTable {
+  headers: string[]
+  // Header index for each template variable that has a column
+  columns: Record<string, number>
+  rows: Array<Record<string, string>>
+  unknownColumns: string[]
+  missingColumns: string[]
+  rowIssues: RowIssue[]
+}
+
+// Maps parsed rows onto template variables and reports anything that does not line up
+export function buildBatchTable(table: string[][], variableNames: string[]): BatchTable {
+  const [headerRow = [], ...dataRows] = table
+  const headers = headerRow.map(h => h.trim())
+
+  const variablesByKey = new Map(variableNames.map(name => [normalizeHeader(name), name]))
+  const columns: Record<string, number> = {}
+  const unknownColumns: string[] = []
+
+  headers.forEach((header, index) => {
+    const variable = variablesByKey.get(normalizeHeader(header))
+    if (variable && columns[variable] === undefined) {
+      columns[variable] = index
+    } else {
+      unknownColumns.push(header || `Column ${index + 1}`)
+    }
+  })
+
+  const missingColumns = variableNames.filter(name => columns[name] === undefined)
+  const rowIssues: RowIssue[] = []
+
+  const rows = dataRows.map((values, rowIndex) => {
+    const record: Record<string, string> = {}
+    const missing: string[] = []
+
+    variableNames.forEach(name => {
+      const value = columns[name] === undefined ? '' : (values[columns[name]] ?? '').trim()
+      record[name] = value
+      if (!value && columns[name] !== undefined) missing.push(name)
+    })
+
+    const extraValues = Math.max(0, values.length - headers.length)
+    if (missing.length > 0 || extraValues > 0) {
+      rowIssues.push({ row: rowIndex + 1, missing, extraValues })
+    }
+    return record
+  })
+
+  return { headers, columns, rows, unknownColumns, missingColumns, rowIssues }
+}
@@ -0,0 +1,120 @@
+import { renderPrintTemplate, setImageResolution } from '@/lib/print'
+import { canvasToBlob } from '@/lib/render'
+import { renderTemplateSvg, type SvgOptions } from '@/lib/svg'
+import type { Template } from '@/types/template'
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif' | 'svg'
+
+export interface ExportOptions {
+  format: ExportFormat
+  // 0-1, used by the lossy formats
+  quality: number
+  // Keeps areas without a background image see-through; otherwise they are white
+  transparent: boolean
+  // Lossy exports lower their quality to stay under this many bytes; 0 for no limit
+  maxBytes: number
+  // SVG only, see SvgOptions
+  outlineText: boolean
+  embedImages: boolean
+}
+
+export interface ExportFormatInfo {
+  label: string
+  mimeType: string
+  extension: string
+  lossy: boolean
+  transparency: boolean
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false, transparency: true },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true, transparency: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true, transparency: true },
+  avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true, transparency: true },
+  svg: { label: 'SVG', mimeType: 'image/svg+xml', extension: 'svg', lossy: false, transparency: true }
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.9,
+  transparent: true,
+  maxBytes: 0,
+  outlineText: false,
+  embedImages: true
+}
+
+// Lowest quality tried when shrinking an export to fit maxBytes
+const MIN_QUALITY = 0.3
+
+const supportCache = new Map<ExportFormat, boolean>()
+
+// Browsers fall back to PNG for types they can't encode, so check what comes back
+export function isFormatSupported(format: ExportFormat): boolean {
+  // SVG is serialized by hand rather than by the canvas
+  if (format === 'svg') return true
+  let supported = supportCache.get(format)
+  if (supported === undefined) {
+    const canvas = document.createElement('canvas')
+    canvas.width = canvas.height = 1
+    const { mimeType } = EXPORT_FORMATS[format]
+    supported = canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`)
+    supportCache.set(format, supported)
+  }
+  return supported
+}
+
+// Whether the exported image keeps transparent areas with these options
+export function hasTransparentBackground(options: ExportOptions, backgroundImage: string): boolean {
+  return options.transparent && !backgroundImage && EXPORT_FORMATS[options.format].transparency
+}
+
+// Fill drawn under the layers, see RenderOptions.background
+function exportBackground(options: ExportOptions, backgroundImage: string): string | undefined {
+  return hasTransparentBackground(options, backgroundImage) ? undefined : '#ffffff'
+}
+
+// Encodes a rendered canvas. With maxBytes set, lossy formats step the quality down
+// until the file fits or MIN_QUALITY is reached; the smallest attempt is returned.
+async function encodeCanvas(canvas: HTMLCanvasElement, options: ExportOptions): Promise<Blob> {
+  const { mimeType, lossy } = EXPORT_FORMATS[options.format]
+  let quality = options.quality
+  let blob = await canvasToBlob(canvas, mimeType, lossy ? quality : undefined)
+
+  while (lossy && options.maxBytes > 0 && blob.size > options.maxBytes && quality > MIN_QUALITY) {
+    quality = Math.max(MIN_QUALITY, quality - 0.1)
+    blob = await canvasToBlob(canvas, mimeType, quality)
+  }
+  return blob
+}
+
+// Renders a template with the given variables (the design view without) in the chosen format.
+// onLinkedImage hears about SVG images that stay linked, see SvgOptions.
+export async function exportTemplate(
+  template: Template,
+  variables: Record<string, string> | undefined,
+  options: ExportOptions,
+  onLinkedImage?: SvgOptions['onLinkedImage']
+): Promise<Blob> {
+  const background = exportBackground(options, template.backgroundImage)
+  if (options.format === 'svg') {
+    const svg = await renderTemplateSvg(template, variables, {
+      outlineText: options.outlineText,
+      embedImages: options.embedImages,
+      background,
+      onLinkedImage
+    })
+    return new Blob([svg], { type: EXPORT_FORMATS.svg.mimeType })
+  }
+  const blob = await encodeCanvas(await renderPrintTemplate(template, variables, { background }), options)
+  return template.print.enabled ? setImageResolution(blob, template.print.dpi) : blob
+}
+
+export function exportFilename(name: string, options: ExportOptions): string {
+  return `${name}.${EXPORT_FORMATS[options.format].extension}`
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,8 @@
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file instanceof File ? file.name : 'file'}`))
+    reader.readAsDataURL(file)
+  })
+}
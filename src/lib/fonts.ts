@@ -0,0 +1,23 @@
+// Google Fonts offered in the editor
+export const PREMIUM_FONTS = [
+  { name: 'Inter', category: 'Sans Serif' },
+  { name: 'Playfair Display', category: 'Serif' },
+  { name: 'Montserrat', category: 'Sans Serif' },
+  { name: 'Roboto', category: 'Sans Serif' },
+  { name: 'Open Sans', category: 'Sans Serif' },
+  { name: 'Lato', category: 'Sans Serif' },
+  { name: 'Poppins', category: 'Sans Serif' },
+  { name: 'Oswald', category: 'Sans Serif' },
+  { name: 'Merriweather', category: 'Serif' },
+  { name: 'Raleway', category: 'Sans Serif' },
+  { name: 'Source Sans Pro', category: 'Sans Serif' },
+  { name: 'Nunito', category: 'Sans Serif' },
+  { name: 'Crimson Text', category: 'Serif' },
+  { name: 'Libre Baskerville', category: 'Serif' },
+  { name: 'Dancing Script', category: 'Script' },
+  { name: 'Pacifico', category: 'Script' },
+  { name: 'Lobster', category: 'Script' },
+  { name: 'Bebas Neue', category: 'Display' },
+  { name: 'Anton', category: 'Display' },
+  { name: 'Righteous', category: 'Display' }
+]
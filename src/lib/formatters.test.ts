@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { applyFormatters, FORMATTERS, isKnownFormatter, parsePlaceholderExpression } from '@/lib/formatters'
+import { interpolateSpans } from '@/lib/placeholders'
+
+// Runs a placeholder expression such as `price | currency:EUR` against a value
+function format(expression: string, value: string): string {
+  return applyFormatters(value, parsePlaceholderExpression(expression).formatters)
+}
+
+describe('formatters', () => {
+  it('upper, lower and title change the case', () => {
+    expect(format('name | upper', 'john doe')).toBe('JOHN DOE')
+    expect(format('name | lower', 'John DOE')).toBe('john doe')
+    expect(format('name | title', 'jOHN doe-smith')).toBe('John Doe-Smith')
+    expect(format('name | title', 'élodie martin')).toBe('Élodie Martin')
+  })
+
+  it('currency formats with the given code and locale', () => {
+    expect(format('price | currency:EUR,en-US', '1999.5')).toBe('€1,999.50')
+    expect(format('price | currency:eur,de-DE', '1,999.50')).toBe('1.999,50 €')
+  })
+
+  it('currency defaults to US dollars without a code', () => {
+    const expected = new Intl.NumberFormat(undefined, { style: 'currency', currency: 'USD' }).format(1999.5)
+    expect(format('price | currency', '1999.5')).toBe(expected)
+  })
+
+  it('currency leaves values it cannot format unchanged', () => {
+    expect(format('price | currency:EUR', 'free')).toBe('free')
+    expect(format('price | currency:NOPE', '10')).toBe('10')
+  })
+
+  it('number rounds to the given decimals', () => {
+    expect(format('count | number:2,en-US', '1234.5')).toBe('1,234.50')
+    expect(format('count | number:0,en-US', '1234.5')).toBe('1,235')
+    expect(format('count | number', 'n/a')).toBe('n/a')
+  })
+
+  it('date formats valid dates with a quoted pattern', () => {
+    expect(format('date | date:"d MMM yyyy"', '2026-10-19')).toBe('19 Oct 2026')
+    expect(format("date | date:'yyyy/MM/dd'", '2026-10-19')).toBe('2026/10/19')
+    expect(format('date | date', '2026-10-19')).toBe('Oct 19, 2026')
+  })
+
+  it('date leaves invalid input and patterns unchanged', () => {
+    expect(format('date | date:"d MMM yyyy"', 'next tuesday')).toBe('next tuesday')
+    expect(format('date | date:"yyyy-MM-dd j"', '2026-10-19')).toBe('2026-10-19')
+  })
+
+  it('truncate shortens text past the limit, counting the ellipsis', () => {
+    expect(format('title | truncate:10', 'Short')).toBe('Short')
+    expect(format('title | truncate:10', 'Ten chars!')).toBe('Ten chars!')
+    expect(format('title | truncate:10', 'Eleven char')).toBe('Eleven ch…')
+    expect(format('title | truncate:7', 'Hello world')).toBe('Hello…')
+    expect(format('title | truncate:abc', 'Hello world')).toBe('Hello world')
+  })
+
+  it('skips unknown formatters', () => {
+    expect(isKnownFormatter('shout')).toBe(false)
+    expect(isKnownFormatter('toString')).toBe(false)
+    expect(format('name | shout | upper', 'john')).toBe('JOHN')
+  })
+
+  it('has a test for every formatter', () => {
+    expect(Object.keys(FORMATTERS).sort()).toEqual(['currency', 'date', 'lower', 'number', 'title', 'truncate', 'upper'])
+  })
+})
+
+describe('parsePlaceholderExpression', () => {
+  it('parses the name and formatter arguments', () => {
+    expect(parsePlaceholderExpression('price | currency:EUR')).toEqual({
+      name: 'price',
+      formatters: [{ name: 'currency', args: ['EUR'] }]
+    })
+    expect(parsePlaceholderExpression(' title|truncate:40|upper ')).toEqual({
+      name: 'title',
+      formatters: [{ name: 'truncate', args: ['40'] }, { name: 'upper', args: [] }]
+    })
+  })
+
+  it('keeps separators inside quoted arguments', () => {
+    expect(parsePlaceholderExpression('when | date:"HH:mm, d MMM | yyyy"')).toEqual({
+      name: 'when',
+      formatters: [{ name: 'date', args: ['HH:mm, d MMM | yyyy'] }]
+    })
+  })
+
+  it('is applied when placeholders are filled in', () => {
+    const spans = interpolateSpans([{ text: 'Now {{price | currency:EUR,en-US}} for {{name | upper}}' }], { price: '1999.5', name: 'ada' })
+    expect(spans.map(span => span.text).join('')).toBe('Now €1,999.50 for ADA')
+  })
+})
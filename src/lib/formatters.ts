@@ -0,0 +1,129 @@
+import { format, isValid, parseISO } from 'date-fns'
+
+// A formatter applied in a placeholder, e.g. `currency:EUR` in {{price | currency:EUR}}
+export interface FormatterCall {
+  name: string
+  args: string[]
+}
+
+type Formatter = (value: string, args: string[]) => string
+
+const ELLIPSIS = '…'
+
+// Accepts plain numbers and thousands separators, e.g. "1999.5" or "1,999.50"
+export function parseNumber(value: string): number | null {
+  const cleaned = value.trim().replace(/[,\s](?=\d{3}(\D|$))/g, '')
+  if (!cleaned) return null
+  const number = Number(cleaned)
+  return Number.isFinite(number) ? number : null
+}
+
+export function parseDate(value: string): Date | null {
+  const trimmed = value.trim()
+  const iso = parseISO(trimmed)
+  if (isValid(iso)) return iso
+  const parsed = new Date(trimmed)
+  return isValid(parsed) ? parsed : null
+}
+
+function titleCase(value: string): string {
+  return value.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_match, separator: string, letter: string) => separator + letter.toUpperCase())
+}
+
+// Values a formatter can't handle (a price that isn't a number, an unknown currency)
+// are passed through unchanged so the problem is visible in the output.
+export const FORMATTERS: Record<string, Formatter> = {
+  upper: value => value.toUpperCase(),
+  lower: value => value.toLowerCase(),
+  title: titleCase,
+  // currency:CODE[,locale]
+  currency: (value, [currency = 'USD', locale]) => {
+    const number = parseNumber(value)
+    if (number === null) return value
+    try {
+      return new Intl.NumberFormat(locale || undefined, { style: 'currency', currency: currency.toUpperCase() }).format(number)
+    } catch {
+      return value
+    }
+  },
+  // number[:decimals[,locale]]
+  number: (value, [decimals, locale]) => {
+    const number = parseNumber(value)
+    if (number === null) return value
+    const digits = decimals === undefined || decimals === '' ? undefined : Math.min(20, Math.max(0, Number(decimals) || 0))
+    try {
+      return new Intl.NumberFormat(locale || undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(number)
+    } catch {
+      return value
+    }
+  },
+  // date[:pattern] with date-fns tokens, e.g. date:"d MMM yyyy"
+  date: (value, [pattern = 'PP']) => {
+    const date = parseDate(value)
+    if (!date) return value
+    try {
+      return format(date, pattern)
+    } catch {
+      return value
+    }
+  },
+  // truncate:length, counting the ellipsis
+  truncate: (value, [length]) => {
+    const max = Math.floor(Number(length))
+    const chars = [...value]
+    if (!(max > 0) || chars.length <= max) return value
+    return chars.slice(0, max - 1).join('').trimEnd() + ELLIPSIS
+  }
+}
+
+export function isKnownFormatter(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FORMATTERS, name)
+}
+
+// Applies formatters left to right; unknown ones are skipped
+export function applyFormatters(value: string, calls: FormatterCall[]): string {
+  return calls.reduce((result, call) => (isKnownFormatter(call.name) ? FORMATTERS[call.name](result, call.args) : result), value)
+}
+
+// Splits on a separator outside single or double quotes
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  let quote: string | null = null
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === separator) {
+      parts.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  parts.push(current)
+  return parts
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim()
+  return /^(["']).*\1$/s.test(trimmed) ? trimmed.slice(1, -1) : trimmed
+}
+
+// Parses the inside of a placeholder: `name | formatter:arg,"quoted arg" | formatter`
+export function parsePlaceholderExpression(expression: string): { name: string; formatters: FormatterCall[] } {
+  const [name, ...calls] = splitOutsideQuotes(expression, '|')
+  return {
+    name: name.trim(),
+    formatters: calls
+      .map(call => {
+        const [callName, ...rest] = splitOutsideQuotes(call, ':')
+        const args = rest.length > 0 ? splitOutsideQuotes(rest.join(':'), ',').map(unquote) : []
+        return { name: callName.trim(), args }
+      })
+      .filter(call => call.name)
+  }
+}
@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_IMPOSITION_OPTIONS,
+  findImpositionPreset,
+  getImpositionLayout,
+  IMPOSITION_PRESETS,
+  type ImpositionBox,
+  type ImpositionOptions
+} from '@/lib/imposition'
+import { getPrintCanvasSize } from '@/lib/print'
+import { DEFAULT_LAYOUT_GRID, DEFAULT_PRINT_SETTINGS } from '@/lib/templates'
+import type { PrintSettings, Template } from '@/types/template'
+
+function template(width: number, height: number, print: Partial<PrintSettings> = {}): Template {
+  return {
+    id: 'card',
+    name: 'Card',
+    backgroundImage: '',
+    layers: [],
+    groups: [],
+    guides: [],
+    layoutGrid: DEFAULT_LAYOUT_GRID,
+    variableSchema: [],
+    print: { ...DEFAULT_PRINT_SETTINGS, ...print },
+    width,
+    height,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  }
+}
+
+function printTemplate(overrides: Partial<PrintSettings> = {}): Template {
+  const print = { ...DEFAULT_PRINT_SETTINGS, enabled: true, ...overrides }
+  const { width, height } = getPrintCanvasSize(print)
+  return template(width, height, print)
+}
+
+function presetOptions(label: string): ImpositionOptions {
+  const preset = IMPOSITION_PRESETS.find(item => item.label === label)!
+  return { ...DEFAULT_IMPOSITION_OPTIONS, ...preset.grid }
+}
+
+// Rounds to 0.001 mm so float noise from inch presets doesn't matter
+function rounded(box: ImpositionBox): ImpositionBox {
+  const round = (value: number) => Math.round(value * 1000) / 1000
+  return { x: round(box.x), y: round(box.y), width: round(box.width), height: round(box.height) }
+}
+
+describe('getImpositionLayout', () => {
+  it('places a copy in each Avery L7160 label, in reading order', () => {
+    const layout = getImpositionLayout(template(635, 381), presetOptions('Avery L7160 address labels'))
+
+    expect(layout).toMatchObject({ width: 210, height: 297, scale: null })
+    expect(layout.error).toBeUndefined()
+    expect(layout.copies).toHaveLength(21)
+    expect(layout.copies.slice(0, 4).map(rounded)).toEqual([
+      { x: 7.25, y: 15.15, width: 63.5, height: 38.1 },
+      { x: 73.25, y: 15.15, width: 63.5, height: 38.1 },
+      { x: 139.25, y: 15.15, width: 63.5, height: 38.1 },
+      { x: 7.25, y: 53.25, width: 63.5, height: 38.1 }
+    ])
+    expect(rounded(layout.copies[20])).toEqual({ x: 139.25, y: 243.75, width: 63.5, height: 38.1 })
+  })
+
+  it('fits inch presets on their paper', () => {
+    const layout = getImpositionLayout(template(1050, 600), presetOptions('Avery 5371 business cards'))
+    expect(layout.error).toBeUndefined()
+    expect(rounded(layout.copies[9])).toEqual({ x: 107.95, y: 215.9, width: 88.9, height: 50.8 })
+  })
+
+  it('centers copies with another shape in their slot', () => {
+    // A square in a 63.5 × 38.1 mm label is limited by the height
+    const layout = getImpositionLayout(template(100, 100), presetOptions('Avery L7160 address labels'))
+    expect(rounded(layout.copies[0])).toEqual({ x: 7.25 + 12.7, y: 15.15, width: 38.1, height: 38.1 })
+  })
+
+  it('keeps the print size of print templates unless the slot is smaller', () => {
+    const options = presetOptions('Avery C32011 business cards')
+    const small = getImpositionLayout(printTemplate({ width: 50, height: 30 }), options)
+    expect(small.scale).toBe(1)
+    expect(rounded(small.copies[0])).toEqual({ x: 17 + 17.5, y: 13.5 + 12, width: 50, height: 30 })
+
+    // 85 × 55 mm is 1 mm taller than the 54 mm slot
+    const card = getImpositionLayout(printTemplate(), options)
+    expect(card.scale).toBeCloseTo(54 / 55)
+    expect(card.copies[0].height).toBeCloseTo(54)
+  })
+
+  it('splits the space inside the margins when the slot size is 0', () => {
+    const layout = getImpositionLayout(template(100, 100), {
+      ...DEFAULT_IMPOSITION_OPTIONS,
+      paper: 'a4',
+      landscape: true,
+      columns: 2,
+      rows: 2,
+      marginTop: 10,
+      marginLeft: 10,
+      gutterX: 10,
+      gutterY: 10,
+      labelWidth: 0,
+      labelHeight: 0
+    })
+    // 133.5 × 90 mm slots on 297 × 210 mm paper
+    expect(layout).toMatchObject({ width: 297, height: 210 })
+    expect(layout.copies.map(rounded)).toEqual([
+      { x: 10 + 21.75, y: 10, width: 90, height: 90 },
+      { x: 153.5 + 21.75, y: 10, width: 90, height: 90 },
+      { x: 10 + 21.75, y: 110, width: 90, height: 90 },
+      { x: 153.5 + 21.75, y: 110, width: 90, height: 90 }
+    ])
+  })
+
+  it('allows half a millimeter of overhang for rounding in the presets', () => {
+    const options: ImpositionOptions = {
+      ...DEFAULT_IMPOSITION_OPTIONS,
+      columns: 1,
+      rows: 1,
+      marginLeft: 10,
+      labelWidth: 200.4
+    }
+    expect(getImpositionLayout(template(100, 100), options).error).toBeUndefined()
+
+    const layout = getImpositionLayout(template(100, 100), { ...options, labelWidth: 200.6 })
+    expect(layout.error).toBe('1 × 1 copies do not fit on A4 paper')
+    expect(layout.copies).toEqual([])
+    expect(layout.cutLines).toEqual([])
+  })
+
+  it('reports grids that do not fit on the paper', () => {
+    const options = { ...presetOptions('Avery 5160 address labels'), rows: 11 }
+    expect(getImpositionLayout(template(100, 100), options).error).toBe('3 × 11 copies do not fit on US Letter paper')
+  })
+
+  it('reports margins and gutters that leave no room', () => {
+    const options: ImpositionOptions = { ...DEFAULT_IMPOSITION_OPTIONS, marginLeft: 110, labelWidth: 0 }
+    const layout = getImpositionLayout(template(100, 100), options)
+    expect(layout.error).toBe('The margins and gutters leave no room for copies')
+    expect(layout.copies).toEqual([])
+  })
+
+  it('draws a cut line in the margins for each distinct copy edge', () => {
+    const layout = getImpositionLayout(template(90, 50), {
+      ...DEFAULT_IMPOSITION_OPTIONS,
+      columns: 2,
+      rows: 1,
+      marginTop: 10,
+      marginLeft: 10,
+      gutterX: 10,
+      labelWidth: 90,
+      labelHeight: 50
+    })
+    // Lines stop 1 mm short of the copies
+    expect(layout.cutLines).toEqual([
+      { x1: 10, y1: 0, x2: 10, y2: 9 },
+      { x1: 10, y1: 61, x2: 10, y2: 297 },
+      { x1: 100, y1: 0, x2: 100, y2: 9 },
+      { x1: 100, y1: 61, x2: 100, y2: 297 },
+      { x1: 110, y1: 0, x2: 110, y2: 9 },
+      { x1: 110, y1: 61, x2: 110, y2: 297 },
+      { x1: 200, y1: 0, x2: 200, y2: 9 },
+      { x1: 200, y1: 61, x2: 200, y2: 297 },
+      { x1: 0, y1: 10, x2: 9, y2: 10 },
+      { x1: 201, y1: 10, x2: 210, y2: 10 },
+      { x1: 0, y1: 60, x2: 9, y2: 60 },
+      { x1: 201, y1: 60, x2: 210, y2: 60 }
+    ])
+  })
+
+  it('shares cut lines between touching copies and skips margins too narrow for them', () => {
+    const options = { ...presetOptions('Avery 5371 business cards'), cutLines: true }
+    const layout = getImpositionLayout(template(1050, 600), options)
+    // Columns touch, so three vertical edges; rows touch, so six horizontal ones
+    expect(new Set(layout.cutLines.filter(line => line.x1 === line.x2).map(line => line.x1)).size).toBe(3)
+    expect(new Set(layout.cutLines.filter(line => line.y1 === line.y2).map(line => line.y1)).size).toBe(6)
+
+    const edgeToEdge = getImpositionLayout(template(210, 100), {
+      ...DEFAULT_IMPOSITION_OPTIONS,
+      columns: 1,
+      rows: 1,
+      marginTop: 0.5,
+      marginLeft: 0,
+      labelWidth: 210,
+      labelHeight: 100
+    })
+    // Only the bottom margin has room for marks
+    expect(edgeToEdge.cutLines).toEqual([
+      { x1: 0, y1: 101.5, x2: 0, y2: 297 },
+      { x1: 210, y1: 101.5, x2: 210, y2: 297 }
+    ])
+  })
+
+  it('draws no cut lines when they are off', () => {
+    const options = { ...presetOptions('Avery L7160 address labels'), cutLines: false }
+    expect(getImpositionLayout(template(635, 381), options).cutLines).toEqual([])
+  })
+})
+
+describe('findImpositionPreset', () => {
+  it('matches the grid of portrait options', () => {
+    expect(findImpositionPreset(DEFAULT_IMPOSITION_OPTIONS)).toBe('Avery C32011 business cards')
+    expect(findImpositionPreset({ ...DEFAULT_IMPOSITION_OPTIONS, landscape: true })).toBeUndefined()
+    expect(findImpositionPreset({ ...DEFAULT_IMPOSITION_OPTIONS, gutterX: 5 })).toBeUndefined()
+  })
+})
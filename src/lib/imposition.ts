@@ -0,0 +1,292 @@
+import { createPdfDocument, drawTemplatePdf, type PdfMetadata } from '@/lib/pdf'
+import { convertUnit, getPrintBoxes, setImageResolution } from '@/lib/print'
+import { canvasToBlob, renderTemplate } from '@/lib/render'
+import type { Template } from '@/types/template'
+
+export type PaperSize = 'a4' | 'letter'
+
+export type ImpositionFormat = 'png' | 'pdf'
+
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  letter: { label: 'US Letter', width: 215.9, height: 279.4 }
+}
+
+// All lengths are in millimeters
+export interface ImpositionOptions {
+  paper: PaperSize
+  landscape: boolean
+  columns: number
+  rows: number
+  // Distance from the top and left paper edges to the first copy
+  marginTop: number
+  marginLeft: number
+  // Space between copies
+  gutterX: number
+  gutterY: number
+  // Size of each slot; 0 splits the space inside the margins evenly
+  labelWidth: number
+  labelHeight: number
+  cutLines: boolean
+  format: ImpositionFormat
+  // Resolution of PNG sheets
+  dpi: number
+}
+
+export type ImpositionGrid = Pick<
+  ImpositionOptions,
+  'paper' | 'columns' | 'rows' | 'marginTop' | 'marginLeft' | 'gutterX' | 'gutterY' | 'labelWidth' | 'labelHeight'
+>
+
+const inches = (value: number) => convertUnit(value, 'in', 'mm')
+
+// Sheet layouts of common label and card stock, from the manufacturers' templates
+export const IMPOSITION_PRESETS: Array<{ label: string; grid: ImpositionGrid }> = [
+  {
+    label: 'Avery 5160 address labels',
+    grid: { paper: 'letter', columns: 3, rows: 10, marginTop: inches(0.5), marginLeft: inches(0.1875), gutterX: inches(0.125), gutterY: 0, labelWidth: inches(2.625), labelHeight: inches(1) }
+  },
+  {
+    label: 'Avery 5163 shipping labels',
+    grid: { paper: 'letter', columns: 2, rows: 5, marginTop: inches(0.5), marginLeft: inches(0.15625), gutterX: inches(0.1875), gutterY: 0, labelWidth: inches(4), labelHeight: inches(2) }
+  },
+  {
+    label: 'Avery 5371 business cards',
+    grid: { paper: 'letter', columns: 2, rows: 5, marginTop: inches(0.5), marginLeft: inches(0.75), gutterX: 0, gutterY: 0, labelWidth: inches(3.5), labelHeight: inches(2) }
+  },
+  {
+    label: 'Avery L7160 address labels',
+    grid: { paper: 'a4', columns: 3, rows: 7, marginTop: 15.15, marginLeft: 7.25, gutterX: 2.5, gutterY: 0, labelWidth: 63.5, labelHeight: 38.1 }
+  },
+  {
+    label: 'Avery L7163 parcel labels',
+    grid: { paper: 'a4', columns: 2, rows: 7, marginTop: 15.15, marginLeft: 4.65, gutterX: 2.5, gutterY: 0, labelWidth: 99.1, labelHeight: 38.1 }
+  },
+  {
+    label: 'Avery C32011 business cards',
+    grid: { paper: 'a4', columns: 2, rows: 5, marginTop: 13.5, marginLeft: 17, gutterX: 6, gutterY: 0, labelWidth: 85, labelHeight: 54 }
+  }
+]
+
+// Ten business cards on A4
+export const DEFAULT_IMPOSITION_OPTIONS: ImpositionOptions = {
+  ...IMPOSITION_PRESETS[5].grid,
+  landscape: false,
+  cutLines: true,
+  format: 'pdf',
+  dpi: 300
+}
+
+// The preset whose grid the options match, if any
+export function findImpositionPreset(options: ImpositionOptions): string | undefined {
+  const keys = Object.keys(IMPOSITION_PRESETS[0].grid) as Array<keyof ImpositionGrid>
+  return IMPOSITION_PRESETS.find(preset =>
+    !options.landscape && keys.every(key => preset.grid[key] === options[key])
+  )?.label
+}
+
+export interface ImpositionBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ImpositionLayout {
+  // Paper size
+  width: number
+  height: number
+  // Each copy, centered in its slot, in reading order
+  copies: ImpositionBox[]
+  // Copy size relative to the template's print size; null for templates without one
+  scale: number | null
+  cutLines: Array<{ x1: number; y1: number; x2: number; y2: number }>
+  // Why the grid does not fit on the paper
+  error?: string
+}
+
+// Gap between a cut line and the copies it marks
+const CUT_LINE_GAP = 1
+// Hairline for cut lines, in points
+const CUT_LINE_POINTS = 0.25
+const POINTS_PER_MM = 72 / 25.4
+
+// Part of the template that ends up on the sheet: the trim box for print templates,
+// which leaves the bleed off, and the whole canvas otherwise
+function getSourceBox(template: Template): ImpositionBox {
+  return getPrintBoxes(template)?.trim ?? { x: 0, y: 0, width: template.width, height: template.height }
+}
+
+export function getImpositionLayout(template: Template, options: ImpositionOptions): ImpositionLayout {
+  const paper = PAPER_SIZES[options.paper]
+  const width = options.landscape ? paper.height : paper.width
+  const height = options.landscape ? paper.width : paper.height
+  const { columns, rows, marginTop, marginLeft, gutterX, gutterY } = options
+  const slotWidth = options.labelWidth || (width - marginLeft * 2 - gutterX * (columns - 1)) / columns
+  const slotHeight = options.labelHeight || (height - marginTop * 2 - gutterY * (rows - 1)) / rows
+
+  const layout: ImpositionLayout = { width, height, copies: [], scale: null, cutLines: [] }
+  if (slotWidth <= 0 || slotHeight <= 0) return { ...layout, error: 'The margins and gutters leave no room for copies' }
+  // Allows for rounding in the preset measurements
+  if (marginLeft + columns * slotWidth + (columns - 1) * gutterX > width + 0.5 ||
+    marginTop + rows * slotHeight + (rows - 1) * gutterY > height + 0.5) {
+    return { ...layout, error: `${columns} × ${rows} copies do not fit on ${paper.label} paper` }
+  }
+
+  // Print templates keep their physical size unless the slot is smaller; others fill the slot
+  const source = getSourceBox(template)
+  const { print } = template
+  const printSize = print.enabled
+    ? { width: convertUnit(print.width, print.unit, 'mm'), height: convertUnit(print.height, print.unit, 'mm') }
+    : null
+  const fit = printSize
+    ? Math.min(1, slotWidth / printSize.width, slotHeight / printSize.height)
+    : Math.min(slotWidth / source.width, slotHeight / source.height)
+  const copyWidth = printSize ? printSize.width * fit : source.width * fit
+  const copyHeight = printSize ? printSize.height * fit : source.height * fit
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      layout.copies.push({
+        x: marginLeft + column * (slotWidth + gutterX) + (slotWidth - copyWidth) / 2,
+        y: marginTop + row * (slotHeight + gutterY) + (slotHeight - copyHeight) / 2,
+        width: copyWidth,
+        height: copyHeight
+      })
+    }
+  }
+
+  if (options.cutLines) {
+    // Guillotine marks in the margins, one per distinct copy edge
+    const edges = (values: number[]) => [...new Set(values.map(value => Math.round(value * 100) / 100))]
+    const xs = edges(layout.copies.flatMap(copy => [copy.x, copy.x + copy.width]))
+    const ys = edges(layout.copies.flatMap(copy => [copy.y, copy.y + copy.height]))
+    const top = Math.min(...ys) - CUT_LINE_GAP
+    const bottom = Math.max(...ys) + CUT_LINE_GAP
+    const left = Math.min(...xs) - CUT_LINE_GAP
+    const right = Math.max(...xs) + CUT_LINE_GAP
+    xs.forEach(x => {
+      if (top > 0) layout.cutLines.push({ x1: x, y1: 0, x2: x, y2: top })
+      if (bottom < height) layout.cutLines.push({ x1: x, y1: bottom, x2: x, y2: height })
+    })
+    ys.forEach(y => {
+      if (left > 0) layout.cutLines.push({ x1: 0, y1: y, x2: left, y2: y })
+      if (right < width) layout.cutLines.push({ x1: right, y1: y, x2: width, y2: y })
+    })
+  }
+
+  return { ...layout, scale: printSize ? fit : null }
+}
+
+// Copies are placed by the sheet, so each one is drawn without its own printer marks
+function withoutPrintMarks(template: Template): Template {
+  return { ...template, print: { ...template.print, cropMarks: false, registrationMarks: false } }
+}
+
+function pageCount(rows: number, layout: ImpositionLayout): number {
+  return Math.ceil(rows / layout.copies.length)
+}
+
+// Renders the batch as PNG sheets, one blob per sheet
+export async function buildImpositionSheets(
+  template: Template,
+  rows: Array<Record<string, string>>,
+  options: ImpositionOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob[]> {
+  const layout = getImpositionLayout(template, options)
+  if (layout.error) throw new Error(layout.error)
+
+  const pixelsPerMm = options.dpi / 25.4
+  const source = getSourceBox(template)
+  const sheets: Blob[] = []
+
+  for (let page = 0; page < pageCount(rows.length, layout); page++) {
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(layout.width * pixelsPerMm)
+    canvas.height = Math.round(layout.height * pixelsPerMm)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas 2D context is not available')
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+    const pageRows = rows.slice(page * layout.copies.length, (page + 1) * layout.copies.length)
+    for (let i = 0; i < pageRows.length; i++) {
+      const copy = layout.copies[i]
+      // Rendered at the copy's size on the sheet so nothing is scaled twice
+      const scale = (copy.width * pixelsPerMm) / source.width
+      const artwork = await renderTemplate(template, pageRows[i], { scale, background: '#ffffff' })
+      ctx.drawImage(
+        artwork,
+        source.x * scale, source.y * scale, source.width * scale, source.height * scale,
+        copy.x * pixelsPerMm, copy.y * pixelsPerMm, copy.width * pixelsPerMm, copy.height * pixelsPerMm
+      )
+      onProgress?.(page * layout.copies.length + i + 1, rows.length)
+    }
+
+    ctx.strokeStyle = '#000000'
+    ctx.lineWidth = Math.max(1, (CUT_LINE_POINTS / 72) * options.dpi)
+    ctx.beginPath()
+    layout.cutLines.forEach(line => {
+      ctx.moveTo(line.x1 * pixelsPerMm, line.y1 * pixelsPerMm)
+      ctx.lineTo(line.x2 * pixelsPerMm, line.y2 * pixelsPerMm)
+    })
+    ctx.stroke()
+
+    sheets.push(await setImageResolution(await canvasToBlob(canvas, 'image/png'), options.dpi))
+  }
+  return sheets
+}
+
+// Builds the batch as one PDF with a sheet per page; copies stay vector where possible
+export async function buildImpositionPdf(
+  template: Template,
+  rows: Array<Record<string, string>>,
+  options: ImpositionOptions,
+  metadata: PdfMetadata,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const layout = getImpositionLayout(template, options)
+  if (layout.error) throw new Error(layout.error)
+
+  const width = layout.width * POINTS_PER_MM
+  const height = layout.height * POINTS_PER_MM
+  const pdf = await createPdfDocument(width, height, metadata, template.name)
+  const artwork = withoutPrintMarks(template)
+  const source = getSourceBox(template)
+
+  for (let page = 0; page < pageCount(rows.length, layout); page++) {
+    if (page > 0) pdf.addPage([width, height], width > height ? 'landscape' : 'portrait')
+
+    const pageRows = rows.slice(page * layout.copies.length, (page + 1) * layout.copies.length)
+    for (let i = 0; i < pageRows.length; i++) {
+      const copy = layout.copies[i]
+      const x = copy.x * POINTS_PER_MM
+      const y = copy.y * POINTS_PER_MM
+      // Points per template pixel; the whole canvas is placed so the source box lands on the copy
+      const scale = (copy.width * POINTS_PER_MM) / source.width
+
+      // Clips the bleed off print templates
+      pdf.saveGraphicsState()
+      pdf.rect(x, y, copy.width * POINTS_PER_MM, copy.height * POINTS_PER_MM, null)
+      pdf.clip()
+      pdf.discardPath()
+      await drawTemplatePdf(pdf, artwork, pageRows[i], {
+        x: x - source.x * scale,
+        y: y - source.y * scale,
+        width: template.width * scale,
+        height: template.height * scale
+      }, true)
+      pdf.restoreGraphicsState()
+      onProgress?.(page * layout.copies.length + i + 1, rows.length)
+    }
+
+    pdf.setDrawColor(0)
+    pdf.setLineWidth(CUT_LINE_POINTS)
+    layout.cutLines.forEach(line => {
+      pdf.line(line.x1 * POINTS_PER_MM, line.y1 * POINTS_PER_MM, line.x2 * POINTS_PER_MM, line.y2 * POINTS_PER_MM)
+    })
+  }
+
+  return pdf.output('blob')
+}
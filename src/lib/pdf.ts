@@ -0,0 +1,164 @@
+import type { jsPDF } from 'jspdf'
+import { getPrintSheet, renderPrintTemplate } from '@/lib/print'
+import { getVisibleLayers, layoutTextLayer, resolveLayerSpans } from '@/lib/render'
+import { renderTemplateSvg } from '@/lib/svg'
+import type { Template, TextLayer } from '@/types/template'
+
+export interface PdfMetadata {
+  title: string
+  author: string
+  subject: string
+  keywords: string
+}
+
+export interface PdfOptions {
+  // Template pixels per inch; sets the physical size of each copy
+  dpi: number
+  // Copies per page across and down; 1 × 1 gives every row its own page
+  columns: number
+  rows: number
+  // Draws shapes and outlined text as vectors instead of one image per copy
+  vector: boolean
+  metadata: PdfMetadata
+}
+
+export const PDF_DPI_PRESETS = [72, 96, 150, 300]
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  dpi: 96,
+  columns: 1,
+  rows: 1,
+  vector: true,
+  metadata: { title: '', author: '', subject: '', keywords: '' }
+}
+
+const POINTS_PER_INCH = 72
+
+// Raster copies are rendered at no less than this resolution so print stays sharp
+const MIN_RASTER_DPI = 300
+
+// Print templates are laid out at their own resolution so copies come out at their physical size
+export function getPdfDpi(template: Template, options: PdfOptions): number {
+  return template.print.enabled ? template.print.dpi : options.dpi
+}
+
+// Size of one copy, including any printer marks, and of a whole page, in points
+export function getPdfPageSize(template: Template, options: PdfOptions) {
+  const scale = POINTS_PER_INCH / getPdfDpi(template, options)
+  const sheet = getPrintSheet(template)
+  const cell = { width: (sheet?.width ?? template.width) * scale, height: (sheet?.height ?? template.height) * scale }
+  return { cell, width: cell.width * options.columns, height: cell.height * options.rows }
+}
+
+// Text shadows are SVG filters, which the PDF conversion drops; such templates are drawn as images
+export function canExportVectorPdf(template: Template): boolean {
+  return !template.layers.some(layer => !layer.hidden && layer.type === 'text' && layer.textShadow?.enabled)
+}
+
+// Places each line of text invisibly over the drawing so the PDF can be searched and copied from
+function addSearchableText(pdf: jsPDF, layers: TextLayer[], variables: Record<string, string>, x: number, y: number, scale: number) {
+  layers.forEach(layer => {
+    const layout = layoutTextLayer(layer, resolveLayerSpans(layer, variables))
+    const angle = ((layer.rotation ?? 0) * Math.PI) / 180
+    const cx = layout.box.x + layout.box.width / 2
+    const cy = layout.box.y + layout.box.height / 2
+
+    layout.lines.forEach(line => {
+      const text = line.runs.map(run => run.text).join('')
+      if (!text.trim()) return
+      // Rotate the line's origin around the layer's center like the renderer does
+      const dx = line.x - cx
+      const dy = line.baseline - cy
+      const ox = cx + dx * Math.cos(angle) - dy * Math.sin(angle)
+      const oy = cy + dx * Math.sin(angle) + dy * Math.cos(angle)
+
+      pdf.setFontSize(layout.fontSize * scale)
+      pdf.text(text, x + ox * scale, y + oy * scale, {
+        baseline: 'alphabetic',
+        renderingMode: 'invisible',
+        angle: -(layer.rotation ?? 0)
+      })
+    })
+  })
+}
+
+export interface PdfBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Draws one copy of the template, printer marks included, stretched over a box in points
+export async function drawTemplatePdf(
+  pdf: jsPDF,
+  template: Template,
+  variables: Record<string, string>,
+  box: PdfBox,
+  vector: boolean
+) {
+  const sheet = getPrintSheet(template)
+  // Points per template pixel
+  const scale = box.width / (sheet?.width ?? template.width)
+
+  if (vector && canExportVectorPdf(template)) {
+    const svg = await renderTemplateSvg(template, variables, { outlineText: true, embedImages: true })
+    const element = new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement
+    await pdf.svg(element, box)
+  } else {
+    const canvas = await renderPrintTemplate(template, variables, {
+      scale: Math.max(1, (MIN_RASTER_DPI * scale) / POINTS_PER_INCH),
+      background: '#ffffff'
+    })
+    pdf.addImage(canvas, 'JPEG', box.x, box.y, box.width, box.height, undefined, 'FAST')
+  }
+
+  const textLayers = getVisibleLayers(template, variables).filter((layer): layer is TextLayer => layer.type === 'text')
+  const offset = (sheet?.offset ?? 0) * scale
+  addSearchableText(pdf, textLayers, variables, box.x + offset, box.y + offset, scale)
+}
+
+// Starts a document with its first page, in points. Loaded on demand, like the spreadsheet
+// reader; svg2pdf adds pdf.svg().
+export async function createPdfDocument(width: number, height: number, metadata: PdfMetadata, title: string): Promise<jsPDF> {
+  const [{ jsPDF }] = await Promise.all([import('jspdf'), import('svg2pdf.js')])
+  const pdf = new jsPDF({
+    unit: 'pt',
+    format: [width, height],
+    orientation: width > height ? 'landscape' : 'portrait',
+    compress: true
+  })
+
+  pdf.setDocumentProperties({
+    title: metadata.title || title,
+    author: metadata.author,
+    subject: metadata.subject,
+    keywords: metadata.keywords,
+    creator: 'Custom Image Template Generator'
+  })
+  return pdf
+}
+
+// Builds one PDF from a batch, filling each page left to right and top to bottom
+export async function buildBatchPdf(
+  template: Template,
+  rows: Array<Record<string, string>>,
+  options: PdfOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const page = getPdfPageSize(template, options)
+  const perPage = options.columns * options.rows
+  const pdf = await createPdfDocument(page.width, page.height, options.metadata, template.name)
+
+  for (let i = 0; i < rows.length; i++) {
+    const slot = i % perPage
+    if (i > 0 && slot === 0) pdf.addPage([page.width, page.height], page.width > page.height ? 'landscape' : 'portrait')
+    const column = slot % options.columns
+    const row = Math.floor(slot / options.columns)
+    const box = { x: column * page.cell.width, y: row * page.cell.height, ...page.cell }
+    await drawTemplatePdf(pdf, template, rows[i], box, options.vector)
+    onProgress?.(i + 1, rows.length)
+  }
+
+  return pdf.output('blob')
+}
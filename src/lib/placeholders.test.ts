@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getPlaceholderNames,
+  getUnknownFormatters,
+  interpolateSpans,
+  parseTemplateString,
+  unescapeText
+} from '@/lib/placeholders'
+import type { TextSpan } from '@/types/template'
+
+// Fills in a plain string, as a single unstyled span
+function fill(source: string, variables: Record<string, string>): string {
+  return interpolateSpans([{ text: source }], variables).map(span => span.text).join('')
+}
+
+describe('interpolateSpans', () => {
+  it('replaces placeholders with their values', () => {
+    expect(fill('Hello {{name}}!', { name: 'Ada' })).toBe('Hello Ada!')
+    expect(fill('{{first}}{{last}}', { first: 'Ada', last: 'Lovelace' })).toBe('AdaLovelace')
+  })
+
+  it('allows spaces inside the braces', () => {
+    expect(fill('Hi {{ name }} and {{  name|upper  }}', { name: 'Ada' })).toBe('Hi Ada and ADA')
+  })
+
+  it('keeps placeholders without a value as written, but fills empty values', () => {
+    expect(fill('Hi {{ name }}, {{missing}}', { name: '' })).toBe('Hi , {{missing}}')
+    expect(fill('{{missing | upper}}', {})).toBe('{{missing | upper}}')
+  })
+
+  it('pipes values through formatters with arguments', () => {
+    expect(fill('{{price | currency:EUR,en-US}}', { price: '12' })).toBe('€12.00')
+    expect(fill('{{title | truncate:8 | upper}}', { title: 'Summer sale' })).toBe('SUMMER…')
+    expect(fill('{{when | date:"d MMM, yyyy"}}', { when: '2026-10-19' })).toBe('19 Oct, 2026')
+  })
+
+  it('skips unknown formatters', () => {
+    expect(fill('{{name | shout}}', { name: 'Ada' })).toBe('Ada')
+    expect(getUnknownFormatters('{{name | shout | upper}} {{x|shout}} {{y | wisper}}')).toEqual(['shout', 'wisper'])
+  })
+
+  it('shows escaped braces and backslashes literally', () => {
+    expect(fill('\\{{name}} is {{name}}', { name: 'Ada' })).toBe('{{name}} is Ada')
+    expect(fill('\\{\\{name\\}\\}', { name: 'Ada' })).toBe('{{name}}')
+    expect(fill('C:\\\\{{dir}}', { dir: 'tmp' })).toBe('C:\\tmp')
+    // A backslash before anything else is kept
+    expect(fill('a\\b', {})).toBe('a\\b')
+  })
+
+  it('leaves unterminated and empty placeholders as text', () => {
+    expect(fill('Hi {{name', { name: 'Ada' })).toBe('Hi {{name')
+    expect(fill('{{}} and {{ | upper}}', {})).toBe('{{}} and {{ | upper}}')
+    expect(fill('{{name}', { name: 'Ada' })).toBe('{{name}')
+  })
+
+  it('uses the innermost placeholder of nested braces', () => {
+    expect(fill('{{a{{b}}}}', { b: 'B' })).toBe('{{aB}}')
+    expect(getPlaceholderNames('{{ {{b}} }}')).toEqual(['b'])
+  })
+
+  it('styles a placeholder like the span it starts in', () => {
+    const spans: TextSpan[] = [
+      { text: 'Hi {{na', fontWeight: 'bold' },
+      { text: 'me}}!', fontStyle: 'italic' }
+    ]
+    expect(interpolateSpans(spans, { name: 'Ada' })).toEqual([
+      { text: 'Hi ', fontWeight: 'bold' },
+      { text: 'Ada', fontWeight: 'bold' },
+      { text: '!', fontStyle: 'italic' }
+    ])
+  })
+})
+
+describe('parseTemplateString', () => {
+  it('gives the offsets of text and placeholders', () => {
+    expect(parseTemplateString('Hi {{ name | upper }}!')).toEqual([
+      { type: 'text', start: 0, end: 3 },
+      { type: 'placeholder', start: 3, end: 21, name: 'name', formatters: [{ name: 'upper', args: [] }] },
+      { type: 'text', start: 21, end: 22 }
+    ])
+  })
+
+  it('lists each variable name once, in order', () => {
+    expect(getPlaceholderNames('{{b}} {{a}} {{ b | upper }} \\{{c}}')).toEqual(['b', 'a'])
+  })
+
+  it('unescapes only braces and backslashes', () => {
+    expect(unescapeText('\\{\\}\\\\\\n')).toBe('{}\\\\n')
+  })
+})
@@ -0,0 +1,92 @@
+import { applyFormatters, isKnownFormatter, parsePlaceholderExpression, type FormatterCall } from '@/lib/formatters'
+import type { TextSpan } from '@/types/template'
+
+// Template strings: `{{name}}` is replaced by a variable's value, optionally piped through
+// formatters as in `{{price | currency:EUR}}`. A backslash makes the next brace or backslash
+// literal, so `\{{name}}` shows as `{{name}}`. An opening `{{` without a matching `}}` or
+// with an empty name is left as it is.
+
+export type TemplateToken =
+  | { type: 'text'; start: number; end: number }
+  | { type: 'placeholder'; start: number; end: number; name: string; formatters: FormatterCall[] }
+
+const ESCAPABLE = '\\{}'
+
+function isValidName(name: string): boolean {
+  return name.length > 0 && !/[{}\\]/.test(name)
+}
+
+// Splits a template string into text and placeholders, with offsets into the source
+export function parseTemplateString(source: string): TemplateToken[] {
+  const tokens: TemplateToken[] = []
+  let textStart = 0
+  let i = 0
+
+  while (i < source.length) {
+    if (source[i] === '\\' && ESCAPABLE.includes(source[i + 1] ?? '')) {
+      i += 2
+      continue
+    }
+    if (source.startsWith('{{', i)) {
+      const close = source.indexOf('}}', i + 2)
+      const { name, formatters } = parsePlaceholderExpression(close >= 0 ? source.slice(i + 2, close) : '')
+      if (isValidName(name)) {
+        if (i > textStart) tokens.push({ type: 'text', start: textStart, end: i })
+        tokens.push({ type: 'placeholder', start: i, end: close + 2, name, formatters })
+        i = close + 2
+        textStart = i
+        continue
+      }
+    }
+    i++
+  }
+
+  if (source.length > textStart) tokens.push({ type: 'text', start: textStart, end: source.length })
+  return tokens
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\{}])/g, '$1')
+}
+
+// Variable names in the order they first appear
+export function getPlaceholderNames(source: string): string[] {
+  const names = parseTemplateString(source)
+    .flatMap(token => (token.type === 'placeholder' ? [token.name] : []))
+  return [...new Set(names)]
+}
+
+// Formatter names that don't exist, so the editor can point out typos
+export function getUnknownFormatters(source: string): string[] {
+  const names = parseTemplateString(source)
+    .flatMap(token => (token.type === 'placeholder' ? token.formatters.map(call => call.name) : []))
+    .filter(name => !isKnownFormatter(name))
+  return [...new Set(names)]
+}
+
+// Fills in and formats placeholders across styled spans; ones without a value (not even an
+// empty one) stay visible as written.
+// A placeholder takes the style of the span it starts in, so one that is only partly styled still works.
+export function interpolateSpans(spans: TextSpan[], variables: Record<string, string>): TextSpan[] {
+  let position = 0
+  const ranges = spans.map(span => {
+    const start = position
+    position += span.text.length
+    return { start, end: position, span }
+  })
+  const source = spans.map(span => span.text).join('')
+
+  return parseTemplateString(source).flatMap(token => {
+    if (token.type === 'placeholder') {
+      const { span } = ranges.find(range => token.start < range.end) ?? ranges[0]
+      const value = variables[token.name]
+      return [{ ...span, text: value !== undefined ? applyFormatters(value, token.formatters) : source.slice(token.start, token.end) }]
+    }
+    return ranges
+      .filter(range => range.start < token.end && range.end > token.start)
+      .map(range => ({
+        ...range.span,
+        text: unescapeText(source.slice(Math.max(token.start, range.start), Math.min(token.end, range.end)))
+      }))
+  })
+}
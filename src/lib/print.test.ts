@@ -0,0 +1,177 @@
+import { crc32 } from 'zlib'
+import { createCanvas } from '@napi-rs/canvas'
+import { describe, expect, it } from 'vitest'
+import {
+  convertUnit,
+  fromPixels,
+  getPrintBoxes,
+  getPrintCanvasSize,
+  getPrintSheet,
+  roundLength,
+  setImageResolution,
+  toPixels
+} from '@/lib/print'
+import { DEFAULT_LAYOUT_GRID, DEFAULT_PRINT_SETTINGS } from '@/lib/templates'
+import type { PrintSettings, Template } from '@/types/template'
+
+// At 254 DPI a millimeter is exactly 10 pixels
+const DPI = 254
+
+function printTemplate(overrides: Partial<PrintSettings> = {}): Template {
+  const print = { ...DEFAULT_PRINT_SETTINGS, enabled: true, dpi: DPI, ...overrides }
+  return {
+    id: 'card',
+    name: 'Card',
+    backgroundImage: '',
+    layers: [],
+    groups: [],
+    guides: [],
+    layoutGrid: DEFAULT_LAYOUT_GRID,
+    variableSchema: [],
+    print,
+    ...getPrintCanvasSize(print),
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  }
+}
+
+interface PngChunk {
+  type: string
+  data: Buffer
+  crcValid: boolean
+}
+
+function readPngChunks(bytes: Buffer): PngChunk[] {
+  const chunks: PngChunk[] = []
+  let offset = 8
+  while (offset < bytes.length) {
+    const length = bytes.readUInt32BE(offset)
+    const typeAndData = bytes.subarray(offset + 4, offset + 8 + length)
+    chunks.push({
+      type: typeAndData.toString('latin1', 0, 4),
+      data: typeAndData.subarray(4),
+      crcValid: crc32(typeAndData) === bytes.readUInt32BE(offset + 8 + length)
+    })
+    offset += 12 + length
+  }
+  return chunks
+}
+
+async function toBuffer(blob: Blob): Promise<Buffer> {
+  return Buffer.from(await blob.arrayBuffer())
+}
+
+describe('units', () => {
+  it('converts between lengths and pixels', () => {
+    expect(toPixels(25.4, 'mm', 300)).toBeCloseTo(300)
+    expect(toPixels(2, 'in', 300)).toBe(600)
+    expect(fromPixels(300, 'mm', 300)).toBeCloseTo(25.4)
+    expect(fromPixels(600, 'in', 300)).toBe(2)
+  })
+
+  it('converts between millimeters and inches', () => {
+    expect(convertUnit(1, 'in', 'mm')).toBe(25.4)
+    expect(convertUnit(254, 'mm', 'in')).toBe(10)
+    expect(convertUnit(3, 'mm', 'mm')).toBe(3)
+  })
+
+  it('rounds to 0.1 mm or 0.01 in', () => {
+    expect(roundLength(84.96, 'mm')).toBe(85)
+    expect(roundLength(3.14159, 'in')).toBe(3.14)
+  })
+
+  it('sizes the canvas for the trim size plus bleed on both sides', () => {
+    expect(getPrintCanvasSize({ ...DEFAULT_PRINT_SETTINGS, dpi: DPI })).toEqual({ width: 910, height: 610 })
+    expect(getPrintCanvasSize({ ...DEFAULT_PRINT_SETTINGS, unit: 'in', width: 3.5, height: 2, bleed: 0.125, dpi: 300 }))
+      .toEqual({ width: 1125, height: 675 })
+  })
+})
+
+describe('getPrintBoxes', () => {
+  it('insets the trim by the bleed and the safe area by the margin', () => {
+    const boxes = getPrintBoxes(printTemplate())!
+    const rounded = (box: Record<string, number>) => Object.fromEntries(Object.entries(box).map(([key, value]) => [key, Math.round(value * 1000) / 1000]))
+    expect({ trim: rounded({ ...boxes.trim }), safe: rounded({ ...boxes.safe }) }).toEqual({
+      trim: { x: 30, y: 30, width: 850, height: 550 },
+      safe: { x: 80, y: 80, width: 750, height: 450 }
+    })
+    expect(getPrintBoxes({ ...printTemplate(), print: DEFAULT_PRINT_SETTINGS })).toBeNull()
+  })
+})
+
+describe('getPrintSheet', () => {
+  it('adds an 8 mm slug with crop marks on the trim lines', () => {
+    const sheet = getPrintSheet(printTemplate())!
+    expect(sheet).toMatchObject({ width: 1070, height: 770, offset: 80, lineWidth: 1 })
+    // Trim lines at 110 and 960 across, 110 and 660 down; marks stop 1 mm short of the
+    // bleed and are 5 mm long
+    expect(sheet.cropMarks).toEqual([
+      { x1: 110, y1: 20, x2: 110, y2: 70 },
+      { x1: 110, y1: 700, x2: 110, y2: 750 },
+      { x1: 960, y1: 20, x2: 960, y2: 70 },
+      { x1: 960, y1: 700, x2: 960, y2: 750 },
+      { x1: 20, y1: 110, x2: 70, y2: 110 },
+      { x1: 1000, y1: 110, x2: 1050, y2: 110 },
+      { x1: 20, y1: 660, x2: 70, y2: 660 },
+      { x1: 1000, y1: 660, x2: 1050, y2: 660 }
+    ])
+  })
+
+  it('centers registration marks on each side of the slug', () => {
+    const sheet = getPrintSheet(printTemplate({ cropMarks: false }))!
+    expect(sheet.cropMarks).toEqual([])
+    expect(sheet.registrationMarks).toEqual([
+      { x: 535, y: 35, radius: 20 },
+      { x: 535, y: 735, radius: 20 },
+      { x: 35, y: 385, radius: 20 },
+      { x: 1035, y: 385, radius: 20 }
+    ])
+  })
+
+  it('is null without marks or outside print mode', () => {
+    expect(getPrintSheet(printTemplate({ cropMarks: false, registrationMarks: false }))).toBeNull()
+    expect(getPrintSheet({ ...printTemplate(), print: DEFAULT_PRINT_SETTINGS })).toBeNull()
+  })
+})
+
+describe('setImageResolution', () => {
+  const canvas = createCanvas(2, 2)
+
+  it('adds a pHYs chunk after IHDR in pixels per meter', async () => {
+    const png = new Blob([canvas.toBuffer('image/png')], { type: 'image/png' })
+    const chunks = readPngChunks(await toBuffer(await setImageResolution(png, 300)))
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'pHYs', 'sBIT', 'sRGB', 'IDAT', 'IEND'])
+    expect(chunks.every(chunk => chunk.crcValid)).toBe(true)
+    const pHYs = chunks[1].data
+    expect([pHYs.readUInt32BE(0), pHYs.readUInt32BE(4), pHYs[8]]).toEqual([11811, 11811, 1])
+  })
+
+  it('replaces a pHYs chunk the file already has', async () => {
+    const png = new Blob([canvas.toBuffer('image/png')], { type: 'image/png' })
+    const once = await setImageResolution(png, 72)
+    const chunks = readPngChunks(await toBuffer(await setImageResolution(once, 600)))
+
+    expect(chunks.filter(chunk => chunk.type === 'pHYs')).toHaveLength(1)
+    expect(chunks.find(chunk => chunk.type === 'pHYs')!.data.readUInt32BE(0)).toBe(23622)
+    expect(chunks.every(chunk => chunk.crcValid)).toBe(true)
+  })
+
+  it('sets the JFIF density in dots per inch', async () => {
+    const jpeg = new Blob([canvas.toBuffer('image/jpeg')], { type: 'image/jpeg' })
+    const bytes = await toBuffer(await setImageResolution(jpeg, 300))
+    expect(bytes.toString('latin1', 6, 11)).toBe('JFIF\0')
+    expect([bytes[13], bytes.readUInt16BE(14), bytes.readUInt16BE(16)]).toEqual([1, 300, 300])
+    expect(bytes.length).toBe((await jpeg.arrayBuffer()).byteLength)
+  })
+
+  it('leaves other files unchanged', async () => {
+    const webp = new Blob(['RIFF'], { type: 'image/webp' })
+    expect(await setImageResolution(webp, 300)).toBe(webp)
+    // Not actually a PNG or a JFIF JPEG
+    const notPng = new Blob([new Uint8Array(40)], { type: 'image/png' })
+    expect(await toBuffer(await setImageResolution(notPng, 300))).toEqual(Buffer.alloc(40))
+    const exifJpeg = new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0, 16, 69, 120, 105, 102, 0, 0, 0, 0, 0, 0, 0, 0])], { type: 'image/jpeg' })
+    expect(await toBuffer(await setImageResolution(exifJpeg, 300))).toEqual(await toBuffer(exifJpeg))
+  })
+})
@@ -0,0 +1,265 @@
+import { renderTemplate, type LayerBox, type RenderOptions } from '@/lib/render'
+import type { PrintSettings, PrintUnit, Template } from '@/types/template'
+
+const MM_PER_INCH = 25.4
+
+export const PRINT_UNIT_LABELS: Record<PrintUnit, string> = {
+  mm: 'Millimeters',
+  in: 'Inches'
+}
+
+export const PRINT_DPI_PRESETS = [150, 300, 600]
+
+export const PRINT_SIZE_PRESETS: Array<{ label: string; unit: PrintUnit; width: number; height: number }> = [
+  { label: 'Business card (EU)', unit: 'mm', width: 85, height: 55 },
+  { label: 'Business card (US)', unit: 'in', width: 3.5, height: 2 },
+  { label: 'Postcard', unit: 'in', width: 6, height: 4 },
+  { label: 'A6', unit: 'mm', width: 105, height: 148 },
+  { label: 'A5', unit: 'mm', width: 148, height: 210 },
+  { label: 'A4', unit: 'mm', width: 210, height: 297 },
+  { label: 'US Letter', unit: 'in', width: 8.5, height: 11 }
+]
+
+export function toPixels(value: number, unit: PrintUnit, dpi: number): number {
+  return unit === 'in' ? value * dpi : (value / MM_PER_INCH) * dpi
+}
+
+export function fromPixels(pixels: number, unit: PrintUnit, dpi: number): number {
+  return unit === 'in' ? pixels / dpi : (pixels / dpi) * MM_PER_INCH
+}
+
+export function convertUnit(value: number, from: PrintUnit, to: PrintUnit): number {
+  if (from === to) return value
+  return to === 'mm' ? value * MM_PER_INCH : value / MM_PER_INCH
+}
+
+// Rounds a physical length for display and storage: 0.1 mm or 0.01 in
+export function roundLength(value: number, unit: PrintUnit): number {
+  const step = unit === 'mm' ? 10 : 100
+  return Math.round(value * step) / step
+}
+
+// Canvas size in pixels for the trim size plus bleed
+export function getPrintCanvasSize(print: PrintSettings): { width: number; height: number } {
+  return {
+    width: Math.max(1, Math.round(toPixels(print.width + print.bleed * 2, print.unit, print.dpi))),
+    height: Math.max(1, Math.round(toPixels(print.height + print.bleed * 2, print.unit, print.dpi)))
+  }
+}
+
+// Print settings matching a template's current canvas, used when print mode is turned on
+export function printSettingsForCanvas(template: Template): PrintSettings {
+  const { unit, dpi, bleed } = template.print
+  return {
+    ...template.print,
+    enabled: true,
+    width: roundLength(Math.max(1, fromPixels(template.width, unit, dpi) - bleed * 2), unit),
+    height: roundLength(Math.max(1, fromPixels(template.height, unit, dpi) - bleed * 2), unit)
+  }
+}
+
+// Trim and safe area in template pixels, or null for screen templates
+export function getPrintBoxes(template: Template): { trim: LayerBox; safe: LayerBox } | null {
+  const { print } = template
+  if (!print.enabled) return null
+
+  const bleed = toPixels(print.bleed, print.unit, print.dpi)
+  const margin = toPixels(print.safeMargin, print.unit, print.dpi)
+  const trim = { x: bleed, y: bleed, width: template.width - bleed * 2, height: template.height - bleed * 2 }
+  return {
+    trim,
+    safe: {
+      x: trim.x + margin,
+      y: trim.y + margin,
+      width: Math.max(0, trim.width - margin * 2),
+      height: Math.max(0, trim.height - margin * 2)
+    }
+  }
+}
+
+// Mark sizes in millimeters; the slug is the margin around the bleed that holds the marks
+const MARK_GAP_MM = 1
+const CROP_MARK_LENGTH_MM = 5
+const REGISTRATION_RADIUS_MM = 2
+const SLUG_MM = 8
+// Hairline for marks, in points
+const MARK_LINE_POINTS = 0.25
+
+export interface PrintSheet {
+  // Full size with the slug, in template pixels
+  width: number
+  height: number
+  // Where the template's top-left corner sits on the sheet
+  offset: number
+  lineWidth: number
+  cropMarks: Array<{ x1: number; y1: number; x2: number; y2: number }>
+  registrationMarks: Array<{ x: number; y: number; radius: number }>
+}
+
+// Layout of the exported sheet with crop and registration marks, or null when the template
+// is exported as it is
+export function getPrintSheet(template: Template): PrintSheet | null {
+  const { print } = template
+  if (!print.enabled || (!print.cropMarks && !print.registrationMarks)) return null
+
+  const mm = (value: number) => toPixels(value, 'mm', print.dpi)
+  const offset = mm(SLUG_MM)
+  const gap = mm(MARK_GAP_MM)
+  const length = mm(CROP_MARK_LENGTH_MM)
+  const bleed = toPixels(print.bleed, print.unit, print.dpi)
+  const width = template.width + offset * 2
+  const height = template.height + offset * 2
+
+  // Trim lines on the sheet, extended into the slug past the bleed
+  const left = offset + bleed
+  const right = offset + template.width - bleed
+  const top = offset + bleed
+  const bottom = offset + template.height - bleed
+  const near = offset - gap
+  const cropMarks = print.cropMarks
+    ? [left, right].flatMap(x => [
+        { x1: x, y1: near - length, x2: x, y2: near },
+        { x1: x, y1: height - near, x2: x, y2: height - near + length }
+      ]).concat([top, bottom].flatMap(y => [
+        { x1: near - length, y1: y, x2: near, y2: y },
+        { x1: width - near, y1: y, x2: width - near + length, y2: y }
+      ]))
+    : []
+
+  const radius = mm(REGISTRATION_RADIUS_MM)
+  const middle = near / 2
+  const registrationMarks = print.registrationMarks
+    ? [
+        { x: width / 2, y: middle, radius },
+        { x: width / 2, y: height - middle, radius },
+        { x: middle, y: height / 2, radius },
+        { x: width - middle, y: height / 2, radius }
+      ]
+    : []
+
+  return {
+    width,
+    height,
+    offset,
+    lineWidth: Math.max(1, toPixels(MARK_LINE_POINTS / 72, 'in', print.dpi)),
+    cropMarks,
+    registrationMarks
+  }
+}
+
+// Marks are drawn in registration black, which prints on every plate
+export function drawPrintMarks(ctx: CanvasRenderingContext2D, sheet: PrintSheet) {
+  ctx.save()
+  ctx.strokeStyle = '#000000'
+  ctx.lineWidth = sheet.lineWidth
+
+  ctx.beginPath()
+  sheet.cropMarks.forEach(mark => {
+    ctx.moveTo(mark.x1, mark.y1)
+    ctx.lineTo(mark.x2, mark.y2)
+  })
+  sheet.registrationMarks.forEach(({ x, y, radius }) => {
+    ctx.moveTo(x + radius, y)
+    ctx.arc(x, y, radius, 0, Math.PI * 2)
+    ctx.moveTo(x - radius * 1.5, y)
+    ctx.lineTo(x + radius * 1.5, y)
+    ctx.moveTo(x, y - radius * 1.5)
+    ctx.lineTo(x, y + radius * 1.5)
+  })
+  ctx.stroke()
+  ctx.restore()
+}
+
+// Renders a print template on a sheet with its marks; other templates render as usual
+export async function renderPrintTemplate(
+  template: Template,
+  variables?: Record<string, string>,
+  options: RenderOptions = {}
+): Promise<HTMLCanvasElement> {
+  const sheet = getPrintSheet(template)
+  if (!sheet) return renderTemplate(template, variables, options)
+
+  const scale = options.scale ?? 1
+  const artwork = await renderTemplate(template, variables, { ...options, canvas: undefined })
+  const canvas = options.canvas ?? document.createElement('canvas')
+  canvas.width = Math.round(sheet.width * scale)
+  canvas.height = Math.round(sheet.height * scale)
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D context is not available')
+  // The slug is paper, whatever the background option
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.drawImage(artwork, Math.round(sheet.offset * scale), Math.round(sheet.offset * scale))
+  ctx.setTransform(scale, 0, 0, scale, 0, 0)
+  drawPrintMarks(ctx, sheet)
+  return canvas
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  bytes.forEach(byte => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  })
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// PNG: a pHYs chunk in pixels per meter, right after the 33-byte signature and IHDR. One the
+// encoder already wrote is dropped, since a file may only have one.
+function setPngResolution(bytes: Uint8Array, dpi: number): Uint8Array {
+  const decoder = new TextDecoder()
+  if (decoder.decode(bytes.subarray(12, 16)) !== 'IHDR') return bytes
+  const chunk = new Uint8Array(21)
+  const view = new DataView(chunk.buffer)
+  const pixelsPerMeter = Math.round(dpi / 0.0254)
+  view.setUint32(0, 9)
+  chunk.set(new TextEncoder().encode('pHYs'), 4)
+  view.setUint32(8, pixelsPerMeter)
+  view.setUint32(12, pixelsPerMeter)
+  chunk[16] = 1
+  view.setUint32(17, crc32(chunk.subarray(4, 17)))
+
+  // Each chunk is its length, type, data and CRC
+  const source = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const parts = [bytes.subarray(0, 33), chunk]
+  let offset = 33
+  while (offset + 12 <= bytes.length) {
+    const end = Math.min(bytes.length, offset + 12 + source.getUint32(offset))
+    if (decoder.decode(bytes.subarray(offset + 4, offset + 8)) !== 'pHYs') parts.push(bytes.subarray(offset, end))
+    offset = end
+  }
+  parts.push(bytes.subarray(offset))
+
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  parts.reduce((position, part) => {
+    result.set(part, position)
+    return position + part.length
+  }, 0)
+  return result
+}
+
+// JPEG: the density fields of the JFIF header, in dots per inch
+function setJpegResolution(bytes: Uint8Array, dpi: number): Uint8Array {
+  if (new TextDecoder().decode(bytes.subarray(6, 11)) !== 'JFIF\0') return bytes
+  const result = bytes.slice()
+  const view = new DataView(result.buffer)
+  result[13] = 1
+  view.setUint16(14, Math.round(dpi))
+  view.setUint16(16, Math.round(dpi))
+  return result
+}
+
+// Records the print resolution in PNG and JPEG files so layout software opens them at
+// their physical size; other formats are returned unchanged
+export async function setImageResolution(blob: Blob, dpi: number): Promise<Blob> {
+  if (blob.type !== 'image/png' && blob.type !== 'image/jpeg') return blob
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const updated = blob.type === 'image/png' ? setPngResolution(bytes, dpi) : setJpegResolution(bytes, dpi)
+  return new Blob([updated], { type: blob.type })
+}
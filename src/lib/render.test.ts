@@ -0,0 +1,172 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { createCanvas, loadImage, type Canvas } from '@napi-rs/canvas'
+import { describe, expect, it } from 'vitest'
+import { renderTemplate } from '@/lib/render'
+import { DEFAULT_LAYOUT_GRID, DEFAULT_PRINT_SETTINGS } from '@/lib/templates'
+import type { Layer, ShapeLayer, Template, TextLayer } from '@/types/template'
+
+// Reference images live next to the tests. A missing one is written on the first run,
+// except in CI; set UPDATE_GOLDEN=1 to rewrite them after an intended change.
+const GOLDEN_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '__golden__')
+
+// A channel may differ this much before the pixel counts as changed, which absorbs
+// anti-aliasing differences between platforms
+const CHANNEL_TOLERANCE = 16
+// Share of pixels allowed to change
+const MAX_CHANGED_RATIO = 0.002
+
+function makeTemplate(layers: Layer[]): Template {
+  return {
+    id: 'golden',
+    name: 'Golden',
+    backgroundImage: '',
+    layers,
+    groups: [],
+    guides: [],
+    layoutGrid: DEFAULT_LAYOUT_GRID,
+    variableSchema: [],
+    print: DEFAULT_PRINT_SETTINGS,
+    width: 240,
+    height: 160,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  }
+}
+
+function textLayer(overrides: Partial<TextLayer>): TextLayer {
+  return {
+    id: 'text',
+    type: 'text',
+    x: 120,
+    y: 60,
+    text: 'Sale 50%',
+    fontSize: 32,
+    fontFamily: 'Test Sans',
+    color: '#1d4ed8',
+    fontWeight: 'bold',
+    textAlign: 'center',
+    isVariable: false,
+    ...overrides
+  }
+}
+
+function shapeLayer(overrides: Partial<ShapeLayer>): ShapeLayer {
+  return {
+    id: 'shape',
+    type: 'shape',
+    shape: 'rect',
+    x: 40,
+    y: 90,
+    width: 160,
+    height: 50,
+    fill: { enabled: true, color: '#f97316' },
+    stroke: { enabled: false, color: '#000000', width: 0 },
+    ...overrides
+  }
+}
+
+async function expectToMatchGolden(canvas: Canvas, name: string) {
+  const file = path.join(GOLDEN_DIR, `${name}.png`)
+  if (process.env.UPDATE_GOLDEN || (!existsSync(file) && !process.env.CI)) {
+    mkdirSync(GOLDEN_DIR, { recursive: true })
+    writeFileSync(file, canvas.toBuffer('image/png'))
+    return
+  }
+  expect(existsSync(file), `missing reference image ${name}.png`).toBe(true)
+
+  const golden = await loadImage(readFileSync(file))
+  expect([canvas.width, canvas.height]).toEqual([golden.width, golden.height])
+  const reference = createCanvas(golden.width, golden.height).getContext('2d')
+  reference.drawImage(golden, 0, 0)
+
+  const expected = reference.getImageData(0, 0, golden.width, golden.height).data
+  const actual = canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height).data
+  let changed = 0
+  for (let i = 0; i < actual.length; i += 4) {
+    for (let c = 0; c < 4; c++) {
+      if (Math.abs(actual[i + c] - expected[i + c]) > CHANNEL_TOLERANCE) {
+        changed++
+        break
+      }
+    }
+  }
+  expect(changed / (actual.length / 4)).toBeLessThanOrEqual(MAX_CHANGED_RATIO)
+}
+
+async function render(template: Template, variables?: Record<string, string>, scale = 1): Promise<Canvas> {
+  const canvas = await renderTemplate(template, variables, { scale, background: '#ffffff' })
+  return canvas as unknown as Canvas
+}
+
+describe('renderTemplate', () => {
+  it('rotates text and shapes around their centers', async () => {
+    const template = makeTemplate([
+      shapeLayer({ rotation: 15, stroke: { enabled: true, color: '#111827', width: 3 } }),
+      textLayer({ rotation: -20 })
+    ])
+    await expectToMatchGolden(await render(template), 'rotation')
+  })
+
+  it('applies layer opacity', async () => {
+    const template = makeTemplate([
+      shapeLayer({ opacity: 0.4 }),
+      textLayer({ y: 80, opacity: 0.5, color: '#000000' })
+    ])
+    await expectToMatchGolden(await render(template), 'opacity')
+  })
+
+  it('draws text shadows', async () => {
+    const template = makeTemplate([
+      textLayer({ textShadow: { enabled: true, color: 'rgba(0, 0, 0, 0.6)', offsetX: 4, offsetY: 4, blur: 6 } })
+    ])
+    await expectToMatchGolden(await render(template), 'shadow')
+  })
+
+  it('draws text and shape strokes', async () => {
+    const template = makeTemplate([
+      shapeLayer({ shape: 'ellipse', fill: { enabled: false, color: '#ffffff' }, stroke: { enabled: true, color: '#16a34a', width: 6 } }),
+      textLayer({ color: '#fde047', textStroke: { enabled: true, color: '#7c2d12', width: 4 } })
+    ])
+    await expectToMatchGolden(await render(template), 'stroke')
+  })
+
+  it('draws variable text from the values given, as the generator does', async () => {
+    const template = makeTemplate([
+      textLayer({ isVariable: true, variableName: 'name', rotation: 10, opacity: 0.8 }),
+      textLayer({ id: 'hidden', y: 120, text: 'Members only', visibleWhen: 'member', fontSize: 20 })
+    ])
+    await expectToMatchGolden(await render(template, { name: 'Ada', member: '' }), 'variables')
+  })
+
+  it('hides layers whose visibility rule fails and keeps ones whose rule does not parse', async () => {
+    const template = makeTemplate([
+      shapeLayer({ id: 'large', visibleWhen: 'price > 100 and (size == "Large" or badge)' }),
+      shapeLayer({ id: 'small', y: 20, height: 30, fill: { enabled: true, color: '#7c3aed' }, visibleWhen: 'size == "Small"' }),
+      textLayer({ id: 'broken', y: 120, text: 'Always', fontSize: 20, visibleWhen: 'price >' })
+    ])
+    await expectToMatchGolden(await render(template, { price: '150', size: 'large' }), 'conditions')
+  })
+
+  it('wraps, truncates and shrinks text inside text boxes', async () => {
+    const textBox = { enabled: true, width: 100, height: 0, maxLines: 0, ellipsis: false, shrinkToFit: false, minFontSize: 8 }
+    const template = makeTemplate([
+      shapeLayer({ x: 10, y: 10, width: 100, height: 140, fill: { enabled: true, color: '#e5e7eb' } }),
+      textLayer({ x: 10, y: 10, fontSize: 16, textAlign: 'left', text: 'Wrapped over lines, the last one cut short', textBox: { ...textBox, maxLines: 3, ellipsis: true } }),
+      shapeLayer({ x: 130, y: 10, width: 100, height: 60, fill: { enabled: true, color: '#e5e7eb' } }),
+      textLayer({ x: 130, y: 10, fontSize: 48, text: 'Shrunk to fit', textBox: { ...textBox, height: 60, shrinkToFit: true } })
+    ])
+    await expectToMatchGolden(await render(template), 'text-box')
+  })
+
+  it('scales the whole drawing for high resolution exports', async () => {
+    const template = makeTemplate([
+      shapeLayer({ rotation: 15, opacity: 0.7 }),
+      textLayer({ rotation: -20, textStroke: { enabled: true, color: '#000000', width: 2 } })
+    ])
+    const canvas = await render(template, undefined, 2)
+    expect([canvas.width, canvas.height]).toEqual([480, 320])
+    await expectToMatchGolden(canvas, 'scale')
+  })
+})
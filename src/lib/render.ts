@@ -0,0 +1,400 @@
+import { fontForSize, layoutText, type TextLayout } from '@/lib/text-layout'
+import { getLayerSpans } from '@/lib/rich-text'
+import { interpolateSpans } from '@/lib/placeholders'
+import { isLayerVisible } from '@/lib/conditions'
+import type { ImageLayer, Layer, ShapeLayer, Template, TextLayer, TextSpan } from '@/types/template'
+
+export interface RenderOptions {
+  // Existing canvas to draw into; a new one is created otherwise
+  canvas?: HTMLCanvasElement
+  // Output pixels per template pixel
+  scale?: number
+  // Per-layer position overrides, used for live drag previews
+  offsets?: Record<string, { x: number; y: number }>
+  // Color filled in before drawing when there is no background image; transparent otherwise
+  background?: string
+}
+
+export interface LayerBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>()
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  let cached = imageCache.get(src)
+  if (!cached) {
+    cached = new Promise((resolve, reject) => {
+      const img = new Image()
+      img.crossOrigin = 'anonymous'
+      img.onload = () => resolve(img)
+      img.onerror = () => {
+        imageCache.delete(src)
+        reject(new Error(`Failed to load image: ${src.slice(0, 64)}`))
+      }
+      img.src = src
+    })
+    imageCache.set(src, cached)
+  }
+  return cached
+}
+
+// Text shown for a layer: the variable value when one is given (even an empty one),
+// otherwise a {{placeholder}}
+export function resolveLayerText(layer: TextLayer, variables: Record<string, string> = {}): string {
+  if (!layer.isVariable) return layer.text
+  if (layer.variableName && variables[layer.variableName] !== undefined) {
+    return variables[layer.variableName]
+  }
+  return `{{${layer.variableName || layer.text}}}`
+}
+
+// Spans drawn for a text layer, with {{placeholders}} in static text filled in
+export function resolveLayerSpans(layer: TextLayer, variables: Record<string, string> = {}): TextSpan[] {
+  if (layer.isVariable) return [{ text: resolveLayerText(layer, variables) }]
+  return interpolateSpans(getLayerSpans(layer), variables)
+}
+
+// Image source for a layer; variable layers fall back to their default image.
+// An empty string means there is nothing to draw and a placeholder is shown.
+export function resolveLayerImage(layer: ImageLayer, variables: Record<string, string> = {}): string {
+  if (layer.isVariable && layer.variableName && variables[layer.variableName]) {
+    return variables[layer.variableName]
+  }
+  return layer.src
+}
+
+// Every font a text layer draws with, for preloading
+export function layerFonts(layer: TextLayer): string[] {
+  return getLayerSpans(layer).map(span => fontForSize(layer, layer.fontSize, span))
+}
+
+let measureContext: CanvasRenderingContext2D | null = null
+
+function getMeasureContext(): CanvasRenderingContext2D {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d')!
+  }
+  return measureContext
+}
+
+// Bounding box of a text layer in template coordinates, before rotation.
+// Without a text box `x` is the anchor for the layer's textAlign (left edge,
+// center or right edge); with one, (x, y) is the box's top-left corner.
+export function measureTextLayer(layer: TextLayer, spans: TextSpan[]): LayerBox {
+  return layoutTextLayer(layer, spans).box
+}
+
+// Lines and runs of a text layer, positioned as drawTextLayer draws them
+export function layoutTextLayer(layer: TextLayer, spans: TextSpan[]): TextLayout {
+  return layoutText(getMeasureContext(), layer, spans)
+}
+
+export function measureLayer(layer: Layer, variables: Record<string, string> = {}): LayerBox {
+  if (layer.type === 'image' || layer.type === 'shape') {
+    return { x: layer.x, y: layer.y, width: layer.width, height: layer.height }
+  }
+  return measureTextLayer(layer, resolveLayerSpans(layer, variables))
+}
+
+// Boxes measured in the design view, by layer object and the fonts loaded at the time
+const designBoxCache = new WeakMap<Layer, { fontsVersion: number; box: LayerBox }>()
+
+// Boxes of every layer. Passing `fontsVersion`, a counter bumped whenever web fonts finish
+// loading, reuses the design view measurements of unchanged layers until it changes.
+export function getLayerBoxes(
+  template: Template,
+  variables: Record<string, string> = {},
+  fontsVersion?: number
+): Record<string, LayerBox> {
+  const cacheable = fontsVersion !== undefined && Object.keys(variables).length === 0
+  const boxes: Record<string, LayerBox> = {}
+  template.layers.forEach(layer => {
+    const cached = cacheable ? designBoxCache.get(layer) : undefined
+    if (cached && cached.fontsVersion === fontsVersion) {
+      boxes[layer.id] = cached.box
+      return
+    }
+    boxes[layer.id] = measureLayer(layer, variables)
+    if (cacheable) designBoxCache.set(layer, { fontsVersion, box: boxes[layer.id] })
+  })
+  return boxes
+}
+
+// Applies the layer's rotation around the center of its box, like a CSS transform would
+function rotateAroundBox(ctx: CanvasRenderingContext2D, box: LayerBox, rotation = 0) {
+  const cx = box.x + box.width / 2
+  const cy = box.y + box.height / 2
+  ctx.translate(cx, cy)
+  ctx.rotate(rotation * Math.PI / 180)
+  ctx.translate(-cx, -cy)
+}
+
+export function drawTextLayer(ctx: CanvasRenderingContext2D, layer: TextLayer, spans: TextSpan[]) {
+  const layout = layoutTextLayer(layer, spans)
+  const runs = layout.lines.flatMap(line => line.runs.map(run => ({ ...run, y: line.baseline })))
+
+  ctx.save()
+  rotateAroundBox(ctx, layout.box, layer.rotation)
+
+  ctx.globalAlpha = layer.opacity ?? 1
+  ctx.textAlign = 'left'
+  ctx.textBaseline = 'alphabetic'
+
+  if (layer.textShadow?.enabled) {
+    ctx.shadowColor = layer.textShadow.color
+    ctx.shadowOffsetX = layer.textShadow.offsetX
+    ctx.shadowOffsetY = layer.textShadow.offsetY
+    ctx.shadowBlur = layer.textShadow.blur
+  }
+
+  if (layer.textStroke?.enabled && layer.textStroke.width > 0) {
+    ctx.strokeStyle = layer.textStroke.color
+    ctx.lineWidth = layer.textStroke.width
+    ctx.lineJoin = 'round'
+    runs.forEach(run => {
+      ctx.font = run.font
+      ctx.strokeText(run.text, run.x, run.y)
+    })
+    // Only the stroke casts a shadow, otherwise it is drawn twice
+    ctx.shadowColor = 'transparent'
+  }
+
+  runs.forEach(run => {
+    ctx.font = run.font
+    ctx.fillStyle = run.color
+    ctx.fillText(run.text, run.x, run.y)
+  })
+
+  ctx.restore()
+}
+
+// Source rectangle of the image to draw into a box of the given size
+function fitSourceRect(image: HTMLImageElement, width: number, height: number, fit: ImageLayer['fit']) {
+  const sw = image.naturalWidth || image.width
+  const sh = image.naturalHeight || image.height
+  if (fit === 'fill' || fit === 'contain') return { sx: 0, sy: 0, sw, sh }
+
+  // cover: crop the image to the box aspect ratio, centered
+  const scale = Math.max(width / sw, height / sh)
+  const cw = width / scale
+  const ch = height / scale
+  return { sx: (sw - cw) / 2, sy: (sh - ch) / 2, sw: cw, sh: ch }
+}
+
+export function drawImageLayer(ctx: CanvasRenderingContext2D, layer: ImageLayer, image: HTMLImageElement | null, label: string) {
+  const box = measureLayer(layer)
+
+  ctx.save()
+  rotateAroundBox(ctx, box, layer.rotation)
+  ctx.globalAlpha = layer.opacity ?? 1
+
+  ctx.beginPath()
+  ctx.roundRect(box.x, box.y, box.width, box.height, Math.min(layer.borderRadius || 0, box.width / 2, box.height / 2))
+  ctx.clip()
+
+  if (image) {
+    const { sx, sy, sw, sh } = fitSourceRect(image, box.width, box.height, layer.fit)
+    let dx = box.x
+    let dy = box.y
+    let dw = box.width
+    let dh = box.height
+    if (layer.fit === 'contain') {
+      const scale = Math.min(box.width / sw, box.height / sh)
+      dw = sw * scale
+      dh = sh * scale
+      dx += (box.width - dw) / 2
+      dy += (box.height - dh) / 2
+    }
+    ctx.drawImage(image, sx, sy, sw, sh, dx, dy, dw, dh)
+  } else {
+    // Placeholder for an image layer with nothing to show
+    ctx.fillStyle = 'rgba(148, 163, 184, 0.35)'
+    ctx.fillRect(box.x, box.y, box.width, box.height)
+    ctx.fillStyle = '#475569'
+    ctx.font = `${Math.max(10, Math.min(box.height / 6, 24))}px sans-serif`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText(label, box.x + box.width / 2, box.y + box.height / 2, box.width - 8)
+  }
+
+  ctx.restore()
+}
+
+// Outline of a shape in template coordinates; lines are open paths
+export function traceShapePath(ctx: CanvasRenderingContext2D | Path2D, layer: ShapeLayer) {
+  const { x, y, width, height } = layer
+
+  switch (layer.shape) {
+    case 'rect':
+      ctx.roundRect(x, y, width, height, Math.min(layer.cornerRadius || 0, width / 2, height / 2))
+      break
+    case 'ellipse':
+      ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2)
+      break
+    case 'line':
+      ctx.moveTo(x, y)
+      ctx.lineTo(x + width, y + height)
+      break
+    case 'polygon': {
+      const points = Math.max(3, layer.points || 5)
+      const inner = layer.innerRadius ?? 1
+      // Stars alternate between the outer and inner radius
+      const vertices = inner < 1 ? points * 2 : points
+      for (let i = 0; i < vertices; i++) {
+        const angle = -Math.PI / 2 + (i * Math.PI * 2) / vertices
+        const radius = inner < 1 && i % 2 === 1 ? inner : 1
+        const px = x + width / 2 + Math.cos(angle) * (width / 2) * radius
+        const py = y + height / 2 + Math.sin(angle) * (height / 2) * radius
+        if (i === 0) ctx.moveTo(px, py)
+        else ctx.lineTo(px, py)
+      }
+      ctx.closePath()
+      break
+    }
+  }
+}
+
+function shapeFillStyle(ctx: CanvasRenderingContext2D, layer: ShapeLayer): string | CanvasGradient {
+  const gradient = layer.gradient
+  if (!gradient?.enabled) return layer.fill.color
+
+  const { x, y, width, height } = layer
+  const cx = x + width / 2
+  const cy = y + height / 2
+  let canvasGradient: CanvasGradient
+
+  if (gradient.type === 'radial') {
+    canvasGradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.max(width, height) / 2)
+  } else {
+    // Gradient line through the center, long enough to cover the box at any angle
+    const angle = (gradient.angle * Math.PI) / 180
+    const half = (Math.abs(width * Math.cos(angle)) + Math.abs(height * Math.sin(angle))) / 2
+    const dx = Math.cos(angle) * half
+    const dy = Math.sin(angle) * half
+    canvasGradient = ctx.createLinearGradient(cx - dx, cy - dy, cx + dx, cy + dy)
+  }
+
+  canvasGradient.addColorStop(0, layer.fill.color)
+  canvasGradient.addColorStop(1, gradient.color)
+  return canvasGradient
+}
+
+export function drawShapeLayer(ctx: CanvasRenderingContext2D, layer: ShapeLayer) {
+  ctx.save()
+  rotateAroundBox(ctx, measureLayer(layer), layer.rotation)
+  ctx.globalAlpha = layer.opacity ?? 1
+
+  ctx.beginPath()
+  traceShapePath(ctx, layer)
+
+  if (layer.fill.enabled && layer.shape !== 'line') {
+    ctx.fillStyle = shapeFillStyle(ctx, layer)
+    ctx.fill()
+  }
+
+  // A line is only visible through its stroke
+  if (layer.stroke.enabled || layer.shape === 'line') {
+    ctx.strokeStyle = layer.stroke.color
+    ctx.lineWidth = Math.max(layer.stroke.width, layer.shape === 'line' ? 1 : 0)
+    ctx.lineJoin = 'round'
+    ctx.lineCap = 'round'
+    if (ctx.lineWidth > 0) ctx.stroke()
+  }
+
+  ctx.restore()
+}
+
+async function loadLayerImages(layers: ImageLayer[], variables: Record<string, string> = {}) {
+  const images = new Map<string, HTMLImageElement | null>()
+  await Promise.all(layers.map(async layer => {
+    const src = resolveLayerImage(layer, variables)
+    images.set(layer.id, src ? await loadImage(src).catch(() => null) : null)
+  }))
+  return images
+}
+
+export async function loadFonts(layers: TextLayer[]) {
+  if (typeof document === 'undefined' || !document.fonts) return
+  const fonts = new Set(layers.flatMap(layerFonts))
+  await Promise.all([...fonts].map(font => document.fonts.load(font).catch(() => [])))
+}
+
+// Layers drawn for the given variables. Without variables (the design view) every
+// layer that isn't hidden is drawn, whatever its visibility rule.
+export function getVisibleLayers(template: Template, variables?: Record<string, string>): Layer[] {
+  return template.layers.filter(layer => !layer.hidden && (!variables || isLayerVisible(layer, variables)))
+}
+
+// Draws a template with the given variables. This is the single rendering path
+// shared by the editor canvas, editor export and the generator.
+export async function renderTemplate(
+  template: Template,
+  variables?: Record<string, string>,
+  options: RenderOptions = {}
+): Promise<HTMLCanvasElement> {
+  const scale = options.scale ?? 1
+  const canvas = options.canvas ?? document.createElement('canvas')
+
+  const visibleLayers = getVisibleLayers(template, variables)
+  const textLayers = visibleLayers.filter((layer): layer is TextLayer => layer.type === 'text')
+  const imageLayers = visibleLayers.filter((layer): layer is ImageLayer => layer.type === 'image')
+
+  const [background, images] = await Promise.all([
+    template.backgroundImage ? loadImage(template.backgroundImage) : Promise.resolve(null),
+    loadLayerImages(imageLayers, variables),
+    loadFonts(textLayers)
+  ])
+
+  canvas.width = Math.max(1, Math.round(template.width * scale))
+  canvas.height = Math.max(1, Math.round(template.height * scale))
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D context is not available')
+
+  ctx.setTransform(scale, 0, 0, scale, 0, 0)
+  ctx.clearRect(0, 0, template.width, template.height)
+
+  if (background) {
+    ctx.drawImage(background, 0, 0, template.width, template.height)
+  } else if (options.background) {
+    ctx.fillStyle = options.background
+    ctx.fillRect(0, 0, template.width, template.height)
+  }
+
+  visibleLayers.forEach(layer => {
+    const offset = options.offsets?.[layer.id]
+    const positioned = offset ? { ...layer, x: layer.x + offset.x, y: layer.y + offset.y } : layer
+
+    if (positioned.type === 'image') {
+      drawImageLayer(ctx, positioned, images.get(layer.id) ?? null, `{{${positioned.variableName || 'image'}}}`)
+    } else if (positioned.type === 'shape') {
+      drawShapeLayer(ctx, positioned)
+    } else {
+      drawTextLayer(ctx, positioned, resolveLayerSpans(positioned, variables))
+    }
+  })
+
+  return canvas
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob)
+      else reject(new Error('Failed to encode canvas'))
+    }, type, quality)
+  })
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,95 @@
+import { blink } from '@/blink/client'
+import { fromTemplateRecord, toTemplateRecord } from '@/lib/templates'
+import type { Template } from '@/types/template'
+
+// Row shape of blink.db.templateRevisions. Rows are only ever created, never
+// updated, so every save of a template can be restored later.
+export interface TemplateRevisionRecord {
+  id: string
+  templateId: string
+  userId: string
+  // JSON of the TemplateRecord as it was saved
+  snapshot: string
+  createdAt: string
+}
+
+export interface TemplateRevision {
+  id: string
+  templateId: string
+  template: Template
+  createdAt: string
+}
+
+export interface TemplateDiff {
+  added: string[]
+  removed: string[]
+  changed: string[]
+  backgroundChanged: boolean
+  sizeChanged: boolean
+}
+
+// The parts of a template that a revision captures; name edits and timestamps alone
+// do not make a new revision
+function revisionContent(template: Template): string {
+  return JSON.stringify({
+    backgroundImage: template.backgroundImage,
+    layers: template.layers,
+    groups: template.groups,
+    guides: template.guides,
+    layoutGrid: template.layoutGrid,
+    variableSchema: template.variableSchema,
+    print: template.print,
+    width: template.width,
+    height: template.height
+  })
+}
+
+export function isSameRevision(a: Template, b: Template): boolean {
+  return revisionContent(a) === revisionContent(b)
+}
+
+export function fromRevisionRecord(record: any): TemplateRevision {
+  return {
+    id: record.id,
+    templateId: record.templateId,
+    template: fromTemplateRecord(JSON.parse(record.snapshot)),
+    createdAt: record.createdAt
+  }
+}
+
+export async function createRevision(template: Template, userId: string): Promise<TemplateRevision> {
+  const record: TemplateRevisionRecord = {
+    id: `revision-${Date.now()}`,
+    templateId: template.id,
+    userId,
+    snapshot: JSON.stringify(toTemplateRecord(template, userId)),
+    createdAt: new Date().toISOString()
+  }
+  await blink.db.templateRevisions.create(record)
+  return fromRevisionRecord(record)
+}
+
+// Newest first
+export async function listRevisions(templateId: string, userId: string): Promise<TemplateRevision[]> {
+  const records = await blink.db.templateRevisions.list({
+    where: { templateId, userId },
+    orderBy: { createdAt: 'desc' }
+  })
+  return records.map(fromRevisionRecord)
+}
+
+// Layer ids that differ between two versions of a template
+export function diffTemplates(before: Template, after: Template): TemplateDiff {
+  const beforeLayers = new Map(before.layers.map(layer => [layer.id, JSON.stringify(layer)]))
+  const afterLayers = new Map(after.layers.map(layer => [layer.id, JSON.stringify(layer)]))
+
+  return {
+    added: after.layers.filter(layer => !beforeLayers.has(layer.id)).map(layer => layer.id),
+    removed: before.layers.filter(layer => !afterLayers.has(layer.id)).map(layer => layer.id),
+    changed: after.layers
+      .filter(layer => beforeLayers.has(layer.id) && beforeLayers.get(layer.id) !== afterLayers.get(layer.id))
+      .map(layer => layer.id),
+    backgroundChanged: before.backgroundImage !== after.backgroundImage,
+    sizeChanged: before.width !== after.width || before.height !== after.height
+  }
+}
@@ -0,0 +1,89 @@
+import type { TextLayer, TextSpan } from '@/types/template'
+
+export type SpanStyle = Omit<TextSpan, 'text'>
+
+const STYLE_KEYS = ['color', 'fontWeight', 'fontStyle', 'fontFamily'] as const
+
+// Spans of a static text layer; plain text is a single unstyled span
+export function getLayerSpans(layer: TextLayer): TextSpan[] {
+  return layer.spans?.length ? layer.spans : [{ text: layer.text }]
+}
+
+export function spansToText(spans: TextSpan[]): string {
+  return spans.map(span => span.text).join('')
+}
+
+export function spanStyle(span: TextSpan): SpanStyle {
+  const style: SpanStyle = {}
+  STYLE_KEYS.forEach(key => {
+    if (span[key] !== undefined) Object.assign(style, { [key]: span[key] })
+  })
+  return style
+}
+
+function sameStyle(a: TextSpan, b: TextSpan): boolean {
+  return STYLE_KEYS.every(key => a[key] === b[key])
+}
+
+// Whether any span is styled differently from the layer
+export function hasRichText(spans: TextSpan[]): boolean {
+  return spans.some(span => Object.keys(spanStyle(span)).length > 0)
+}
+
+// Merges neighbouring spans with the same style and drops empty ones
+export function normalizeSpans(spans: TextSpan[]): TextSpan[] {
+  const result: TextSpan[] = []
+  spans.forEach(span => {
+    if (!span.text) return
+    const previous = result[result.length - 1]
+    if (previous && sameStyle(previous, span)) {
+      result[result.length - 1] = { ...previous, text: previous.text + span.text }
+    } else {
+      result.push(span)
+    }
+  })
+  return result
+}
+
+function splitAt(spans: TextSpan[], offset: number): TextSpan[] {
+  const result: TextSpan[] = []
+  let position = 0
+  spans.forEach(span => {
+    const length = span.text.length
+    if (offset > position && offset < position + length) {
+      const cut = offset - position
+      result.push({ ...span, text: span.text.slice(0, cut) }, { ...span, text: span.text.slice(cut) })
+    } else {
+      result.push(span)
+    }
+    position += length
+  })
+  return result
+}
+
+// Spans with any text between two offsets into the plain text
+export function spansInRange(spans: TextSpan[], start: number, end: number): TextSpan[] {
+  let position = 0
+  return spans.filter(span => {
+    const from = position
+    position += span.text.length
+    return from < end && position > start
+  })
+}
+
+// Restyles the text between two offsets; undefined values go back to the layer's style
+export function applySpanStyle(spans: TextSpan[], start: number, end: number, style: SpanStyle): TextSpan[] {
+  let position = 0
+  const styled = splitAt(splitAt(spans, start), end).map(span => {
+    const from = position
+    position += span.text.length
+    if (from >= end || position <= start) return span
+
+    const next: TextSpan = { ...span, ...style }
+    STYLE_KEYS.forEach(key => {
+      if (next[key] === undefined) delete next[key]
+    })
+    return next
+  })
+  return normalizeSpans(styled)
+}
@@ -0,0 +1,26 @@
+import type { ShapeKind } from '@/types/template'
+
+export interface ShapePreset {
+  label: string
+  shape: ShapeKind
+  cornerRadius?: number
+  points?: number
+  innerRadius?: number
+}
+
+// Shapes offered by the editor's "add shape" menu
+export const SHAPE_PRESETS: ShapePreset[] = [
+  { label: 'Rectangle', shape: 'rect' },
+  { label: 'Rounded Rectangle', shape: 'rect', cornerRadius: 24 },
+  { label: 'Ellipse', shape: 'ellipse' },
+  { label: 'Line', shape: 'line' },
+  { label: 'Polygon', shape: 'polygon', points: 6, innerRadius: 1 },
+  { label: 'Badge', shape: 'polygon', points: 16, innerRadius: 0.85 }
+]
+
+export const SHAPE_NAMES: Record<ShapeKind, string> = {
+  rect: 'Rectangle',
+  ellipse: 'Ellipse',
+  line: 'Line',
+  polygon: 'Polygon'
+}
@@ -0,0 +1,92 @@
+import { getPrintBoxes } from '@/lib/print'
+import type { LayerBox } from '@/lib/render'
+import type { LayoutGrid, Template } from '@/types/template'
+
+export interface SnapTargets {
+  x: number[]
+  y: number[]
+}
+
+export interface SnapResult {
+  dx: number
+  dy: number
+  // Target lines the box snapped to, for drawing snap indicators
+  lineX?: number
+  lineY?: number
+}
+
+export interface GridColumn {
+  x: number
+  width: number
+}
+
+export function getGridColumns(width: number, grid: LayoutGrid): GridColumn[] {
+  const columns = Math.max(1, Math.round(grid.columns))
+  const columnWidth = (width - grid.margin * 2 - grid.gutter * (columns - 1)) / columns
+  if (columnWidth <= 0) return []
+
+  return Array.from({ length: columns }, (_, i) => ({
+    x: grid.margin + i * (columnWidth + grid.gutter),
+    width: columnWidth
+  }))
+}
+
+// Canvas edges and center, guides, grid column edges, trim and safe area edges and the
+// edges and centers of every layer that is not being moved
+export function getSnapTargets(
+  template: Template,
+  boxes: Record<string, LayerBox>,
+  excludeIds: string[]
+): SnapTargets {
+  const x = [0, template.width / 2, template.width]
+  const y = [0, template.height / 2, template.height]
+
+  template.guides.forEach(guide => {
+    (guide.orientation === 'vertical' ? x : y).push(guide.position)
+  })
+
+  if (template.layoutGrid.enabled) {
+    getGridColumns(template.width, template.layoutGrid).forEach(column => {
+      x.push(column.x, column.x + column.width)
+    })
+  }
+
+  const printBoxes = getPrintBoxes(template)
+  if (printBoxes) {
+    [printBoxes.trim, printBoxes.safe].forEach(box => {
+      x.push(box.x, box.x + box.width)
+      y.push(box.y, box.y + box.height)
+    })
+  }
+
+  Object.entries(boxes).forEach(([id, box]) => {
+    if (excludeIds.includes(id)) return
+    x.push(box.x, box.x + box.width / 2, box.x + box.width)
+    y.push(box.y, box.y + box.height / 2, box.y + box.height)
+  })
+
+  return { x, y }
+}
+
+// Closest target to any of the edges, within `threshold`
+function snapAxis(edges: number[], targets: number[], threshold: number): { delta: number; line?: number } {
+  let best: { delta: number; line?: number } = { delta: 0 }
+  let bestDistance = threshold
+  edges.forEach(edge => {
+    targets.forEach(target => {
+      const distance = Math.abs(target - edge)
+      if (distance <= bestDistance) {
+        best = { delta: target - edge, line: target }
+        bestDistance = distance
+      }
+    })
+  })
+  return best
+}
+
+// Offset that moves the box's left/center/right and top/middle/bottom onto the nearest targets
+export function snapBox(box: LayerBox, targets: SnapTargets, threshold: number): SnapResult {
+  const x = snapAxis([box.x, box.x + box.width / 2, box.x + box.width], targets.x, threshold)
+  const y = snapAxis([box.y, box.y + box.height / 2, box.y + box.height], targets.y, threshold)
+  return { dx: x.delta, dy: y.delta, lineX: x.line, lineY: y.line }
+}
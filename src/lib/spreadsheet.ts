@@ -0,0 +1,36 @@
+import { parseDelimited, toDelimited } from '@/lib/csv'
+
+export const SPREADSHEET_ACCEPT = '.csv,.tsv,.txt,.xlsx,text/csv,text/tab-separated-values'
+
+// Date cells come back as UTC instants that can be off by a millisecond, so they are rounded
+// to the minute and written as yyyy-MM-dd, with the time only when there is one
+function formatCellDate(date: Date): string {
+  const iso = new Date(Math.round(date.getTime() / 60_000) * 60_000).toISOString()
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 16).replace('T', ' ')
+}
+
+// Reads the first sheet of an .xlsx workbook as rows of strings
+async function readWorkbookRows(file: File): Promise<string[][]> {
+  // Loaded on demand, the parser is only needed for spreadsheets
+  const { readSheet } = await import('read-excel-file/browser')
+  const rows = await readSheet(file)
+  return rows.map(row => row.map(value => {
+    if (value == null) return ''
+    return value instanceof Date ? formatCellDate(value) : String(value)
+  }))
+}
+
+// Converts an uploaded .csv, .tsv or .xlsx file to CSV text for the batch editor
+export async function readSpreadsheetAsCsv(file: File): Promise<string> {
+  const name = file.name.toLowerCase()
+
+  if (name.endsWith('.xlsx')) {
+    return toDelimited(await readWorkbookRows(file))
+  }
+
+  const text = await file.text()
+  if (name.endsWith('.tsv')) {
+    return toDelimited(parseDelimited(text, '\t'))
+  }
+  return text
+}
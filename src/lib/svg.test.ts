@@ -0,0 +1,98 @@
+import { readFileSync } from 'fs'
+import { createRequire } from 'module'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { checkTextOutlines, renderTemplateSvg } from '@/lib/svg'
+import { DEFAULT_LAYOUT_GRID, DEFAULT_PRINT_SETTINGS } from '@/lib/templates'
+import type { ImageLayer, Layer, Template, TextLayer } from '@/types/template'
+
+const require = createRequire(import.meta.url)
+// Served as the font file; opentype.js can't apply some of DejaVu Sans' substitutions
+const REGULAR = readFileSync(require.resolve('dejavu-fonts-ttf/ttf/DejaVuSansMono.ttf'))
+
+function makeTemplate(layers: Layer[]): Template {
+  return {
+    id: 'svg',
+    name: 'Svg',
+    backgroundImage: '',
+    layers,
+    groups: [],
+    guides: [],
+    layoutGrid: DEFAULT_LAYOUT_GRID,
+    variableSchema: [],
+    print: DEFAULT_PRINT_SETTINGS,
+    width: 240,
+    height: 160,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  }
+}
+
+function textLayer(id: string, overrides: Partial<TextLayer> = {}): TextLayer {
+  return {
+    id,
+    type: 'text',
+    x: 120,
+    y: 60,
+    text: 'Sale',
+    fontSize: 32,
+    fontFamily: 'Test Sans',
+    color: '#000000',
+    fontWeight: 'normal',
+    textAlign: 'center',
+    isVariable: false,
+    ...overrides
+  }
+}
+
+describe('renderTemplateSvg', () => {
+  // The font CDN only has the regular latin file of Test Sans, and images can't be fetched
+  beforeEach(() => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => (
+      url.endsWith('/test-sans-latin-400-normal.woff')
+        ? new Response(REGULAR)
+        : new Response(null, { status: 404 })
+    )))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reports text outlined with the regular style in place of a missing bold or italic', async () => {
+    const template = makeTemplate([
+      textLayer('regular'),
+      textLayer('bold', { fontWeight: 'bold' }),
+      textLayer('italic', { spans: [{ text: 'Sale', fontStyle: 'italic' }] }),
+      textLayer('missing', { fontFamily: 'Nowhere Sans' })
+    ])
+    const check = await checkTextOutlines(template)
+    expect(check.live.map(layer => layer.id)).toEqual(['missing'])
+    expect(check.substituted.map(layer => layer.id)).toEqual(['bold', 'italic'])
+
+    const svg = await renderTemplateSvg(template, undefined, { outlineText: true })
+    expect(svg.match(/<path /g)).toHaveLength(3)
+    expect(svg).toContain('font-family="&apos;Nowhere Sans&apos;, sans-serif"')
+  })
+
+  it('hands images it could not embed to the caller and links them instead', async () => {
+    const image: ImageLayer = {
+      id: 'photo',
+      type: 'image',
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      src: 'https://example.com/photo.png',
+      fit: 'cover',
+      borderRadius: 0,
+      isVariable: false
+    }
+    const linked: string[] = []
+    const svg = await renderTemplateSvg(makeTemplate([image]), undefined, {
+      embedImages: true,
+      onLinkedImage: src => linked.push(src)
+    })
+    expect(linked).toEqual(['https://example.com/photo.png'])
+    expect(svg).toContain('href="https://example.com/photo.png"')
+  })
+})
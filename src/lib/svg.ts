@@ -0,0 +1,494 @@
+import type { Font } from 'opentype.js'
+import {
+  getVisibleLayers,
+  layoutTextLayer,
+  loadFonts,
+  measureLayer,
+  resolveLayerImage,
+  resolveLayerSpans,
+  type LayerBox
+} from '@/lib/render'
+import { readFileAsDataUrl } from '@/lib/files'
+import { fromPixels, getPrintSheet, type PrintSheet } from '@/lib/print'
+import type { TextLayout, TextRun } from '@/lib/text-layout'
+import type { ImageLayer, Layer, ShapeLayer, Template, TextLayer } from '@/types/template'
+
+export interface SvgOptions {
+  // Replaces text with glyph outlines so the file looks the same without the fonts
+  outlineText?: boolean
+  // Inlines remote images, and the fonts of live text, as data URLs instead of linking to them
+  embedImages?: boolean
+  // Color filled in when there is no background image, like RenderOptions.background
+  background?: string
+  // Called for each image that couldn't be embedded and stays linked by URL instead
+  onLinkedImage?: (src: string, error: unknown) => void
+}
+
+interface SvgContext {
+  defs: string[]
+  // Ids for filters, clip paths and gradients, unique within the document
+  nextId: (prefix: string) => string
+  // Characters drawn as live text per family, weight and style, for the font stylesheet
+  liveFonts: Map<string, string>
+  options: SvgOptions
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeXml(typeof value === 'number' ? String(round(value)) : value ?? '')}"`)
+    .join('')
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Matches rotateAroundBox in the canvas renderer
+function layerTransform(box: LayerBox, rotation = 0): string | undefined {
+  if (!rotation) return undefined
+  return `rotate(${round(rotation)} ${round(box.x + box.width / 2)} ${round(box.y + box.height / 2)})`
+}
+
+async function imageHref(src: string, options: SvgOptions): Promise<string> {
+  if (!options.embedImages || src.startsWith('data:')) return src
+  try {
+    const response = await fetch(src)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    return await readFileAsDataUrl(await response.blob())
+  } catch (error) {
+    // Fall back to a link rather than dropping the image
+    options.onLinkedImage?.(src, error)
+    return src
+  }
+}
+
+// Outlined and embedded fonts come from the Fontsource packages of the Google Fonts the
+// editor offers, at a fixed version so a font update doesn't change existing exports
+const FONTSOURCE_URL = 'https://cdn.jsdelivr.net/npm/@fontsource'
+const FONTSOURCE_VERSION = '5.3.0'
+// Families are split into a file per script; each character comes from the first file that has it
+const FONT_SUBSETS = ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'greek-ext', 'vietnamese']
+
+interface FontFile {
+  font: Font
+  data: ArrayBuffer
+}
+
+interface FontSubsets {
+  files: FontFile[]
+  // The regular files stand in because the family has no bold or italic ones
+  substituted: boolean
+}
+
+const fontFileCache = new Map<string, Promise<FontFile | null>>()
+const fontSubsetsCache = new Map<string, Promise<FontSubsets>>()
+
+function fontsourceId(family: string): string {
+  return family.toLowerCase().replace(/\s+/g, '-')
+}
+
+function loadFontFile(url: string): Promise<FontFile | null> {
+  let cached = fontFileCache.get(url)
+  if (!cached) {
+    cached = (async () => {
+      try {
+        const response = await fetch(url)
+        if (!response.ok) return null
+        const { parse } = await import('opentype.js')
+        const data = await response.arrayBuffer()
+        return { font: parse(data), data }
+      } catch {
+        return null
+      }
+    })()
+    fontFileCache.set(url, cached)
+  }
+  return cached
+}
+
+// The subset files of a family in FONT_SUBSETS order, empty when none could be loaded
+function loadFontSubsets(family: string, weight: TextRun['fontWeight'], style: TextRun['fontStyle']): Promise<FontSubsets> {
+  const numericWeight = weight === 'bold' ? 700 : 400
+  const key = `${family}:${numericWeight}:${style}`
+  let cached = fontSubsetsCache.get(key)
+  if (!cached) {
+    // Not every family has bold or italic files; fall back to the regular one
+    const candidates = [...new Set([`${numericWeight}-${style}`, `${numericWeight}-normal`, '400-normal'])]
+    const id = fontsourceId(family)
+    cached = (async () => {
+      for (const candidate of candidates) {
+        const files = await Promise.all(FONT_SUBSETS.map(subset =>
+          loadFontFile(`${FONTSOURCE_URL}/${id}@${FONTSOURCE_VERSION}/files/${id}-${subset}-${candidate}.woff`)
+        ))
+        const loaded = files.filter((file): file is FontFile => file !== null)
+        if (loaded.length > 0) return { files: loaded, substituted: candidate !== candidates[0] }
+      }
+      return { files: [], substituted: false }
+    })()
+    fontSubsetsCache.set(key, cached)
+  }
+  return cached
+}
+
+// Splits text into pieces that are each drawn from one file, or null when a character is in none.
+// Spaces stay with the piece before them.
+function splitBySubset(text: string, files: FontFile[]): Array<{ file: FontFile; text: string }> | null {
+  const pieces: Array<{ file: FontFile; text: string }> = []
+  for (const char of text) {
+    const blank = !/\S/.test(char)
+    const last = pieces[pieces.length - 1]
+    if (last && (blank || last.file.font.hasChar(char))) {
+      last.text += char
+      continue
+    }
+    const file = files.find(item => item.font.hasChar(char)) ?? (blank ? files[0] : undefined)
+    if (!file) return null
+    pieces.push({ file, text: char })
+  }
+  return pieces
+}
+
+interface RunOutline {
+  path: string
+  substituted: boolean
+}
+
+// Glyph outlines for a run, or null when its font or any of its characters isn't available
+async function outlineRun(run: TextRun, fontSize: number, baseline: number): Promise<RunOutline | null> {
+  const { files, substituted } = await loadFontSubsets(run.fontFamily, run.fontWeight, run.fontStyle)
+  const pieces = files.length > 0 ? splitBySubset(run.text, files) : null
+  if (!pieces) return null
+
+  let x = run.x
+  const path = pieces.map(({ file, text }) => {
+    const piece = file.font.getPath(text, x, baseline, fontSize, { kerning: true }).toPathData(2)
+    x += file.font.getAdvanceWidth(text, fontSize, { kerning: true })
+    return piece
+  }).filter(Boolean).join(' ')
+  return { path, substituted: substituted && /\S/.test(run.text) }
+}
+
+// Outlines for every run of a layer, or null when any of them has to stay live text
+async function outlineLayout(layout: TextLayout): Promise<RunOutline[] | null> {
+  const outlines = await Promise.all(layout.lines.flatMap(line => line.runs.map(run => outlineRun(run, layout.fontSize, line.baseline))))
+  return outlines.every(outline => outline !== null) ? outlines as RunOutline[] : null
+}
+
+function runAttributes(run: TextRun, fontSize: number) {
+  return {
+    'font-family': `'${run.fontFamily}', sans-serif`,
+    'font-size': fontSize,
+    'font-weight': run.fontWeight === 'bold' ? 'bold' : undefined,
+    'font-style': run.fontStyle === 'italic' ? 'italic' : undefined
+  }
+}
+
+// Live text: one <text> per layer with a positioned <tspan> per run
+function textElement(layout: TextLayout, paint: (run: TextRun) => Record<string, string | number | undefined>): string {
+  const tspans = layout.lines.flatMap(line => line.runs
+    .filter(run => run.text)
+    .map(run => `<tspan${attributes({ x: run.x, y: line.baseline, ...runAttributes(run, layout.fontSize), ...paint(run) })}>${escapeXml(run.text)}</tspan>`))
+  return tspans.length ? `<text xml:space="preserve">${tspans.join('')}</text>` : ''
+}
+
+async function textLayerSvg(layer: TextLayer, variables: Record<string, string> | undefined, context: SvgContext): Promise<string> {
+  const layout = layoutTextLayer(layer, resolveLayerSpans(layer, variables))
+  const stroke = layer.textStroke?.enabled && layer.textStroke.width > 0 ? layer.textStroke : null
+  const shadow = layer.textShadow?.enabled ? layer.textShadow : null
+
+  let fill: string
+  let strokeCopy = ''
+  const outlines = context.options.outlineText ? await outlineLayout(layout) : null
+
+  if (outlines && outlines.length > 0) {
+    const runs = layout.lines.flatMap(line => line.runs)
+    fill = runs.map((run, i) => `<path${attributes({ d: outlines[i].path, fill: run.color })}/>`).join('')
+    if (stroke) {
+      strokeCopy = `<path${attributes({ d: outlines.map(outline => outline.path).join(' '), fill: 'none', stroke: stroke.color, 'stroke-width': stroke.width, 'stroke-linejoin': 'round' })}/>`
+    }
+  } else {
+    // Runs that can't be outlined keep the whole layer as live text, so it stays consistent
+    layout.lines.forEach(line => line.runs.forEach(run => {
+      const key = `${run.fontFamily}:${run.fontWeight}:${run.fontStyle}`
+      context.liveFonts.set(key, (context.liveFonts.get(key) ?? '') + run.text)
+    }))
+    fill = textElement(layout, run => ({ fill: run.color }))
+    if (stroke) {
+      strokeCopy = textElement(layout, () => ({ fill: 'none', stroke: stroke.color, 'stroke-width': stroke.width, 'stroke-linejoin': 'round' }))
+    }
+  }
+
+  let filter: string | undefined
+  if (shadow) {
+    filter = context.nextId('shadow')
+    // Canvas shadow blur is roughly twice the Gaussian standard deviation
+    context.defs.push(
+      `<filter id="${filter}" x="-50%" y="-50%" width="200%" height="200%">` +
+      `<feDropShadow${attributes({ dx: shadow.offsetX, dy: shadow.offsetY, stdDeviation: shadow.blur / 2, 'flood-color': shadow.color })}/>` +
+      '</filter>'
+    )
+  }
+
+  const rotated = (content: string) =>
+    `<g${attributes({ transform: layerTransform(layout.box, layer.rotation), opacity: layer.opacity ?? 1 })}>${content}</g>`
+
+  // As on the canvas only the stroke casts a shadow when there is one. The filter sits outside
+  // the rotation because canvas shadow offsets aren't rotated with the text.
+  if (filter && strokeCopy) return `<g filter="url(#${filter})">${rotated(strokeCopy)}</g>${rotated(fill)}`
+  if (filter) return `<g filter="url(#${filter})">${rotated(fill)}</g>`
+  return rotated(strokeCopy + fill)
+}
+
+const PRESERVE_ASPECT_RATIO: Record<ImageLayer['fit'], string> = {
+  cover: 'xMidYMid slice',
+  contain: 'xMidYMid meet',
+  fill: 'none'
+}
+
+async function imageLayerSvg(layer: ImageLayer, variables: Record<string, string> | undefined, context: SvgContext): Promise<string> {
+  const box = measureLayer(layer)
+  const src = resolveLayerImage(layer, variables)
+  const clip = context.nextId('clip')
+  const radius = Math.min(layer.borderRadius || 0, box.width / 2, box.height / 2)
+  context.defs.push(`<clipPath id="${clip}"><rect${attributes({ x: box.x, y: box.y, width: box.width, height: box.height, rx: radius || undefined })}/></clipPath>`)
+
+  let content: string
+  if (src) {
+    content = `<image${attributes({
+      href: await imageHref(src, context.options),
+      x: box.x,
+      y: box.y,
+      width: box.width,
+      height: box.height,
+      preserveAspectRatio: PRESERVE_ASPECT_RATIO[layer.fit]
+    })}/>`
+  } else {
+    // Same placeholder as drawImageLayer
+    const label = `{{${layer.variableName || 'image'}}}`
+    content = `<rect${attributes({ x: box.x, y: box.y, width: box.width, height: box.height, fill: 'rgba(148, 163, 184, 0.35)' })}/>` +
+      `<text${attributes({
+        x: box.x + box.width / 2,
+        y: box.y + box.height / 2,
+        'font-family': 'sans-serif',
+        'font-size': Math.max(10, Math.min(box.height / 6, 24)),
+        fill: '#475569',
+        'text-anchor': 'middle',
+        'dominant-baseline': 'middle'
+      })}>${escapeXml(label)}</text>`
+  }
+
+  return `<g${attributes({ transform: layerTransform(box, layer.rotation), opacity: layer.opacity ?? 1, 'clip-path': `url(#${clip})` })}>${content}</g>`
+}
+
+// Vertices of a polygon or star, as traceShapePath draws them
+function polygonPoints(layer: ShapeLayer): string {
+  const { x, y, width, height } = layer
+  const points = Math.max(3, layer.points || 5)
+  const inner = layer.innerRadius ?? 1
+  const vertices = inner < 1 ? points * 2 : points
+  return Array.from({ length: vertices }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * Math.PI * 2) / vertices
+    const radius = inner < 1 && i % 2 === 1 ? inner : 1
+    return `${round(x + width / 2 + Math.cos(angle) * (width / 2) * radius)},${round(y + height / 2 + Math.sin(angle) * (height / 2) * radius)}`
+  }).join(' ')
+}
+
+// Gradient matching shapeFillStyle in the canvas renderer
+function shapeGradient(layer: ShapeLayer, context: SvgContext): string {
+  const gradient = layer.gradient!
+  const id = context.nextId('gradient')
+  const { x, y, width, height } = layer
+  const cx = x + width / 2
+  const cy = y + height / 2
+  const stops = `<stop offset="0"${attributes({ 'stop-color': layer.fill.color })}/><stop offset="1"${attributes({ 'stop-color': gradient.color })}/>`
+
+  if (gradient.type === 'radial') {
+    context.defs.push(`<radialGradient id="${id}" gradientUnits="userSpaceOnUse"${attributes({ cx, cy, r: Math.max(width, height) / 2 })}>${stops}</radialGradient>`)
+  } else {
+    const angle = (gradient.angle * Math.PI) / 180
+    const half = (Math.abs(width * Math.cos(angle)) + Math.abs(height * Math.sin(angle))) / 2
+    const dx = Math.cos(angle) * half
+    const dy = Math.sin(angle) * half
+    context.defs.push(`<linearGradient id="${id}" gradientUnits="userSpaceOnUse"${attributes({ x1: cx - dx, y1: cy - dy, x2: cx + dx, y2: cy + dy })}>${stops}</linearGradient>`)
+  }
+  return `url(#${id})`
+}
+
+function shapeLayerSvg(layer: ShapeLayer, context: SvgContext): string {
+  const { x, y, width, height } = layer
+  const isLine = layer.shape === 'line'
+  const strokeWidth = Math.max(layer.stroke.width, isLine ? 1 : 0)
+  const paint = {
+    fill: layer.fill.enabled && !isLine ? (layer.gradient?.enabled ? shapeGradient(layer, context) : layer.fill.color) : 'none',
+    stroke: (layer.stroke.enabled || isLine) && strokeWidth > 0 ? layer.stroke.color : undefined,
+    'stroke-width': (layer.stroke.enabled || isLine) && strokeWidth > 0 ? strokeWidth : undefined,
+    'stroke-linejoin': 'round',
+    'stroke-linecap': 'round'
+  }
+
+  let element: string
+  switch (layer.shape) {
+    case 'rect': {
+      const radius = Math.min(layer.cornerRadius || 0, width / 2, height / 2)
+      element = `<rect${attributes({ x, y, width, height, rx: radius || undefined, ...paint })}/>`
+      break
+    }
+    case 'ellipse':
+      element = `<ellipse${attributes({ cx: x + width / 2, cy: y + height / 2, rx: width / 2, ry: height / 2, ...paint })}/>`
+      break
+    case 'line':
+      element = `<line${attributes({ x1: x, y1: y, x2: x + width, y2: y + height, ...paint })}/>`
+      break
+    case 'polygon':
+      element = `<polygon${attributes({ points: polygonPoints(layer), ...paint })}/>`
+      break
+  }
+
+  return `<g${attributes({ transform: layerTransform(measureLayer(layer), layer.rotation), opacity: layer.opacity ?? 1 })}>${element}</g>`
+}
+
+function layerSvg(layer: Layer, variables: Record<string, string> | undefined, context: SvgContext): Promise<string> | string {
+  if (layer.type === 'image') return imageLayerSvg(layer, variables, context)
+  if (layer.type === 'shape') return shapeLayerSvg(layer, context)
+  return textLayerSvg(layer, variables, context)
+}
+
+// Google Fonts import for a family and weight. Each is a separate import so one the family
+// doesn't have (a bold script font) doesn't break the others.
+function googleFontImport(family: string, weight: string): string {
+  const name = encodeURIComponent(family).replace(/%20/g, '+')
+  return `@import url('https://fonts.googleapis.com/css2?family=${name}${weight === 'bold' ? ':wght@700' : ''}&display=swap');`
+}
+
+// @font-face rules with the subset files that hold the characters drawn, or null when a
+// font or character can't be loaded
+async function embeddedFontFaces(family: string, weight: TextRun['fontWeight'], style: TextRun['fontStyle'], text: string): Promise<string[] | null> {
+  const { files } = await loadFontSubsets(family, weight, style)
+  const pieces = files.length > 0 ? splitBySubset(text, files) : null
+  if (!pieces) return null
+
+  // Characters per file, for unicode-range so each comes from the file that has it
+  const codePoints = new Map<FontFile, Set<number>>()
+  pieces.forEach(({ file, text: piece }) => {
+    const points = codePoints.get(file) ?? new Set()
+    for (const char of piece) points.add(char.codePointAt(0) ?? 0)
+    codePoints.set(file, points)
+  })
+  return Promise.all([...codePoints].map(async ([file, points]) => {
+    const src = await readFileAsDataUrl(new Blob([file.data], { type: 'font/woff' }))
+    const range = [...points].sort((a, b) => a - b).map(point => `U+${point.toString(16).toUpperCase()}`).join(', ')
+    return `@font-face { font-family: '${family}'; font-weight: ${weight === 'bold' ? 700 : 400}; font-style: ${style}; ` +
+      `src: url(${src}) format('woff'); unicode-range: ${range}; }`
+  }))
+}
+
+// Loads the fonts used by live text. Embedded, they are stored in the file, which also works
+// where nothing is fetched (an SVG shown with <img>); otherwise they link to Google Fonts.
+async function fontStylesheet(fonts: Map<string, string>, embed: boolean): Promise<string> {
+  if (fonts.size === 0) return ''
+  const imports: string[] = []
+  const faces: string[] = []
+  for (const [font, text] of [...fonts].sort(([a], [b]) => a.localeCompare(b))) {
+    const [family, weight, style] = font.split(':') as [string, TextRun['fontWeight'], TextRun['fontStyle']]
+    const embedded = embed ? await embeddedFontFaces(family, weight, style, text) : null
+    if (embedded) faces.push(...embedded)
+    else imports.push(googleFontImport(family, weight))
+  }
+  // @import has to come before any other rule
+  return `<style>${escapeXml([...new Set(imports), ...faces].join('\n'))}</style>`
+}
+
+function printMarksSvg(sheet: PrintSheet): string {
+  const stroke = { stroke: '#000000', 'stroke-width': sheet.lineWidth, fill: 'none' }
+  const crop = sheet.cropMarks.map(mark => `<line${attributes({ ...mark, ...stroke })}/>`)
+  const registration = sheet.registrationMarks.map(({ x, y, radius }) =>
+    `<circle${attributes({ cx: x, cy: y, r: radius, ...stroke })}/>` +
+    `<line${attributes({ x1: x - radius * 1.5, y1: y, x2: x + radius * 1.5, y2: y, ...stroke })}/>` +
+    `<line${attributes({ x1: x, y1: y - radius * 1.5, x2: x, y2: y + radius * 1.5, ...stroke })}/>`
+  )
+  return [...crop, ...registration].join('')
+}
+
+// Serializes a template with the given variables as a standalone SVG document, laid out by
+// the same code as the canvas renderer. Without variables every layer is drawn, as in
+// renderTemplate.
+export async function renderTemplateSvg(
+  template: Template,
+  variables?: Record<string, string>,
+  options: SvgOptions = {}
+): Promise<string> {
+  const layers = getVisibleLayers(template, variables)
+  const textLayers = layers.filter((layer): layer is TextLayer => layer.type === 'text')
+  // Text is measured with the real fonts so wrapping matches the PNG export
+  await loadFonts(textLayers)
+
+  let counter = 0
+  const context: SvgContext = { defs: [], nextId: prefix => `${prefix}-${++counter}`, liveFonts: new Map(), options }
+
+  const background = template.backgroundImage
+    ? `<image${attributes({
+        href: await imageHref(template.backgroundImage, options),
+        x: 0,
+        y: 0,
+        width: template.width,
+        height: template.height,
+        preserveAspectRatio: 'none'
+      })}/>`
+    : options.background
+      ? `<rect${attributes({ width: template.width, height: template.height, fill: options.background })}/>`
+      : ''
+
+  const body = await Promise.all(layers.map(layer => layerSvg(layer, variables, context)))
+  const defs = [await fontStylesheet(context.liveFonts, Boolean(options.embedImages)), ...context.defs].join('')
+
+  // Print templates carry their physical size, and the marks when enabled, on a white sheet
+  const { print } = template
+  const sheet = getPrintSheet(template)
+  const width = sheet?.width ?? template.width
+  const height = sheet?.height ?? template.height
+  const size = print.enabled
+    ? {
+        width: `${round(fromPixels(width, print.unit, print.dpi))}${print.unit}`,
+        height: `${round(fromPixels(height, print.unit, print.dpi))}${print.unit}`
+      }
+    : { width, height }
+  const content = [background, ...body].join('\n')
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg"${attributes({ ...size, viewBox: `0 0 ${round(width)} ${round(height)}` })}>`,
+    `<title>${escapeXml(template.name)}</title>`,
+    defs ? `<defs>${defs}</defs>` : '',
+    sheet
+      ? `<rect${attributes({ width, height, fill: '#ffffff' })}/>\n<g transform="translate(${round(sheet.offset)} ${round(sheet.offset)})">\n${content}\n</g>\n${printMarksSvg(sheet)}`
+      : content,
+    '</svg>'
+  ].join('\n')
+}
+
+export interface TextOutlineCheck {
+  // Left as live text because a font or character couldn't be loaded
+  live: TextLayer[]
+  // Outlined with the regular style because the family has no bold or italic files
+  substituted: TextLayer[]
+}
+
+// Text layers that outlining can't draw as designed
+export async function checkTextOutlines(template: Template, variables?: Record<string, string>): Promise<TextOutlineCheck> {
+  const textLayers = getVisibleLayers(template, variables).filter((layer): layer is TextLayer => layer.type === 'text')
+  await loadFonts(textLayers)
+  const outlined = await Promise.all(textLayers.map(layer => outlineLayout(layoutTextLayer(layer, resolveLayerSpans(layer, variables)))))
+  return {
+    live: textLayers.filter((_, i) => outlined[i] === null),
+    substituted: textLayers.filter((_, i) => outlined[i]?.some(outline => outline.substituted))
+  }
+}
@@ -0,0 +1,87 @@
+import type { Layer, LayoutGrid, PrintSettings, Template } from '@/types/template'
+
+export const DEFAULT_LAYOUT_GRID: LayoutGrid = { enabled: false, columns: 12, gutter: 20, margin: 40 }
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = {
+  enabled: false,
+  unit: 'mm',
+  dpi: 300,
+  width: 85,
+  height: 55,
+  bleed: 3,
+  safeMargin: 5,
+  cropMarks: true,
+  registrationMarks: true
+}
+
+// Row shape of blink.db.templates. Layers are stored as JSON in the
+// `textLayers` column, which predates image layers.
+export interface TemplateRecord {
+  id: string
+  name: string
+  backgroundImage: string
+  textLayers: string
+  // JSON array of LayerGroup
+  groups: string
+  // JSON array of Guide
+  guides: string
+  // JSON LayoutGrid
+  layoutGrid: string
+  // JSON array of VariableDefinition
+  variableSchema: string
+  // JSON PrintSettings
+  print: string
+  width: number
+  height: number
+  userId: string
+  createdAt: string
+  updatedAt?: string
+}
+
+// JSON columns may come back already parsed
+function parseJson(value: unknown): any {
+  return typeof value === 'string' ? JSON.parse(value) : value
+}
+
+// Templates saved before layers had a `type` only contained text layers
+function normalizeLayer(layer: any): Layer {
+  return layer.type ? layer : { ...layer, type: 'text' }
+}
+
+export function fromTemplateRecord(record: any): Template {
+  const rawLayers = parseJson(record.textLayers)
+  return {
+    id: record.id,
+    name: record.name,
+    backgroundImage: record.backgroundImage || '',
+    layers: (rawLayers || []).map(normalizeLayer),
+    groups: parseJson(record.groups) || [],
+    guides: parseJson(record.guides) || [],
+    layoutGrid: { ...DEFAULT_LAYOUT_GRID, ...parseJson(record.layoutGrid) },
+    variableSchema: parseJson(record.variableSchema) || [],
+    print: { ...DEFAULT_PRINT_SETTINGS, ...parseJson(record.print) },
+    width: Number(record.width),
+    height: Number(record.height),
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt || record.createdAt
+  }
+}
+
+export function toTemplateRecord(template: Template, userId: string): TemplateRecord {
+  return {
+    id: template.id,
+    name: template.name,
+    backgroundImage: template.backgroundImage,
+    textLayers: JSON.stringify(template.layers),
+    groups: JSON.stringify(template.groups),
+    guides: JSON.stringify(template.guides),
+    layoutGrid: JSON.stringify(template.layoutGrid),
+    variableSchema: JSON.stringify(template.variableSchema),
+    print: JSON.stringify(template.print),
+    width: template.width,
+    height: template.height,
+    userId,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import { layoutText, type TextLayout } from '@/lib/text-layout'
+import type { TextLayer, TextSpan } from '@/types/template'
+
+// Every character is half the font size wide, or 0.6 of it in bold, so widths are easy to
+// work out: at 10px "aaa bbb" is 35px wide
+function fakeContext(): CanvasRenderingContext2D {
+  return {
+    font: '',
+    measureText(this: { font: string }, text: string) {
+      const size = Number(/(\d+(?:\.\d+)?)px/.exec(this.font)?.[1])
+      const width = [...text].length * size * (this.font.startsWith('bold') ? 0.6 : 0.5)
+      return { width, emHeightAscent: size * 0.8, emHeightDescent: size * 0.2 }
+    }
+  } as unknown as CanvasRenderingContext2D
+}
+
+function textLayer(text: string, overrides: Partial<TextLayer> = {}, textBox: Partial<NonNullable<TextLayer['textBox']>> = {}): TextLayer {
+  return {
+    id: 'text',
+    type: 'text',
+    x: 10,
+    y: 20,
+    text,
+    fontSize: 10,
+    fontFamily: 'Test Sans',
+    color: '#000000',
+    fontWeight: 'normal',
+    textAlign: 'left',
+    isVariable: false,
+    textBox: { enabled: true, width: 40, height: 0, maxLines: 0, ellipsis: false, shrinkToFit: false, minFontSize: 6, ...textBox },
+    ...overrides
+  }
+}
+
+function layout(layer: TextLayer, spans: TextSpan[] = [{ text: layer.text }]): TextLayout {
+  return layoutText(fakeContext(), layer, spans)
+}
+
+function lineTexts(result: TextLayout): string[] {
+  return result.lines.map(line => line.runs.map(run => run.text).join(''))
+}
+
+describe('layoutText', () => {
+  it('draws a single line anchored at the layer position without a text box', () => {
+    const result = layout(textLayer('Hello world', { textAlign: 'center', textBox: undefined }))
+    expect(lineTexts(result)).toEqual(['Hello world'])
+    expect(result.box).toEqual({ x: 10 - 27.5, y: 20, width: 55, height: 12 })
+    // Half a line down, then from the middle of the em box to the baseline
+    expect(result.lines[0].baseline).toBe(20 + 6 + 3)
+  })
+
+  it('wraps words greedily inside the box', () => {
+    const result = layout(textLayer('aaa bbb ccc dd'))
+    expect(lineTexts(result)).toEqual(['aaa bbb', 'ccc dd'])
+    expect(result.lines.map(line => line.baseline)).toEqual([29, 41])
+    expect(result.box).toEqual({ x: 10, y: 20, width: 40, height: 24 })
+  })
+
+  it('keeps line breaks and blank lines', () => {
+    expect(lineTexts(layout(textLayer('one\n\ntwo')))).toEqual(['one', '', 'two'])
+  })
+
+  it('breaks words wider than the box between characters', () => {
+    expect(lineTexts(layout(textLayer('abcdefghij', {}, { width: 20 })))).toEqual(['abcd', 'efgh', 'ij'])
+  })
+
+  it('aligns each line inside the box', () => {
+    const centered = layout(textLayer('aaa bbb ccc', { textAlign: 'center' }))
+    expect(centered.lines.map(line => line.x)).toEqual([10 + 2.5, 10 + 12.5])
+    const right = layout(textLayer('aaa bbb ccc', { textAlign: 'right' }))
+    expect(right.lines.map(line => line.x)).toEqual([15, 35])
+  })
+
+  it('measures styled spans in their own font and positions the runs', () => {
+    const result = layout(textLayer('Hi bold', {}, { width: 100 }), [
+      { text: 'Hi ' },
+      { text: 'bold', fontWeight: 'bold', color: '#ff0000' }
+    ])
+    expect(result.lines[0].runs.map(({ text, x, width, color }) => ({ text, x, width, color }))).toEqual([
+      { text: 'Hi ', x: 10, width: 15, color: '#000000' },
+      { text: 'bold', x: 25, width: 24, color: '#ff0000' }
+    ])
+  })
+
+  it('limits the lines by maxLines or the box height', () => {
+    expect(lineTexts(layout(textLayer('one two three four', {}, { width: 28, maxLines: 2 })))).toEqual(['one', 'two'])
+    // 30px holds two 12px lines
+    const byHeight = layout(textLayer('one two three four', {}, { width: 28, height: 30 }))
+    expect(lineTexts(byHeight)).toEqual(['one', 'two'])
+    expect(byHeight.box.height).toBe(30)
+  })
+
+  it('shortens the last kept line to fit an ellipsis', () => {
+    expect(lineTexts(layout(textLayer('one two three four', {}, { width: 28, maxLines: 3, ellipsis: true })))).toEqual([
+      'one', 'two', 'thre…'
+    ])
+    // Spaces before the ellipsis are dropped
+    expect(lineTexts(layout(textLayer('aaa b ccc', {}, { width: 26, maxLines: 1, ellipsis: true })))).toEqual(['aaa…'])
+    // Nothing is added when everything fits
+    expect(lineTexts(layout(textLayer('one two', {}, { width: 40, maxLines: 1, ellipsis: true })))).toEqual(['one two'])
+  })
+
+  it('takes the ellipsis style from the character before it', () => {
+    const result = layout(textLayer('aa bb cc', {}, { width: 30, maxLines: 1, ellipsis: true }), [
+      { text: 'aa ' },
+      { text: 'bb cc', fontWeight: 'bold' }
+    ])
+    const runs = result.lines[0].runs
+    expect(runs.map(run => run.text)).toEqual(['aa ', 'b', '…'])
+    expect(runs[2].fontWeight).toBe('bold')
+  })
+
+  describe('shrink to fit', () => {
+    it('finds the largest size that fits on the allowed lines', () => {
+      // 15 characters on one 100px line: 15 * 0.5 * size <= 100
+      const oneLine = layout(textLayer('Big summer sale', { fontSize: 40 }, { width: 100, maxLines: 1, shrinkToFit: true }))
+      expect(oneLine.fontSize).toBe(13)
+      expect(lineTexts(oneLine)).toEqual(['Big summer sale'])
+
+      // On two lines "Big summer" is the longest, 10 characters
+      const twoLines = layout(textLayer('Big summer sale', { fontSize: 40 }, { width: 100, maxLines: 2, shrinkToFit: true }))
+      expect(twoLines.fontSize).toBe(20)
+      expect(lineTexts(twoLines)).toEqual(['Big summer', 'sale'])
+      expect(twoLines.lineHeight).toBe(24)
+    })
+
+    it('keeps the layer size when the text already fits', () => {
+      expect(layout(textLayer('Sale', { fontSize: 40 }, { width: 100, maxLines: 1, shrinkToFit: true })).fontSize).toBe(40)
+    })
+
+    it('shrinks rather than breaking a long word', () => {
+      const result = layout(textLayer('Extraordinary', { fontSize: 40 }, { width: 100, shrinkToFit: true }))
+      expect(result.fontSize).toBe(15)
+      expect(lineTexts(result)).toEqual(['Extraordinary'])
+    })
+
+    it('stops at the minimum size and truncates what still does not fit', () => {
+      const result = layout(textLayer('one two three four five six', { fontSize: 20 }, {
+        width: 40,
+        maxLines: 1,
+        ellipsis: true,
+        shrinkToFit: true,
+        minFontSize: 10
+      }))
+      expect(result.fontSize).toBe(10)
+      expect(lineTexts(result)).toEqual(['one two…'])
+    })
+  })
+})
@@ -0,0 +1,285 @@
+import type { TextLayer, TextSpan } from '@/types/template'
+import type { LayerBox } from '@/lib/render'
+
+export const LINE_HEIGHT = 1.2
+
+const ELLIPSIS = '…'
+
+// A piece of a line drawn in one font and color, positioned in template pixels
+export interface TextRun extends RunStyle {
+  text: string
+  x: number
+  width: number
+}
+
+// Resolved style of a run; `font` is the canvas font shorthand for the same values
+export interface RunStyle {
+  font: string
+  fontFamily: string
+  fontWeight: 'normal' | 'bold'
+  fontStyle: 'normal' | 'italic'
+  color: string
+}
+
+export interface TextLine {
+  runs: TextRun[]
+  // Left edge, following the layer's textAlign
+  x: number
+  // Alphabetic baseline shared by every run on the line
+  baseline: number
+  width: number
+}
+
+export interface TextLayout {
+  fontSize: number
+  lineHeight: number
+  lines: TextLine[]
+  box: LayerBox
+}
+
+// [start, end) offsets into the layer's text
+type TextRange = [number, number]
+
+interface StyledText {
+  text: string
+  segments: Array<{ start: number; end: number; span: TextSpan }>
+}
+
+export function fontForSize(layer: TextLayer, fontSize: number, span?: TextSpan): string {
+  const style = span?.fontStyle === 'italic' ? 'italic ' : ''
+  return `${style}${span?.fontWeight ?? layer.fontWeight} ${fontSize}px "${span?.fontFamily ?? layer.fontFamily}", sans-serif`
+}
+
+function runStyle(layer: TextLayer, fontSize: number, span?: TextSpan): RunStyle {
+  return {
+    font: fontForSize(layer, fontSize, span),
+    fontFamily: span?.fontFamily ?? layer.fontFamily,
+    fontWeight: span?.fontWeight ?? layer.fontWeight,
+    fontStyle: span?.fontStyle ?? 'normal',
+    color: span?.color ?? layer.color
+  }
+}
+
+function toStyledText(spans: TextSpan[]): StyledText {
+  let text = ''
+  const segments = spans.map(span => {
+    const start = text.length
+    text += span.text
+    return { start, end: text.length, span }
+  })
+  return { text, segments }
+}
+
+// Measures and slices styled text at one font size. Widths are summed per span,
+// so kerning is kept inside each span; neighbouring spans never share a style.
+function createMeasurer(ctx: CanvasRenderingContext2D, layer: TextLayer, styled: StyledText, fontSize: number) {
+  const widths = new Map<string, number>()
+  const measureString = (font: string, value: string) => {
+    const key = `${font}\n${value}`
+    let width = widths.get(key)
+    if (width === undefined) {
+      ctx.font = font
+      width = ctx.measureText(value).width
+      widths.set(key, width)
+    }
+    return width
+  }
+
+  const pieces = ([start, end]: TextRange) => styled.segments
+    .filter(segment => segment.start < end && segment.end > start)
+    .map(segment => ({
+      text: styled.text.slice(Math.max(start, segment.start), Math.min(end, segment.end)),
+      ...runStyle(layer, fontSize, segment.span)
+    }))
+
+  // Style of the character before an offset, used for a trailing ellipsis
+  const styleAt = (offset: number) => {
+    const segment = styled.segments.find(candidate => offset > candidate.start && offset <= candidate.end) ?? styled.segments[0]
+    return runStyle(layer, fontSize, segment?.span)
+  }
+
+  return {
+    measure: (range: TextRange) => pieces(range).reduce((total, piece) => total + measureString(piece.font, piece.text), 0),
+    ellipsisWidth: (offset: number) => measureString(styleAt(offset).font, ELLIPSIS),
+    runs: (range: TextRange, ellipsis: boolean): TextRun[] => {
+      const runs = pieces(range).map(piece => ({ ...piece, x: 0, width: measureString(piece.font, piece.text) }))
+      if (ellipsis) {
+        const style = styleAt(range[1])
+        runs.push({ text: ELLIPSIS, ...style, x: 0, width: measureString(style.font, ELLIPSIS) })
+      }
+      return runs
+    }
+  }
+}
+
+// Greedy word wrap. Words wider than the box are broken between characters,
+// which `brokeWords` reports so shrink-to-fit can prefer a smaller size instead.
+function wrapText(text: string, measure: (range: TextRange) => number, maxWidth: number) {
+  const lines: TextRange[] = []
+  let brokeWords = false
+  const fits = (start: number, end: number) => measure([start, end]) <= maxWidth
+
+  let paragraphStart = 0
+  text.split('\n').forEach(paragraph => {
+    let line: TextRange | null = null
+
+    for (const match of paragraph.matchAll(/\S+/g)) {
+      const wordStart = paragraphStart + (match.index ?? 0)
+      const wordEnd = wordStart + match[0].length
+      if (line && fits(line[0], wordEnd)) {
+        line = [line[0], wordEnd]
+        continue
+      }
+      if (line) lines.push(line)
+
+      if (fits(wordStart, wordEnd)) {
+        line = [wordStart, wordEnd]
+        continue
+      }
+
+      brokeWords = true
+      let chunkStart = wordStart
+      let position = wordStart
+      for (const char of match[0]) {
+        if (position > chunkStart && !fits(chunkStart, position + char.length)) {
+          lines.push([chunkStart, position])
+          chunkStart = position
+        }
+        position += char.length
+      }
+      line = [chunkStart, wordEnd]
+    }
+
+    lines.push(line ?? [paragraphStart, paragraphStart])
+    paragraphStart += paragraph.length + 1
+  })
+
+  return { lines, brokeWords }
+}
+
+// Keeps the first maxLines lines; the last one is shortened to fit an ellipsis when asked
+function truncateLines(
+  text: string,
+  lines: TextRange[],
+  maxLines: number,
+  ellipsis: boolean,
+  fitsWithEllipsis: (range: TextRange) => boolean
+): { lines: TextRange[]; truncated: boolean } {
+  if (lines.length <= maxLines) return { lines, truncated: false }
+
+  const kept = lines.slice(0, maxLines)
+  if (!ellipsis || kept.length === 0) return { lines: kept, truncated: false }
+
+  const [start] = kept[kept.length - 1]
+  let [, end] = kept[kept.length - 1]
+  while (end > start && !fitsWithEllipsis([start, end])) end--
+  while (end > start && /\s/.test(text[end - 1])) end--
+  kept[kept.length - 1] = [start, end]
+  return { lines: kept, truncated: true }
+}
+
+// Distance from the middle of a line to its alphabetic baseline, from the layer's own font
+function baselineOffset(ctx: CanvasRenderingContext2D, layer: TextLayer, fontSize: number): number {
+  ctx.font = fontForSize(layer, fontSize)
+  const metrics = ctx.measureText('')
+  const ascent = metrics.emHeightAscent || metrics.fontBoundingBoxAscent || fontSize * 0.8
+  const descent = metrics.emHeightDescent || metrics.fontBoundingBoxDescent || fontSize * 0.2
+  return (ascent - descent) / 2
+}
+
+// Lays out a text layer from resolved spans: a single line anchored at (x, y), or wrapped
+// lines inside the layer's text box with optional line limit, ellipsis and shrink-to-fit.
+export function layoutText(ctx: CanvasRenderingContext2D, layer: TextLayer, spans: TextSpan[]): TextLayout {
+  const textBox = layer.textBox
+  const styled = toStyledText(spans)
+
+  const positionLines = (ranges: TextRange[], fontSize: number, anchorX: number, truncated: boolean) => {
+    const measurer = createMeasurer(ctx, layer, styled, fontSize)
+    const lineHeight = fontSize * LINE_HEIGHT
+    const offset = baselineOffset(ctx, layer, fontSize)
+
+    return ranges.map((range, i): TextLine => {
+      const runs = measurer.runs(range, truncated && i === ranges.length - 1)
+      const width = runs.reduce((total, run) => total + run.width, 0)
+
+      let x = anchorX
+      if (layer.textAlign === 'center') x = anchorX - width / 2
+      if (layer.textAlign === 'right') x = anchorX - width
+
+      let runX = x
+      runs.forEach(run => {
+        run.x = runX
+        runX += run.width
+      })
+      return { runs, x, baseline: layer.y + lineHeight * (i + 0.5) + offset, width }
+    })
+  }
+
+  if (!textBox?.enabled) {
+    const lineHeight = layer.fontSize * LINE_HEIGHT
+    const lines = positionLines([[0, styled.text.length]], layer.fontSize, layer.x, false)
+
+    return {
+      fontSize: layer.fontSize,
+      lineHeight,
+      lines,
+      box: { x: lines[0].x, y: layer.y, width: lines[0].width, height: lineHeight }
+    }
+  }
+
+  const maxWidth = Math.max(1, textBox.width)
+  const lineCapacity = (fontSize: number) => {
+    const byHeight = textBox.height > 0
+      ? Math.max(1, Math.floor(textBox.height / (fontSize * LINE_HEIGHT)))
+      : Infinity
+    return textBox.maxLines > 0 ? Math.min(textBox.maxLines, byHeight) : byHeight
+  }
+  const fitsAt = (fontSize: number) => {
+    const { measure } = createMeasurer(ctx, layer, styled, fontSize)
+    const { lines, brokeWords } = wrapText(styled.text, measure, maxWidth)
+    return !brokeWords && lines.length <= lineCapacity(fontSize)
+  }
+
+  // The layer's font size is the maximum; search down to the minimum for the largest size that fits
+  let fontSize = layer.fontSize
+  if (textBox.shrinkToFit && !fitsAt(fontSize)) {
+    let low = Math.min(textBox.minFontSize, layer.fontSize)
+    let high = layer.fontSize - 1
+    fontSize = low
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2)
+      if (fitsAt(mid)) {
+        fontSize = mid
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+  }
+
+  const { measure, ellipsisWidth } = createMeasurer(ctx, layer, styled, fontSize)
+  const lineHeight = fontSize * LINE_HEIGHT
+  const { lines, truncated } = truncateLines(
+    styled.text,
+    wrapText(styled.text, measure, maxWidth).lines,
+    lineCapacity(fontSize),
+    textBox.ellipsis,
+    range => measure(range) + ellipsisWidth(range[1]) <= maxWidth
+  )
+
+  let anchorX = layer.x
+  if (layer.textAlign === 'center') anchorX = layer.x + maxWidth / 2
+  if (layer.textAlign === 'right') anchorX = layer.x + maxWidth
+
+  return {
+    fontSize,
+    lineHeight,
+    lines: positionLines(lines, fontSize, anchorX, truncated),
+    box: {
+      x: layer.x,
+      y: layer.y,
+      width: maxWidth,
+      height: textBox.height > 0 ? textBox.height : lines.length * lineHeight
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { getPlaceholderNames } from '@/lib/placeholders'
+import { getConditionVariables } from '@/lib/conditions'
+import { parseDate, parseNumber } from '@/lib/formatters'
+import type { Template, VariableDefinition, VariableType } from '@/types/template'
+
+export type VariableKind = 'text' | 'image'
+
+export interface TemplateVariable {
+  name: string
+  kind: VariableKind
+}
+
+// Variables referenced by a template's visible layers and their visibility rules,
+// in layer order without duplicates
+export function getTemplateVariables(template: Template): TemplateVariable[] {
+  const variables: TemplateVariable[] = []
+  const add = (name: string, kind: VariableKind) => {
+    if (!variables.some(v => v.name === name)) variables.push({ name, kind })
+  }
+
+  template.layers.forEach(layer => {
+    if (layer.hidden) return
+    if (layer.visibleWhen) getConditionVariables(layer.visibleWhen).forEach(name => add(name, 'text'))
+    if (layer.type === 'shape') return
+    if (layer.isVariable) {
+      if (layer.variableName) add(layer.variableName, layer.type === 'image' ? 'image' : 'text')
+    } else if (layer.type === 'text') {
+      getPlaceholderNames(layer.text).forEach(name => add(name, 'text'))
+    }
+  })
+  return variables
+}
+
+export const VARIABLE_TYPE_LABELS: Record<VariableType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  color: 'Color',
+  image: 'Image URL',
+  enum: 'Choice'
+}
+
+export interface VariableError {
+  name: string
+  message: string
+}
+
+export function createVariableDefinition(variable: TemplateVariable): VariableDefinition {
+  return {
+    name: variable.name,
+    type: variable.kind === 'image' ? 'image' : 'text',
+    required: false,
+    defaultValue: '',
+    maxLength: 0,
+    pattern: '',
+    options: []
+  }
+}
+
+// The template's rules for each variable, in the order the variables are used
+export function getVariableDefinitions(template: Template): VariableDefinition[] {
+  return getTemplateVariables(template).map(variable =>
+    template.variableSchema.find(definition => definition.name === variable.name) ?? createVariableDefinition(variable)
+  )
+}
+
+// Fills empty values with their defaults. Every defined variable gets a value,
+// so optional ones left empty render as nothing rather than as {{name}}.
+export function applyVariableDefaults(definitions: VariableDefinition[], values: Record<string, string>): Record<string, string> {
+  const resolved = { ...values }
+  definitions.forEach(definition => {
+    resolved[definition.name] = values[definition.name]?.trim() ? values[definition.name] : definition.defaultValue
+  })
+  return resolved
+}
+
+function isColor(value: string): boolean {
+  if (typeof CSS !== 'undefined' && CSS.supports) return CSS.supports('color', value)
+  return /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)
+}
+
+function isImageSource(value: string): boolean {
+  return /^(https?:\/\/|data:image\/|blob:|\/)/i.test(value)
+}
+
+// Compiles a definition's pattern to match the whole value; null when it is empty or invalid
+export function compileVariablePattern(pattern: string): RegExp | null {
+  if (!pattern) return null
+  try {
+    return new RegExp(`^(?:${pattern})$`)
+  } catch {
+    return null
+  }
+}
+
+// Checks a value (after defaults) against its definition; returns a message or null
+export function validateVariable(definition: VariableDefinition, value: string): string | null {
+  if (!value.trim()) return definition.required ? 'is required' : null
+
+  if (definition.maxLength > 0 && [...value].length > definition.maxLength) {
+    return `must be at most ${definition.maxLength} characters`
+  }
+
+  switch (definition.type) {
+    case 'number':
+      if (parseNumber(value) === null) return 'must be a number'
+      break
+    case 'date':
+      if (!parseDate(value)) return 'must be a date, e.g. 2026-10-19'
+      break
+    case 'color':
+      if (!isColor(value.trim())) return 'must be a color, e.g. #ff6600'
+      break
+    case 'image':
+      if (!isImageSource(value.trim())) return 'must be an image URL or an uploaded image'
+      break
+    case 'enum':
+      if (definition.options.length > 0 && !definition.options.includes(value)) return `must be one of ${definition.options.join(', ')}`
+      break
+  }
+
+  const pattern = compileVariablePattern(definition.pattern)
+  if (pattern && !pattern.test(value)) return `does not match the pattern ${definition.pattern}`
+  return null
+}
+
+export function validateVariables(definitions: VariableDefinition[], values: Record<string, string>): VariableError[] {
+  return definitions.flatMap(definition => {
+    const message = validateVariable(definition, values[definition.name] ?? '')
+    return message ? [{ name: definition.name, message }] : []
+  })
+}
@@ -0,0 +1,15 @@
+import { createRequire } from 'module'
+import { createCanvas, GlobalFonts } from '@napi-rs/canvas'
+
+// Fonts shipped with the tests, so text renders the same on every machine
+const require = createRequire(import.meta.url)
+GlobalFonts.registerFromPath(require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf'), 'Test Sans')
+GlobalFonts.registerFromPath(require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf'), 'Test Sans')
+
+// The renderer creates its canvases through the DOM; in Node they come from @napi-rs/canvas
+globalThis.document = {
+  createElement(tagName: string) {
+    if (tagName !== 'canvas') throw new Error(`No <${tagName}> outside the browser`)
+    return createCanvas(1, 1)
+  }
+} as unknown as Document
@@ -1,8 +1,36 @@
-export interface TextLayer {
+interface BaseLayer {
   id: string
-  text: string
   x: number
   y: number
+  opacity?: number
+  rotation?: number
+  // Layers sharing a group are selected and moved together
+  groupId?: string
+  // Shown in the layer panel instead of the generated label
+  name?: string
+  // Hidden layers are not drawn in previews or exports
+  hidden?: boolean
+  // Locked layers cannot be selected or moved on the canvas
+  locked?: boolean
+  // Rule over the variables, e.g. `discount` or `size == "Large"`; the layer is only drawn when it holds
+  visibleWhen?: string
+}
+
+// A styled run of text inside a text layer; unset styles follow the layer
+export interface TextSpan {
+  text: string
+  color?: string
+  fontWeight?: 'normal' | 'bold'
+  fontStyle?: 'normal' | 'italic'
+  fontFamily?: string
+}
+
+export interface TextLayer extends BaseLayer {
+  type: 'text'
+  // Static text may contain {{placeholders}}; for rich text this mirrors the spans
+  text: string
+  // Styled runs drawn instead of `text` on static layers
+  spans?: TextSpan[]
   fontSize: number
   fontFamily: string
   color: string
@@ -22,15 +50,137 @@ export interface TextLayer {
     color: string
     width: number
   }
-  opacity?: number
-  rotation?: number
+  // Wraps text inside a box at (x, y); fontSize is the maximum size when shrinking
+  textBox?: {
+    enabled: boolean
+    width: number
+    // 0 grows with the number of lines
+    height: number
+    // 0 for no limit
+    maxLines: number
+    ellipsis: boolean
+    shrinkToFit: boolean
+    minFontSize: number
+  }
+}
+
+export type ImageFit = 'cover' | 'contain' | 'fill'
+
+export interface ImageLayer extends BaseLayer {
+  type: 'image'
+  // Data URL or remote URL; used when the layer is not variable or no value is given
+  src: string
+  width: number
+  height: number
+  fit: ImageFit
+  borderRadius: number
+  // Variable image layers take an image URL or uploaded file per generated image
+  isVariable: boolean
+  variableName?: string
+}
+
+export type ShapeKind = 'rect' | 'ellipse' | 'line' | 'polygon'
+
+export interface ShapeLayer extends BaseLayer {
+  type: 'shape'
+  shape: ShapeKind
+  width: number
+  height: number
+  fill: {
+    enabled: boolean
+    color: string
+  }
+  // Blends from fill.color to gradient.color
+  gradient?: {
+    enabled: boolean
+    type: 'linear' | 'radial'
+    color: string
+    angle: number
+  }
+  stroke: {
+    enabled: boolean
+    color: string
+    width: number
+  }
+  // rect only
+  cornerRadius?: number
+  // polygon only: number of corners, and inner radius ratio for stars and badges (1 = regular polygon)
+  points?: number
+  innerRadius?: number
+}
+
+export type Layer = TextLayer | ImageLayer | ShapeLayer
+
+export type LayerType = Layer['type']
+
+export interface LayerGroup {
+  id: string
+  name: string
+}
+
+export interface Guide {
+  id: string
+  // A horizontal guide is a line at `position` on the y axis
+  orientation: 'horizontal' | 'vertical'
+  position: number
+}
+
+// Column grid drawn over the canvas; column edges are snap targets
+export interface LayoutGrid {
+  enabled: boolean
+  columns: number
+  gutter: number
+  margin: number
+}
+
+export type PrintUnit = 'mm' | 'in'
+
+// Physical size of a print template. When enabled the canvas is the trim size plus bleed
+// on every side at `dpi`, so width and height in pixels follow from these.
+export interface PrintSettings {
+  enabled: boolean
+  unit: PrintUnit
+  dpi: number
+  // Finished size after cutting, in `unit`
+  width: number
+  height: number
+  // Artwork extending past the trim on every side, in `unit`
+  bleed: number
+  // Distance inside the trim that important content should stay clear of, in `unit`
+  safeMargin: number
+  // Marks added around the bleed on export
+  cropMarks: boolean
+  registrationMarks: boolean
+}
+
+export type VariableType = 'text' | 'number' | 'date' | 'color' | 'image' | 'enum'
+
+// Input type and rules for a template variable; variables without one are optional free text
+export interface VariableDefinition {
+  name: string
+  type: VariableType
+  required: boolean
+  // Used when no value is given
+  defaultValue: string
+  // 0 for no limit
+  maxLength: number
+  // Regular expression the whole value must match, empty for none
+  pattern: string
+  // Choices for enum variables
+  options: string[]
 }
 
 export interface Template {
   id: string
   name: string
   backgroundImage: string
-  textLayers: TextLayer[]
+  // Drawn in order, the first layer is at the bottom
+  layers: Layer[]
+  groups: LayerGroup[]
+  guides: Guide[]
+  layoutGrid: LayoutGrid
+  variableSchema: VariableDefinition[]
+  print: PrintSettings
   width: number
   height: number
   createdAt: string
@@ -41,4 +191,4 @@ export interface TemplateGeneration {
   templateId: string
   variables: Record<string, string>
   generatedImageUrl?: string
-}
\ No newline at end of file
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
@@ -14,5 +15,10 @@ export default defineConfig({
     strictPort: true,
     host: true,
     allowedHosts: true,
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['./src/test/setup.ts'],
   }
 });
\ No newline at end of file